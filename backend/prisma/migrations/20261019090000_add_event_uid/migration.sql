@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "uid" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Event_uid_key" ON "Event"("uid");
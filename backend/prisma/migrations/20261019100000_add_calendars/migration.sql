@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "Calendar" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Calendar_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing events move into a default calendar.
+INSERT INTO "Calendar" ("id", "name", "color", "updatedAt") VALUES ('default', 'My Calendar', '#3b82f6', CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "calendarId" TEXT;
+UPDATE "Event" SET "calendarId" = 'default';
+ALTER TABLE "Event" ALTER COLUMN "calendarId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Event_calendarId_idx" ON "Event"("calendarId");
+
+-- AddForeignKey
+ALTER TABLE "Event" ADD CONSTRAINT "Event_calendarId_fkey" FOREIGN KEY ("calendarId") REFERENCES "Calendar"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "User" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "passwordHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "User_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Calendar" ADD COLUMN     "userId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "userId" TEXT;
+
+-- DropIndex
+DROP INDEX "Event_uid_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Event_userId_uid_key" ON "Event"("userId", "uid");
+
+-- CreateIndex
+CREATE INDEX "Calendar_userId_idx" ON "Calendar"("userId");
+
+-- CreateIndex
+CREATE INDEX "Event_userId_startTime_idx" ON "Event"("userId", "startTime");
+
+-- AddForeignKey
+ALTER TABLE "Calendar" ADD CONSTRAINT "Calendar_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Event" ADD CONSTRAINT "Event_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "location" TEXT,
+ADD COLUMN     "url" TEXT;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "EventRevision" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "before" JSONB,
+    "after" JSONB,
+    "revertOfId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EventRevision_eventId_createdAt_idx" ON "EventRevision"("eventId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "EventRevision" ADD CONSTRAINT "EventRevision_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
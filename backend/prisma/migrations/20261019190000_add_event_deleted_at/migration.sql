@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Event_userId_deletedAt_idx" ON "Event"("userId", "deletedAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "davName" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Event_calendarId_davName_idx" ON "Event"("calendarId", "davName");
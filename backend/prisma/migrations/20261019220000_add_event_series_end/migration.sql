@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "seriesEnd" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Event_userId_seriesEnd_idx" ON "Event"("userId", "seriesEnd");
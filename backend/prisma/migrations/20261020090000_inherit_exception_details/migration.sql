@@ -0,0 +1,13 @@
+-- Exceptions used to be created with a copy of their master's details. Copies that still match are
+-- cleared, so the exceptions inherit the master's details from now on.
+UPDATE "Event" AS e SET "description" = NULL
+FROM "Event" AS m
+WHERE e."recurrenceId" = m."id" AND e."description" = m."description";
+
+UPDATE "Event" AS e SET "location" = NULL
+FROM "Event" AS m
+WHERE e."recurrenceId" = m."id" AND e."location" = m."location";
+
+UPDATE "Event" AS e SET "url" = NULL
+FROM "Event" AS m
+WHERE e."recurrenceId" = m."id" AND e."url" = m."url";
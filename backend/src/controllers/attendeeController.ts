@@ -0,0 +1,201 @@
+import { Request, Response } from 'express';
+import prisma from '../lib/prisma';
+import { isValidEmail, normalizeEmail } from '../lib/email';
+import { inheritDetails, parseRule } from '../services/recurrenceService';
+import { copyAttendees, isAttendeeRole, isRsvpStatus, RSVP_STATUSES } from '../services/attendeeService';
+import { emitWebhook } from '../services/webhookService';
+import { broadcastChange, SYNC_CLIENT_HEADER } from '../services/syncService';
+import { recordRevision, snapshotEvent } from '../services/revisionService';
+
+// POST /events/:id/attendees
+// Invites someone to an event. Inviting to a series also adds them to its modified occurrences.
+export const inviteAttendee = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { email, role = 'required' } = req.body;
+
+  // 1. Basic Validation
+  if (!isValidEmail(email)) {
+    res.status(400).json({ error: 'A valid email address is required' });
+    return;
+  }
+  if (!isAttendeeRole(role)) {
+    res.status(400).json({ error: 'Role must be "required" or "optional"' });
+    return;
+  }
+
+  try {
+    const event = await prisma.event.findFirst({
+      where: { id, userId: req.userId, deletedAt: null },
+      include: { attendees: true, user: true },
+    });
+    if (!event) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+
+    const normalizedEmail = normalizeEmail(email);
+    if (normalizedEmail === event.user?.email) {
+      res.status(400).json({ error: 'The organizer does not need an invitation' });
+      return;
+    }
+    if (event.attendees.some(a => a.email === normalizedEmail)) {
+      res.status(409).json({ error: 'This person is already invited' });
+      return;
+    }
+
+    const invitee = await prisma.user.findUnique({ where: { email: normalizedEmail }, select: { id: true } });
+    const data = { email: normalizedEmail, userId: invitee?.id ?? null, role };
+
+    const exceptions = event.rrule
+      ? await prisma.event.findMany({ where: { recurrenceId: id, isCancelled: false }, select: { id: true } })
+      : [];
+    const [attendee] = await prisma.$transaction([
+      prisma.attendee.create({ data: { ...data, eventId: id } }),
+      prisma.attendee.createMany({
+        data: exceptions.map(ex => ({ ...data, eventId: ex.id })),
+        skipDuplicates: true,
+      }),
+    ]);
+
+    // The invitee's open calendars get the event too.
+    const { attendees, user, ...row } = event;
+    broadcastChange(req.userId!, 'event.updated', row, req.get(SYNC_CLIENT_HEADER));
+    res.status(201).json(attendee);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to invite attendee' });
+  }
+};
+
+// DELETE /events/:id/attendees/:attendeeId
+// Removing someone from a series removes them from every occurrence.
+export const removeAttendee = async (req: Request, res: Response): Promise<void> => {
+  const { id, attendeeId } = req.params;
+  try {
+    const attendee = await prisma.attendee.findFirst({
+      where: { id: attendeeId, eventId: id, event: { userId: req.userId, deletedAt: null } },
+      include: { event: true },
+    });
+    if (!attendee) {
+      res.status(404).json({ error: 'Attendee not found' });
+      return;
+    }
+
+    await prisma.attendee.deleteMany({
+      where: { email: attendee.email, OR: [{ eventId: id }, { event: { recurrenceId: id } }] },
+    });
+    // The removed attendee no longer sees the event at all.
+    broadcastChange(req.userId!, 'event.updated', attendee.event, req.get(SYNC_CLIENT_HEADER));
+    if (attendee.userId) {
+      broadcastChange(req.userId!, 'event.deleted', attendee.event, req.get(SYNC_CLIENT_HEADER), [attendee.userId]);
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to remove attendee' });
+  }
+};
+
+// POST /events/:id/rsvp
+// Body: { status, occurrenceStart? }. With occurrenceStart the response only applies to that
+// occurrence of a series, which is stored on an exception for it (created if needed).
+export const respondToInvitation = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { status, occurrenceStart } = req.body;
+
+  // 1. Basic Validation
+  if (!isRsvpStatus(status)) {
+    res.status(400).json({ error: `Status must be one of ${RSVP_STATUSES.join(', ')}` });
+    return;
+  }
+  const occurrence = occurrenceStart !== undefined ? new Date(occurrenceStart) : null;
+  if (occurrence && isNaN(occurrence.getTime())) {
+    res.status(400).json({ error: 'occurrenceStart must be a valid date' });
+    return;
+  }
+
+  try {
+    const event = await prisma.event.findFirst({
+      where: { id, deletedAt: null, attendees: { some: { userId: req.userId } } },
+      include: { attendees: true },
+    });
+    if (!event) {
+      res.status(404).json({ error: 'Invitation not found' });
+      return;
+    }
+    const self = event.attendees.find(a => a.userId === req.userId)!;
+
+    // 2. Whole event (or whole series)
+    if (!occurrence) {
+      const attendee = await prisma.attendee.update({ where: { id: self.id }, data: { status } });
+      const { attendees, ...row } = event;
+      broadcastChange(req.userId!, 'event.updated', row, req.get(SYNC_CLIENT_HEADER));
+      res.json(attendee);
+      return;
+    }
+
+    if (!event.rrule) {
+      res.status(400).json({ error: 'occurrenceStart is only valid for recurring events' });
+      return;
+    }
+    if (parseRule(event).after(occurrence, true)?.getTime() !== occurrence.getTime()) {
+      res.status(400).json({ error: 'occurrenceStart is not an occurrence of this series' });
+      return;
+    }
+
+    // 3. A single occurrence
+    const exception = await prisma.event.findFirst({
+      where: { recurrenceId: id, originalStartTime: occurrence, deletedAt: null },
+      include: { attendees: true },
+    });
+    if (exception?.isCancelled) {
+      res.status(400).json({ error: 'This occurrence has been cancelled' });
+      return;
+    }
+
+    if (exception) {
+      const existing = exception.attendees.find(a => a.email === self.email);
+      const attendee = existing
+        ? await prisma.attendee.update({ where: { id: existing.id }, data: { status } })
+        : await prisma.attendee.create({
+            data: { eventId: exception.id, email: self.email, userId: self.userId, role: self.role, status },
+          });
+      const { attendees, ...row } = exception;
+      broadcastChange(req.userId!, 'event.updated', inheritDetails(row, event), req.get(SYNC_CLIENT_HEADER));
+      res.json(attendee);
+      return;
+    }
+
+    // The exception belongs to the organizer and only holds the response: its details stay null so
+    // it keeps showing the series', and its title follows the series' until someone changes it.
+    const duration = event.endTime.getTime() - event.startTime.getTime();
+    const created = await prisma.event.create({
+      data: {
+        userId: event.userId,
+        calendarId: event.calendarId,
+        title: event.title,
+        timeZone: event.timeZone,
+        allDay: event.allDay,
+        startTime: occurrence,
+        endTime: new Date(occurrence.getTime() + duration),
+        recurrenceId: id,
+        originalStartTime: occurrence,
+        attendees: copyAttendees(event.attendees.map(a => (a.id === self.id ? { ...a, status } : a))),
+      },
+      include: { attendees: true },
+    });
+
+    // It is the organizer's event, so the change shows up in their history and goes to their webhooks.
+    const { attendees, ...row } = created;
+    const shown = inheritDetails(row, event);
+    if (event.userId) {
+      await recordRevision(event.userId, created.id, null, await snapshotEvent(created.id));
+      emitWebhook(event.userId, 'event.created', { event: shown });
+    }
+    broadcastChange(req.userId!, 'event.created', shown, req.get(SYNC_CLIENT_HEADER));
+    res.status(201).json(attendees.find(a => a.email === self.email));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to save response' });
+  }
+};
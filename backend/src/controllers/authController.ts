@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { User } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { isValidEmail, normalizeEmail } from '../lib/email';
+import { signToken } from '../middleware/auth';
+
+const SALT_ROUNDS = 10;
+const MIN_PASSWORD_LENGTH = 8;
+
+// Never send the password hash back to the client.
+const toPublicUser = ({ id, email, name, shareFreeBusy }: User) => ({ id, email, name, shareFreeBusy });
+
+// POST /auth/register
+export const register = async (req: Request, res: Response): Promise<void> => {
+  const { email, password, name } = req.body;
+
+  // 1. Basic Validation
+  if (!isValidEmail(email)) {
+    res.status(400).json({ error: 'A valid email address is required' });
+    return;
+  }
+  if (!password || typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    return;
+  }
+
+  try {
+    const normalizedEmail = normalizeEmail(email);
+    if (await prisma.user.findUnique({ where: { email: normalizedEmail } })) {
+      res.status(409).json({ error: 'An account with this email already exists' });
+      return;
+    }
+
+    const isFirstUser = (await prisma.user.count()) === 0;
+    const user = await prisma.user.create({
+      data: {
+        email: normalizedEmail,
+        name: typeof name === 'string' && name.trim() ? name.trim() : null,
+        passwordHash: await bcrypt.hash(password, SALT_ROUNDS),
+      },
+    });
+
+    // Data from before accounts existed has no owner; it goes to whoever sets up the deployment.
+    if (isFirstUser) {
+      await prisma.$transaction([
+        prisma.calendar.updateMany({ where: { userId: null }, data: { userId: user.id } }),
+        prisma.event.updateMany({ where: { userId: null }, data: { userId: user.id } }),
+      ]);
+    }
+    // Invitations sent to this address before the account existed now show up in its calendar.
+    await prisma.attendee.updateMany({ where: { email: normalizedEmail, userId: null }, data: { userId: user.id } });
+
+    res.status(201).json({ token: signToken(user.id), user: toPublicUser(user) });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to register' });
+  }
+};
+
+// POST /auth/login
+export const login = async (req: Request, res: Response): Promise<void> => {
+  const { email, password } = req.body;
+
+  if (typeof email !== 'string' || typeof password !== 'string') {
+    res.status(400).json({ error: 'Email and password are required' });
+    return;
+  }
+
+  try {
+    const user = await prisma.user.findUnique({ where: { email: normalizeEmail(email) } });
+    // Same response for unknown email and wrong password, so accounts cannot be probed.
+    if (!user || !(await bcrypt.compare(password, user.passwordHash))) {
+      res.status(401).json({ error: 'Invalid email or password' });
+      return;
+    }
+
+    res.json({ token: signToken(user.id), user: toPublicUser(user) });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to log in' });
+  }
+};
+
+// GET /auth/me
+export const getCurrentUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.userId } });
+    if (!user) {
+      res.status(401).json({ error: 'Account no longer exists' });
+      return;
+    }
+    res.json(toPublicUser(user));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to fetch account' });
+  }
+};
+
+// PATCH /auth/me
+// Body: { shareFreeBusy?: boolean }
+export const updateCurrentUser = async (req: Request, res: Response): Promise<void> => {
+  const { shareFreeBusy } = req.body;
+
+  if (shareFreeBusy !== undefined && typeof shareFreeBusy !== 'boolean') {
+    res.status(400).json({ error: 'shareFreeBusy must be true or false' });
+    return;
+  }
+
+  try {
+    const user = await prisma.user.update({ where: { id: req.userId }, data: { shareFreeBusy } });
+    res.json(toPublicUser(user));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to update account' });
+  }
+};
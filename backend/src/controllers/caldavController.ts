@@ -0,0 +1,489 @@
+import { Request, Response } from 'express';
+import { Calendar } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { matchesEtag } from '../lib/etag';
+import { escapeXml, findChild, findChildren, parseXml, XmlElement, XmlParseError } from '../lib/xml';
+import {
+  APPLE_ICAL_NS,
+  CALDAV_NS,
+  CALENDARSERVER_NS,
+  calendarCtag,
+  DAV_NS,
+  DavResource,
+  findResource,
+  isUidTaken,
+  listResources,
+  parseResource,
+  resourceConflicts,
+  resourceEtag,
+  resourceLastModified,
+  resourceName,
+  serializeResource,
+  StaleResourceError,
+  trashResource,
+  writeResource,
+} from '../services/caldavService';
+import { eventUid, IcsParseError } from '../services/icsService';
+import { emitWebhook } from '../services/webhookService';
+import { broadcastChange } from '../services/syncService';
+import { eventOf, recordRevision, snapshotEvent } from '../services/revisionService';
+
+// Where caldavRoutes serves the DAV tree.
+export const DAV_ROOT = '/dav';
+
+const PREFIXES: Record<string, string> = { [DAV_NS]: 'D', [CALDAV_NS]: 'C', [CALENDARSERVER_NS]: 'CS', [APPLE_ICAL_NS]: 'A' };
+const CALENDAR_DATA_TYPE = 'text/calendar; charset=utf-8';
+
+interface PropertyName {
+  namespace: string;
+  name: string;
+}
+
+// A property of a resource, with its value as XML.
+interface Property extends PropertyName {
+  value: string;
+}
+
+const principalHref = (userId: string) => `${DAV_ROOT}/principals/${userId}/`;
+const homeHref = (userId: string) => `${DAV_ROOT}/calendars/${userId}/`;
+const calendarHref = (userId: string, calendarId: string) => `${homeHref(userId)}${calendarId}/`;
+const resourceHref = (userId: string, calendarId: string, name: string) =>
+  `${calendarHref(userId, calendarId)}${encodeURIComponent(name)}`;
+
+// Properties outside the namespaces above declare their own, as the default namespace of the element.
+const element = ({ namespace, name }: PropertyName, content = ''): string => {
+  const prefix = PREFIXES[namespace];
+  const tag = prefix ? `${prefix}:${name}` : name;
+  const xmlns = prefix ? '' : ` xmlns="${escapeXml(namespace)}"`;
+  return content ? `<${tag}${xmlns}>${content}</${tag}>` : `<${tag}${xmlns}/>`;
+};
+
+const dav = (name: string, value = ''): Property => ({ namespace: DAV_NS, name, value });
+const caldav = (name: string, value = ''): Property => ({ namespace: CALDAV_NS, name, value });
+const href = (path: string) => `<D:href>${escapeXml(path)}</D:href>`;
+
+const multistatus = (responses: string[]): string =>
+  '<?xml version="1.0" encoding="utf-8"?>\n' +
+  `<D:multistatus ${Object.entries(PREFIXES).map(([ns, prefix]) => `xmlns:${prefix}="${ns}"`).join(' ')}>` +
+  responses.join('') +
+  '</D:multistatus>';
+
+const sendMultistatus = (res: Response, responses: string[]) => {
+  res.status(207).type('application/xml; charset=utf-8').send(multistatus(responses));
+};
+
+// A failed precondition (RFC 4918, section 16), e.g. CALDAV:valid-calendar-data.
+const sendPrecondition = (res: Response, status: number, precondition: PropertyName) => {
+  res.status(status).type('application/xml; charset=utf-8').send(
+    '<?xml version="1.0" encoding="utf-8"?>\n' +
+    `<D:error xmlns:D="${DAV_NS}" xmlns:C="${CALDAV_NS}">${element(precondition)}</D:error>`,
+  );
+};
+
+const propstat = (properties: PropertyName[], status: string, withValues: boolean) =>
+  `<D:propstat><D:prop>${properties.map(p => element(p, withValues ? (p as Property).value : '')).join('')}</D:prop>` +
+  `<D:status>HTTP/1.1 ${status}</D:status></D:propstat>`;
+
+/**
+ * One <D:response> of a multistatus: the requested properties the resource has, and the others as
+ * not found. Without a list (allprop), everything it has.
+ */
+const propertiesResponse = (path: string, available: Property[], requested: PropertyName[] | null): string => {
+  const same = (a: PropertyName) => (b: PropertyName) => a.namespace === b.namespace && a.name === b.name;
+  const found = requested ? available.filter(p => requested.some(same(p))) : available;
+  const missing = requested ? requested.filter(p => !available.some(same(p))) : [];
+  return `<D:response>${href(path)}` +
+    (found.length > 0 ? propstat(found, '200 OK', true) : '') +
+    (missing.length > 0 ? propstat(missing, '404 Not Found', false) : '') +
+    '</D:response>';
+};
+
+const notFoundResponse = (path: string) => `<D:response>${href(path)}<D:status>HTTP/1.1 404 Not Found</D:status></D:response>`;
+
+// Null when the body asks for all properties (allprop, propname or an empty body).
+const requestedProperties = (body: XmlElement | null): PropertyName[] | null => {
+  const prop = body && findChild(body, DAV_NS, 'prop');
+  return prop ? prop.children.map(({ namespace, name }) => ({ namespace, name })) : null;
+};
+
+// The request body as XML, or null for an empty one. Answers 400 and returns undefined if it is not XML.
+const readXmlBody = (req: Request, res: Response): XmlElement | null | undefined => {
+  const text = typeof req.body === 'string' ? req.body.trim() : '';
+  if (!text) return null;
+  try {
+    return parseXml(text);
+  } catch (error) {
+    if (!(error instanceof XmlParseError)) throw error;
+    res.status(400).send(error.message);
+    return undefined;
+  }
+};
+
+// Depth 0 is the resource itself; 1 and infinity (the default) include its members, which is as deep
+// as this tree goes below a collection.
+const includesMembers = (req: Request) => req.get('Depth') !== '0';
+
+// --- Properties ---
+
+const principalProperties = async (userId: string): Promise<Property[]> => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  return [
+    dav('resourcetype', '<D:principal/>'),
+    dav('displayname', escapeXml(user?.name || user?.email || '')),
+    dav('current-user-principal', href(principalHref(userId))),
+    dav('principal-URL', href(principalHref(userId))),
+    caldav('calendar-home-set', href(homeHref(userId))),
+    caldav('calendar-user-address-set', user ? href(`mailto:${user.email}`) : ''),
+  ];
+};
+
+const homeProperties = (userId: string): Property[] => [
+  dav('resourcetype', '<D:collection/>'),
+  dav('current-user-principal', href(principalHref(userId))),
+  dav('owner', href(principalHref(userId))),
+];
+
+// Everything in this tree belongs to the user, who may read and change all of it.
+const PRIVILEGES = ['read', 'write', 'write-content', 'bind', 'unbind', 'read-current-user-privilege-set']
+  .map(privilege => `<D:privilege><D:${privilege}/></D:privilege>`)
+  .join('');
+
+const calendarProperties = async (userId: string, calendar: Calendar): Promise<Property[]> => [
+  dav('resourcetype', '<D:collection/><C:calendar/>'),
+  dav('displayname', escapeXml(calendar.name)),
+  dav('current-user-principal', href(principalHref(userId))),
+  dav('owner', href(principalHref(userId))),
+  dav('current-user-privilege-set', PRIVILEGES),
+  dav('supported-report-set', ['calendar-query', 'calendar-multiget']
+    .map(report => `<D:supported-report><D:report><C:${report}/></D:report></D:supported-report>`)
+    .join('')),
+  caldav('supported-calendar-component-set', '<C:comp name="VEVENT"/>'),
+  ...(calendar.description ? [caldav('calendar-description', escapeXml(calendar.description))] : []),
+  { namespace: CALENDARSERVER_NS, name: 'getctag', value: escapeXml(await calendarCtag(calendar)) },
+  { namespace: APPLE_ICAL_NS, name: 'calendar-color', value: calendar.color },
+];
+
+// calendar-data is only sent when asked for by name; it is the whole resource.
+const resourceProperties = (resource: DavResource, requested: PropertyName[] | null): Property[] => [
+  dav('resourcetype'),
+  dav('getetag', escapeXml(resourceEtag(resource))),
+  dav('getcontenttype', `${CALENDAR_DATA_TYPE}; component=vevent`),
+  dav('getlastmodified', resourceLastModified(resource).toUTCString()),
+  ...(requested?.some(p => p.namespace === CALDAV_NS && p.name === 'calendar-data')
+    ? [caldav('calendar-data', escapeXml(serializeResource(resource)))]
+    : []),
+];
+
+const resourceResponse = (userId: string, calendarId: string, resource: DavResource, requested: PropertyName[] | null) =>
+  propertiesResponse(resourceHref(userId, calendarId, resourceName(resource.event)), resourceProperties(resource, requested), requested);
+
+// --- Path resolution ---
+
+// The requested user's tree must be the caller's own. Answers 404 otherwise.
+const ownsTree = (req: Request, res: Response): boolean => {
+  if (req.params.userId !== req.userId) {
+    res.status(404).send('Not found');
+    return false;
+  }
+  return true;
+};
+
+const findCalendar = async (req: Request, res: Response): Promise<Calendar | null> => {
+  if (!ownsTree(req, res)) return null;
+  const calendar = await prisma.calendar.findFirst({ where: { id: req.params.calendarId, userId: req.userId } });
+  if (!calendar) {
+    res.status(404).send('Calendar not found');
+    return null;
+  }
+  return calendar;
+};
+
+const sendStale = (res: Response) => {
+  res.status(412).send('The resource has changed');
+};
+
+/**
+ * Answers 412 when the request's preconditions do not hold for the current version of the resource.
+ * Writes are also made conditional on the version read (see StaleResourceError), so a change that
+ * lands in between is never overwritten.
+ */
+const checkPreconditions = (req: Request, res: Response, resource: DavResource | null): boolean => {
+  const etag = resource ? resourceEtag(resource) : null;
+  const ifMatch = req.get('If-Match');
+  const ifNoneMatch = req.get('If-None-Match');
+  if ((ifMatch && !matchesEtag(ifMatch, etag)) || (ifNoneMatch && matchesEtag(ifNoneMatch, etag))) {
+    sendStale(res);
+    return false;
+  }
+  return true;
+};
+
+// --- Handlers ---
+
+// ALL /.well-known/caldav
+// The well-known location (RFC 6764) clients look up when given just the server's address.
+export const redirectToDavRoot = (req: Request, res: Response): void => {
+  res.redirect(301, `${DAV_ROOT}/`);
+};
+
+// OPTIONS /dav/*
+export const davOptions = (req: Request, res: Response): void => {
+  res.set('DAV', '1, 3, calendar-access');
+  res.set('Allow', 'OPTIONS, GET, HEAD, PUT, DELETE, PROPFIND, REPORT');
+  res.status(200).send();
+};
+
+// PROPFIND /dav/
+// Where discovery starts: clients ask for the current user's principal.
+export const propfindRoot = (req: Request, res: Response): void => {
+  const body = readXmlBody(req, res);
+  if (body === undefined) return;
+  sendMultistatus(res, [
+    propertiesResponse(`${DAV_ROOT}/`, [
+      dav('resourcetype', '<D:collection/>'),
+      dav('current-user-principal', href(principalHref(req.userId!))),
+    ], requestedProperties(body)),
+  ]);
+};
+
+// PROPFIND /dav/principals/:userId/
+export const propfindPrincipal = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const body = readXmlBody(req, res);
+    if (body === undefined || !ownsTree(req, res)) return;
+    const requested = requestedProperties(body);
+    sendMultistatus(res, [propertiesResponse(principalHref(req.userId!), await principalProperties(req.userId!), requested)]);
+  } catch (error) {
+    console.error(error);
+    res.status(500).send('Failed to read the principal');
+  }
+};
+
+// PROPFIND /dav/calendars/:userId/
+// The calendar home; its members are the user's calendars.
+export const propfindHome = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const body = readXmlBody(req, res);
+    if (body === undefined || !ownsTree(req, res)) return;
+    const requested = requestedProperties(body);
+    const userId = req.userId!;
+
+    const responses = [propertiesResponse(homeHref(userId), homeProperties(userId), requested)];
+    if (includesMembers(req)) {
+      const calendars = await prisma.calendar.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } });
+      for (const calendar of calendars) {
+        responses.push(propertiesResponse(calendarHref(userId, calendar.id), await calendarProperties(userId, calendar), requested));
+      }
+    }
+    sendMultistatus(res, responses);
+  } catch (error) {
+    console.error(error);
+    res.status(500).send('Failed to list calendars');
+  }
+};
+
+// PROPFIND /dav/calendars/:userId/:calendarId/
+export const propfindCalendar = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const body = readXmlBody(req, res);
+    if (body === undefined) return;
+    const calendar = await findCalendar(req, res);
+    if (!calendar) return;
+    const requested = requestedProperties(body);
+    const userId = req.userId!;
+
+    const responses = [propertiesResponse(calendarHref(userId, calendar.id), await calendarProperties(userId, calendar), requested)];
+    if (includesMembers(req)) {
+      for (const resource of await listResources(userId, calendar.id)) {
+        responses.push(resourceResponse(userId, calendar.id, resource, requested));
+      }
+    }
+    sendMultistatus(res, responses);
+  } catch (error) {
+    console.error(error);
+    res.status(500).send('Failed to read the calendar');
+  }
+};
+
+// PROPFIND /dav/calendars/:userId/:calendarId/:name
+export const propfindResource = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const body = readXmlBody(req, res);
+    if (body === undefined) return;
+    const calendar = await findCalendar(req, res);
+    if (!calendar) return;
+    const resource = await findResource(req.userId!, calendar.id, req.params.name);
+    if (!resource) {
+      res.status(404).send('Not found');
+      return;
+    }
+    sendMultistatus(res, [resourceResponse(req.userId!, calendar.id, resource, requestedProperties(body))]);
+  } catch (error) {
+    console.error(error);
+    res.status(500).send('Failed to read the event');
+  }
+};
+
+// 20260105T090000Z, the only form CALDAV:time-range takes.
+const parseUtcDate = (value: string | undefined): Date | undefined | null => {
+  if (value === undefined) return undefined;
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value.trim());
+  return match ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3], +match[4], +match[5], +match[6])) : null;
+};
+
+// REPORT /dav/calendars/:userId/:calendarId/
+// calendar-multiget fetches resources by href. calendar-query filters on the component and on the
+// VEVENT time range; other filters (properties, text) are not applied, so clients get a superset.
+export const reportCalendar = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const body = readXmlBody(req, res);
+    if (body === undefined) return;
+    const calendar = await findCalendar(req, res);
+    if (!calendar) return;
+    const userId = req.userId!;
+    const requested = body && requestedProperties(body);
+
+    if (body?.namespace === CALDAV_NS && body.name === 'calendar-multiget') {
+      const responses: string[] = [];
+      const collection = calendarHref(userId, calendar.id);
+      for (const { text } of findChildren(body, DAV_NS, 'href')) {
+        const path = new URL(text.trim(), 'http://localhost').pathname;
+        const name = path.startsWith(collection) ? decodeURIComponent(path.slice(collection.length)) : '';
+        const resource = name && !name.includes('/') ? await findResource(userId, calendar.id, name) : null;
+        responses.push(resource ? resourceResponse(userId, calendar.id, resource, requested) : notFoundResponse(path));
+      }
+      sendMultistatus(res, responses);
+      return;
+    }
+
+    if (body?.namespace === CALDAV_NS && body.name === 'calendar-query') {
+      const calendarFilter = findChild(findChild(body, CALDAV_NS, 'filter') ?? body, CALDAV_NS, 'comp-filter');
+      const componentFilter = calendarFilter && findChild(calendarFilter, CALDAV_NS, 'comp-filter');
+      // Only VEVENTs are stored; a query for to-dos or journal entries matches nothing.
+      if (calendarFilter?.attributes.name !== 'VCALENDAR' || (componentFilter && componentFilter.attributes.name !== 'VEVENT')) {
+        sendMultistatus(res, []);
+        return;
+      }
+
+      const timeRange = componentFilter && findChild(componentFilter, CALDAV_NS, 'time-range');
+      const start = parseUtcDate(timeRange?.attributes.start);
+      const end = parseUtcDate(timeRange?.attributes.end);
+      if (start === null || end === null) {
+        sendPrecondition(res, 403, { namespace: CALDAV_NS, name: 'valid-filter' });
+        return;
+      }
+
+      const resources = await listResources(userId, calendar.id, timeRange ? { start, end } : undefined);
+      sendMultistatus(res, resources.map(resource => resourceResponse(userId, calendar.id, resource, requested)));
+      return;
+    }
+
+    sendPrecondition(res, 403, { namespace: DAV_NS, name: 'supported-report' });
+  } catch (error) {
+    console.error(error);
+    res.status(500).send('Failed to run the report');
+  }
+};
+
+// GET /dav/calendars/:userId/:calendarId/:name
+export const getResource = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const calendar = await findCalendar(req, res);
+    if (!calendar) return;
+    const resource = await findResource(req.userId!, calendar.id, req.params.name);
+    if (!resource) {
+      res.status(404).send('Not found');
+      return;
+    }
+    res.set('ETag', resourceEtag(resource));
+    res.set('Last-Modified', resourceLastModified(resource).toUTCString());
+    res.type(CALENDAR_DATA_TYPE).send(serializeResource(resource));
+  } catch (error) {
+    console.error(error);
+    res.status(500).send('Failed to read the event');
+  }
+};
+
+// PUT /dav/calendars/:userId/:calendarId/:name
+// Creates or replaces a resource. Like every other write it is refused when it would overlap
+// another event, with 409 and the conflicting event in the message.
+export const putResource = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const calendar = await findCalendar(req, res);
+    if (!calendar) return;
+    const userId = req.userId!;
+    const name = req.params.name;
+    const existing = await findResource(userId, calendar.id, name);
+    if (!checkPreconditions(req, res, existing)) return;
+
+    let content;
+    try {
+      content = parseResource(typeof req.body === 'string' ? req.body : '');
+    } catch (error) {
+      if (!(error instanceof IcsParseError)) throw error;
+      sendPrecondition(res, 403, { namespace: CALDAV_NS, name: 'valid-calendar-data' });
+      return;
+    }
+
+    // A resource keeps its UID, and no two resources share one.
+    if (existing ? content.uid !== eventUid(existing.event) : await isUidTaken(userId, content.uid)) {
+      sendPrecondition(res, 409, { namespace: CALDAV_NS, name: 'no-uid-conflict' });
+      return;
+    }
+
+    const conflicts = await resourceConflicts(userId, content, existing);
+    if (conflicts.length > 0) {
+      res.status(409).send(`This time slot overlaps with "${conflicts[0].title}".`);
+      return;
+    }
+
+    const before = existing ? await snapshotEvent(existing.event.id) : null;
+    const id = await writeResource(userId, calendar.id, name, content, existing);
+    const after = await snapshotEvent(id);
+    await recordRevision(userId, id, before, after);
+    emitWebhook(userId, existing ? 'event.updated' : 'event.created', { event: after && eventOf(after) });
+    if (after) broadcastChange(userId, existing ? 'event.updated' : 'event.created', eventOf(after));
+
+    const written = await findResource(userId, calendar.id, name);
+    if (written) res.set('ETag', resourceEtag(written));
+    res.status(existing ? 204 : 201).send();
+  } catch (error) {
+    if (error instanceof StaleResourceError) {
+      sendStale(res);
+      return;
+    }
+    console.error(error);
+    res.status(500).send('Failed to save the event');
+  }
+};
+
+// DELETE /dav/calendars/:userId/:calendarId/:name
+// Moves the event to the trash, a series together with its exceptions, like DELETE /events/:id.
+export const deleteResource = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const calendar = await findCalendar(req, res);
+    if (!calendar) return;
+    const userId = req.userId!;
+    const resource = await findResource(userId, calendar.id, req.params.name);
+    if (!resource) {
+      res.status(404).send('Not found');
+      return;
+    }
+    if (!checkPreconditions(req, res, resource)) return;
+
+    const { id } = resource.event;
+    const before = await snapshotEvent(id);
+    await trashResource(resource);
+    await recordRevision(userId, id, before, null);
+    emitWebhook(userId, 'event.deleted', { event: resource.event });
+    broadcastChange(userId, 'event.deleted', resource.event);
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof StaleResourceError) {
+      sendStale(res);
+      return;
+    }
+    console.error(error);
+    res.status(500).send('Failed to delete the event');
+  }
+};
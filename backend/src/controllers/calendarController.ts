@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { isValidColor } from '../services/calendarService';
+
+// GET /calendars
+export const getCalendars = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const calendars = await prisma.calendar.findMany({ where: { userId: req.userId }, orderBy: { createdAt: 'asc' } });
+    res.json(calendars);
+  } catch (error) {
+    console.error("Error fetching calendars:", error);
+    res.status(500).json({ error: 'Failed to fetch calendars' });
+  }
+};
+
+// POST /calendars
+export const createCalendar = async (req: Request, res: Response): Promise<void> => {
+  const { name, color, description } = req.body;
+
+  // 1. Basic Validation
+  if (!name || typeof name !== 'string' || name.trim() === '') {
+    res.status(400).json({ error: 'Name is required and cannot be empty' });
+    return;
+  }
+  if (!isValidColor(color)) {
+    res.status(400).json({ error: 'Color must be a hex value like #3b82f6' });
+    return;
+  }
+  if (description != null && typeof description !== 'string') {
+    res.status(400).json({ error: 'Description must be a string' });
+    return;
+  }
+
+  try {
+    const calendar = await prisma.calendar.create({
+      data: { name: name.trim(), color, description, userId: req.userId },
+    });
+    res.status(201).json(calendar);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to create calendar' });
+  }
+};
+
+// PUT /calendars/:id
+export const updateCalendar = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { name, color, description } = req.body;
+
+  // 1. Basic Validation
+  if (!name || typeof name !== 'string' || name.trim() === '') {
+    res.status(400).json({ error: 'Name is required and cannot be empty' });
+    return;
+  }
+  if (!isValidColor(color)) {
+    res.status(400).json({ error: 'Color must be a hex value like #3b82f6' });
+    return;
+  }
+  if (description != null && typeof description !== 'string') {
+    res.status(400).json({ error: 'Description must be a string' });
+    return;
+  }
+
+  try {
+    if (!(await prisma.calendar.findFirst({ where: { id, userId: req.userId } }))) {
+      res.status(404).json({ error: 'Calendar not found' });
+      return;
+    }
+    const calendar = await prisma.calendar.update({
+      where: { id },
+      data: { name: name.trim(), color, description },
+    });
+    res.json(calendar);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      res.status(404).json({ error: 'Calendar not found' });
+      return;
+    }
+    res.status(500).json({ error: 'Failed to update calendar' });
+  }
+};
+
+// DELETE /calendars/:id
+// Deletes an empty calendar. Its events have to be moved or deleted first, so that none is lost
+// without going through the trash; those already in the trash move to the user's oldest calendar.
+export const deleteCalendar = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  try {
+    if (!(await prisma.calendar.findFirst({ where: { id, userId: req.userId } }))) {
+      res.status(404).json({ error: 'Calendar not found' });
+      return;
+    }
+    // New events always need somewhere to go, so the user's last calendar cannot be removed.
+    if (await prisma.calendar.count({ where: { userId: req.userId } }) <= 1) {
+      res.status(400).json({ error: 'The last calendar cannot be deleted' });
+      return;
+    }
+    if (await prisma.event.count({ where: { calendarId: id, deletedAt: null } }) > 0) {
+      res.status(409).json({ error: 'Move or delete the events of this calendar before deleting it' });
+      return;
+    }
+    const fallback = await prisma.calendar.findFirst({ where: { userId: req.userId, NOT: { id } }, orderBy: { createdAt: 'asc' } });
+    await prisma.$transaction([
+      prisma.event.updateMany({ where: { calendarId: id }, data: { calendarId: fallback!.id } }),
+      prisma.calendar.delete({ where: { id } }),
+    ]);
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      res.status(404).json({ error: 'Calendar not found' });
+      return;
+    }
+    res.status(500).json({ error: "Failed to delete calendar" });
+  }
+};
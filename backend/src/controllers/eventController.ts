@@ -1,104 +1,232 @@
 import { Request, Response } from 'express';
-import { PrismaClient, Prisma } from '@prisma/client';
-import { rrulestr } from 'rrule';
+import { randomUUID } from 'crypto';
+import { Event, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { isHttpUrl } from '../lib/url';
+import { matchesEtag } from '../lib/etag';
+import { addWallClockTime, isValidTimeZone, wallClockDifference } from '../lib/timeZone';
+import { continueRule, expandEvents, followTitle, inheritDetails, invalidRule, ownDetail, parseRule, seriesEndOf, truncateRule, windowFilter } from '../services/recurrenceService';
+import { findConflicts, Conflict } from '../services/conflictService';
+import { resolveCalendarId } from '../services/calendarService';
+import { copyAttendees, visibleEventsFilter } from '../services/attendeeService';
+import { copyReminders } from '../services/reminderService';
+import { emitWebhook } from '../services/webhookService';
+import { broadcastChange, SYNC_CLIENT_HEADER } from '../services/syncService';
+import { eventOf, recordRevision, REVISIONS_HEADER, revisionsHeader, snapshotEvent } from '../services/revisionService';
+import {
+  DEFAULT_SEARCH_RANGE_DAYS, MAX_SEARCH_RANGE_DAYS, SEARCH_RESULT_LIMIT, matchesSearch, parseSearchTerms, searchFilter,
+} from '../services/searchService';
 
-const prisma = new PrismaClient();
+const sendConflict = (res: Response, error: string, conflicts: Conflict[]): void => {
+  res.status(409).json({
+    error,
+    // Kept for older clients that only look at the first collision.
+    conflict: conflicts[0],
+    conflicts,
+  });
+};
+
+const eventEtag = (event: Event): string => `"${event.version}"`;
+
+// Thrown inside a write's transaction when the event is no longer the version the write was based on.
+class StaleEventError extends Error {}
+
+// Answers 412 with the event as it is stored now, or 404 if it has gone to the trash meanwhile.
+const sendStale = async (res: Response, id: string): Promise<void> => {
+  const current = await prisma.event.findFirst({
+    where: { id, deletedAt: null },
+    include: { attendees: { orderBy: { createdAt: 'asc' } }, user: { select: { email: true, name: true } } },
+  });
+  if (!current) {
+    res.status(404).json({ error: 'Event not found' });
+    return;
+  }
+  res.set('ETag', eventEtag(current));
+  res.status(412).json({ error: 'This event was changed by someone else since you loaded it.', current });
+};
+
+/**
+ * Answers 412 with the stored event when the request's If-Match names another version of it, i.e.
+ * someone changed it since the client loaded it. Requests without If-Match pass this check; the
+ * write itself is still made conditional on the version read (see StaleEventError), so a change
+ * that lands in between is never overwritten.
+ */
+const checkVersion = async (req: Request, res: Response, existing: Event): Promise<boolean> => {
+  const ifMatch = req.get('If-Match');
+  if (!ifMatch || matchesEtag(ifMatch, eventEtag(existing))) return true;
+  await sendStale(res, existing.id);
+  return false;
+};
+
+// Re-keys a master's exceptions after its occurrences moved by `shift` ms of wall-clock time in the
+// series' zone, optionally onto another master. Cancellation markers have no times of their own,
+// so they travel with the occurrence.
+const shiftExceptions = (db: Prisma.TransactionClient, exceptions: Event[], shift: number, timeZone: string | null, recurrenceId?: string) =>
+  exceptions.map(ex => db.event.update({
+    where: { id: ex.id },
+    data: {
+      recurrenceId,
+      version: { increment: 1 },
+      originalStartTime: addWallClockTime(ex.originalStartTime!, shift, timeZone),
+      ...(ex.isCancelled && {
+        startTime: addWallClockTime(ex.startTime, shift, timeZone),
+        endTime: addWallClockTime(ex.endTime, shift, timeZone),
+      }),
+    },
+  }));
+
+// An omitted zone is fine (the stored one, or UTC, is used); anything else must be an IANA name.
+const isValidTimeZoneInput = (timeZone: unknown): boolean =>
+  timeZone === undefined || timeZone === null || (typeof timeZone === 'string' && isValidTimeZone(timeZone));
+
+const TIME_ZONE_ERROR = 'timeZone must be an IANA time zone such as Europe/Berlin';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// All-day events are stored as plain dates: midnight UTC, with the end on the day after the last one.
+const isPlainDate = (date: Date): boolean => date.getTime() % DAY_MS === 0;
+
+const ALL_DAY_ERROR = 'All-day events take plain dates (YYYY-MM-DD) as startTime and endTime';
+
+type EventDetails = Pick<Event, 'description' | 'location' | 'url'>;
+
+const DETAIL_MAX_LENGTH: Record<keyof EventDetails, number> = { description: 10_000, location: 500, url: 2_000 };
+
+const DETAIL_FIELDS = Object.keys(DETAIL_MAX_LENGTH) as (keyof EventDetails)[];
+
+// description, location and url are optional strings (or null); the url has to be http(s).
+const invalidDetails = (body: Record<string, unknown>): string | null => {
+  for (const field of DETAIL_FIELDS) {
+    const value = body[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'string') return `${field} must be a string`;
+    if (value.length > DETAIL_MAX_LENGTH[field]) return `${field} cannot be longer than ${DETAIL_MAX_LENGTH[field]} characters`;
+  }
+  if (typeof body.url === 'string' && body.url.trim() !== '' && !isHttpUrl(body.url.trim())) {
+    return 'url must be an http(s) URL';
+  }
+  return null;
+};
 
-// GET /events?start=ISO_DATE&end=ISO_DATE
+// The details given in a request body. Omitted ones stay undefined, so they are left unchanged (or
+// inherited from the series); blank ones are cleared.
+const readDetails = (body: Record<string, unknown>): Partial<EventDetails> =>
+  Object.fromEntries(
+    DETAIL_FIELDS
+      .filter(field => body[field] !== undefined)
+      .map(field => {
+        const value = body[field];
+        return [field, typeof value === 'string' && value.trim() !== '' ? value.trim() : null];
+      }),
+  );
+
+const detailsOf = ({ description, location, url }: EventDetails): EventDetails => ({ description, location, url });
+
+// The details given for an exception, stored only where they differ from its series' (see ownDetail).
+const readExceptionDetails = (body: Record<string, unknown>, master: EventDetails): Partial<EventDetails> =>
+  Object.fromEntries(
+    Object.entries(readDetails(body)).map(([field, value]) => [field, ownDetail(value ?? null, master[field as keyof EventDetails])]),
+  );
+
+// Reads an id list given either as a comma-separated value or as a repeated query parameter.
+const parseIdList = (value: unknown): string[] | undefined => {
+  if (value === undefined) return undefined;
+  const values = Array.isArray(value) ? value : [value];
+  return values.flatMap(v => String(v).split(',')).map(v => v.trim()).filter(Boolean);
+};
+
+// GET /events?start=ISO_DATE&end=ISO_DATE&calendarIds=ID,ID
 export const getEvents = async (req: Request, res: Response): Promise<void> => {
-  const { start, end } = req.query;
+  const { start, end, calendarIds } = req.query;
   const windowStart = new Date(start as string);
   const windowEnd = new Date(end as string);
 
   try {
     // 1. Fetch all events that could possibly appear in the window.
-    // This includes single events, master recurring events, and exceptions.
+    // This includes single events, master recurring events, and exceptions, both the user's own
+    // and those they are invited to.
     const potentialEvents = await prisma.event.findMany({
       where: {
-        OR: [
-          // A. Regular, non-recurring events that overlap the window.
-          {
-            rrule: null,
-            recurrenceId: null,
-            startTime: { lt: windowEnd },
-            endTime: { gt: windowStart },
-          },
-          // B. Master recurring events that start before the window ends.
-          {
-            rrule: { not: null },
-            startTime: { lt: windowEnd },
-          },
-          // C. Exception events whose original time was in the window.
-          {
-            recurrenceId: { not: null },
-            originalStartTime: {
-              gte: windowStart,
-              lt: windowEnd,
-            },
-          },
-        ],
+        AND: [windowFilter(windowStart, windowEnd), await visibleEventsFilter(req.userId!, parseIdList(calendarIds))],
+      },
+      include: {
+        attendees: { orderBy: { createdAt: 'asc' } },
+        // The organizer, shown to invitees.
+        user: { select: { email: true, name: true } },
       },
     });
 
-    const finalEvents: any[] = [];
-    const exceptions = new Map<string, any>(); // Key: masterEventId-originalStartTimeISO
+    res.json(expandEvents(potentialEvents, windowStart, windowEnd));
+  } catch (error) {
+    console.error("Error fetching events:", error);
+    res.status(500).json({ error: 'Failed to fetch events' });
+  }
+};
 
-    // Separate master, exceptions, and single events
-    const masterEvents = potentialEvents.filter(e => e.rrule);
-    const singleEvents = potentialEvents.filter(e => !e.rrule && !e.recurrenceId);
-    
-    potentialEvents.filter(e => e.recurrenceId && e.originalStartTime).forEach(ex => {
-        const key = `${ex.recurrenceId}-${ex.originalStartTime!.toISOString()}`;
-        exceptions.set(key, ex);
+// GET /events/search?q=TEXT&from=ISO_DATE&to=ISO_DATE&calendar=ID,ID
+// Occurrences in [from, to) whose title or description contains every word of `q`, earliest first.
+// The range defaults to a year either side of now.
+export const searchEvents = async (req: Request, res: Response): Promise<void> => {
+  const { q, from, to, calendar } = req.query;
+  const now = Date.now();
+  const rangeStart = from !== undefined ? new Date(from as string) : new Date(now - DEFAULT_SEARCH_RANGE_DAYS * DAY_MS);
+  const rangeEnd = to !== undefined ? new Date(to as string) : new Date(now + DEFAULT_SEARCH_RANGE_DAYS * DAY_MS);
+
+  // 1. Basic Validation
+  const terms = typeof q === 'string' ? parseSearchTerms(q) : [];
+  if (terms.length === 0) {
+    res.status(400).json({ error: 'q is required and cannot be empty' });
+    return;
+  }
+  if (isNaN(rangeStart.getTime()) || isNaN(rangeEnd.getTime()) || rangeStart >= rangeEnd) {
+    res.status(400).json({ error: 'from and to must be dates with from before to' });
+    return;
+  }
+  if (rangeEnd.getTime() - rangeStart.getTime() > MAX_SEARCH_RANGE_DAYS * DAY_MS) {
+    res.status(400).json({ error: `The search range cannot exceed ${MAX_SEARCH_RANGE_DAYS} days` });
+    return;
+  }
+
+  try {
+    const visible = await visibleEventsFilter(req.userId!, parseIdList(calendar));
+    const include = {
+      attendees: { orderBy: { createdAt: 'asc' } },
+      user: { select: { email: true, name: true } },
+    } satisfies Prisma.EventInclude;
+
+    // 2. Rows that match, plus the rest of every series involved: a matching master needs its
+    // exceptions (an occurrence may be cancelled or renamed) and a matching exception its master.
+    const matched = await prisma.event.findMany({
+      where: { AND: [windowFilter(rangeStart, rangeEnd), visible, searchFilter(terms)] },
+      include,
     });
+    const seriesIds = [...new Set(matched.flatMap(e => e.rrule ? [e.id] : e.recurrenceId ? [e.recurrenceId] : []))];
+    const related = seriesIds.length > 0
+      ? await prisma.event.findMany({
+          where: {
+            AND: [windowFilter(rangeStart, rangeEnd), visible, { OR: [{ id: { in: seriesIds } }, { recurrenceId: { in: seriesIds } }] }],
+          },
+          include,
+        })
+      : [];
+    const rows = new Map([...matched, ...related].map(e => [e.id, e]));
 
-    // Add all non-recurring, non-exception events to the final list
-    finalEvents.push(...singleEvents);
-
-    // 2. Process recurring events and their exceptions
-    for (const master of masterEvents) {
-      // Use rrulestr to parse the rule. The master event's startTime is the DTSTART.
-      const rule = rrulestr(master.rrule!, { dtstart: master.startTime });
-      const occurrences = rule.between(windowStart, windowEnd);
-      const duration = master.endTime.getTime() - master.startTime.getTime();
-
-      for (const occurrenceDate of occurrences) {
-        const key = `${master.id}-${occurrenceDate.toISOString()}`;
-
-        // If there is an exception for this occurrence, handle it
-        if (exceptions.has(key)) {
-          const exceptionEvent = exceptions.get(key);
-          // If the exception is a modified event (not just a cancellation), add it.
-          if (!exceptionEvent.isCancelled) {
-            finalEvents.push(exceptionEvent);
-          }
-          // If it is a cancellation, we do nothing, effectively deleting it from the series.
-        } else {
-          // No exception, so add the generated occurrence as a "virtual" event
-          finalEvents.push({
-            ...master,
-            // Override key properties for this specific instance
-            id: `${master.id}_${occurrenceDate.getTime()}`, // Create a unique virtual ID for React keys
-            startTime: occurrenceDate,
-            endTime: new Date(occurrenceDate.getTime() + duration),
-            // Add flags for the frontend to identify this as a recurring instance
-            isRecurringInstance: true,
-            masterId: master.id,
-          });
-        }
-      }
-    }
+    // 3. Expand, then keep the occurrences that still match.
+    const results = expandEvents([...rows.values()], rangeStart, rangeEnd)
+      .filter(occurrence => matchesSearch(occurrence, terms))
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+      .slice(0, SEARCH_RESULT_LIMIT);
 
-    res.json(finalEvents);
+    res.json(results);
   } catch (error) {
-    console.error("Error fetching events:", error);
-    res.status(500).json({ error: 'Failed to fetch events' });
+    console.error("Error searching events:", error);
+    res.status(500).json({ error: 'Failed to search events' });
   }
 };
 
 // POST /events
 export const createEvent = async (req: Request, res: Response): Promise<void> => {
-  const { title, startTime, endTime, rrule, recurrenceId, originalStartTime, isCancelled } = req.body;
+  const { title, startTime, endTime, rrule, recurrenceId, originalStartTime, isCancelled, calendarId, timeZone, allDay } = req.body;
   
   // Convert strings to Date objects
   const newStart = new Date(startTime);
@@ -115,60 +243,254 @@ export const createEvent = async (req: Request, res: Response): Promise<void> =>
     res.status(400).json({ error: 'End time must be after start time' });
     return;
   }
+  if (!isValidTimeZoneInput(timeZone)) {
+    res.status(400).json({ error: TIME_ZONE_ERROR });
+    return;
+  }
+  if (allDay !== undefined && typeof allDay !== 'boolean') {
+    res.status(400).json({ error: 'allDay must be true or false' });
+    return;
+  }
+  const detailsError = invalidDetails(req.body);
+  if (detailsError) {
+    res.status(400).json({ error: detailsError });
+    return;
+  }
+  const ruleError = invalidRule(rrule);
+  if (ruleError) {
+    res.status(400).json({ error: ruleError });
+    return;
+  }
 
   try {
+    // Exceptions always live in their master's calendar and start out with its attendees.
+    const master = recurrenceId
+      ? await prisma.event.findFirst({ where: { id: recurrenceId, userId: req.userId, deletedAt: null }, include: { attendees: true } })
+      : null;
+    if (recurrenceId && !master) {
+      res.status(404).json({ error: 'Recurring event not found' });
+      return;
+    }
+    const targetCalendarId = master ? master.calendarId : await resolveCalendarId(req.userId!, calendarId);
+    if (!targetCalendarId) {
+      res.status(400).json({ error: 'Calendar not found' });
+      return;
+    }
+    // An occurrence keeps the zone and all-day flag of its series. Plain dates have no zone.
+    const targetAllDay = master ? master.allDay : allDay === true;
+    const targetTimeZone = master ? master.timeZone : targetAllDay ? null : timeZone ?? null;
+    if (targetAllDay && !isCancelled && !(isPlainDate(newStart) && isPlainDate(newEnd))) {
+      res.status(400).json({ error: ALL_DAY_ERROR });
+      return;
+    }
+
     // 2. Conflict Detection
-    // Note: This simple conflict detection doesn't account for recurring event series.
-    // A production system would need to check for conflicts against generated occurrences.
-    // For this assignment, we'll keep it simple.
-    const conflictingEvent = await prisma.event.findFirst({
-      where: {
-        startTime: { lt: newEnd },
-        endTime: { gt: newStart },
-        // We should also exclude the master event if we are creating an exception for it
-        id: recurrenceId ? { not: recurrenceId } : undefined,
-      },
-    });
+    // Cancellation markers free up time, so they never conflict. Everything else is checked
+    // against expanded occurrences; an exception may overlap the occurrence it replaces.
+    if (!isCancelled) {
+      const conflicts = await findConflicts(
+        req.userId!,
+        { startTime: newStart, endTime: newEnd, rrule, timeZone: targetTimeZone, allDay: targetAllDay },
+        recurrenceId && originalStartTime
+          ? { occurrence: { masterId: recurrenceId, originalStartTime: new Date(originalStartTime) } }
+          : {},
+      );
 
-    if (conflictingEvent) {
-       res.status(409).json({
-        error: 'This time slot overlaps with an existing event.',
-        conflict: conflictingEvent 
-      });
-      return;
+      if (conflicts.length > 0) {
+        sendConflict(res, 'This time slot overlaps with an existing event.', conflicts);
+        return;
+      }
     }
 
     // 3. Save if clear
     const event = await prisma.event.create({
       data: {
+        userId: req.userId,
+        calendarId: targetCalendarId,
         // Ensure title is at least an empty string if it's a cancellation and title is missing
         title: title || '',
         startTime: newStart,
         endTime: newEnd,
+        timeZone: targetTimeZone,
+        allDay: targetAllDay,
         rrule,
+        seriesEnd: seriesEndOf({ rrule, startTime: newStart, endTime: newEnd, timeZone: targetTimeZone }),
         recurrenceId,
         originalStartTime: originalStartTime ? new Date(originalStartTime) : undefined,
         isCancelled: isCancelled || false,
+        // An exception shows its series' details unless it was given its own.
+        ...(master ? readExceptionDetails(req.body, master) : readDetails(req.body)),
+        ...(master && !isCancelled && { attendees: copyAttendees(master.attendees) }),
       },
     });
 
-    res.status(201).json(event);
+    const revision = await recordRevision(req.userId!, event.id, null, await snapshotEvent(event.id));
+    const shown = master ? inheritDetails(event, master) : event;
+    emitWebhook(req.userId!, event.isCancelled ? 'occurrence.cancelled' : 'event.created', { event: shown });
+    broadcastChange(req.userId!, event.isCancelled ? 'occurrence.cancelled' : 'event.created', shown, req.get(SYNC_CLIENT_HEADER));
+    res.set(REVISIONS_HEADER, revisionsHeader([revision]));
+    res.set('ETag', eventEtag(event));
+    res.status(201).json(shown);
   } catch (error) {
     console.error(error);
     res.status(500).json({ error: 'Failed to create event' });
   }
 };
 
+/**
+ * Saves changes to an event. A full update (PUT) takes every field; a partial one (PATCH) only the
+ * ones it is given, so e.g. dragging an event sends just its times and cannot undo a concurrent
+ * change to its title. Either way, omitted details and rule are left as they are.
+ */
+const saveEvent = async (req: Request, res: Response, partial: boolean): Promise<void> => {
+  const { id } = req.params;
+  const { title, startTime, endTime, rrule, calendarId, timeZone, allDay } = req.body;
+
+  // 1. Basic Validation
+  if ((!partial || title !== undefined) && (!title || typeof title !== 'string' || title.trim() === '')) {
+    res.status(400).json({ error: 'Title is required and cannot be empty' });
+    return;
+  }
+  if (!isValidTimeZoneInput(timeZone)) {
+    res.status(400).json({ error: TIME_ZONE_ERROR });
+    return;
+  }
+  if (allDay !== undefined && typeof allDay !== 'boolean') {
+    res.status(400).json({ error: 'allDay must be true or false' });
+    return;
+  }
+  const detailsError = invalidDetails(req.body);
+  if (detailsError) {
+    res.status(400).json({ error: detailsError });
+    return;
+  }
+  const ruleError = invalidRule(rrule);
+  if (ruleError) {
+    res.status(400).json({ error: ruleError });
+    return;
+  }
+
+  try {
+    const existing = await prisma.event.findFirst({ where: { id, userId: req.userId, deletedAt: null } });
+    if (!existing) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+    if (!(await checkVersion(req, res, existing))) return;
+
+    // Convert strings to Date objects; a partial update keeps the times it is not given.
+    const newStart = partial && startTime === undefined ? existing.startTime : new Date(startTime);
+    const newEnd = partial && endTime === undefined ? existing.endTime : new Date(endTime);
+    if (newStart >= newEnd) {
+      res.status(400).json({ error: 'End time must be after start time' });
+      return;
+    }
+
+    // Moving an exception to another calendar would separate it from its series.
+    if (calendarId !== undefined && existing.recurrenceId && calendarId !== existing.calendarId) {
+      res.status(400).json({ error: 'An occurrence cannot be moved to another calendar on its own' });
+      return;
+    }
+    const targetCalendarId = calendarId !== undefined ? await resolveCalendarId(req.userId!, calendarId) : existing.calendarId;
+    if (!targetCalendarId) {
+      res.status(400).json({ error: 'Calendar not found' });
+      return;
+    }
+
+    // Exceptions keep their series' zone and all-day flag, and store only the details they change.
+    const master = existing.recurrenceId ? await prisma.event.findUnique({ where: { id: existing.recurrenceId } }) : null;
+    const targetAllDay = allDay !== undefined && !existing.recurrenceId ? allDay : existing.allDay;
+    const targetTimeZone = targetAllDay
+      ? null
+      : timeZone !== undefined && !existing.recurrenceId ? timeZone : existing.timeZone;
+    if (targetAllDay && !(isPlainDate(newStart) && isPlainDate(newEnd))) {
+      res.status(400).json({ error: ALL_DAY_ERROR });
+      return;
+    }
+
+    // 2. Conflict Detection (excluding the current event, or the whole series for a master)
+    // An omitted rrule leaves the stored one in place, so the check uses the effective rule.
+    const effectiveRule = rrule !== undefined ? rrule : existing.rrule;
+    const conflicts = await findConflicts(
+      req.userId!,
+      { startTime: newStart, endTime: newEnd, rrule: effectiveRule, timeZone: targetTimeZone, allDay: targetAllDay },
+      { eventId: id },
+    );
+
+    if (conflicts.length > 0) {
+      sendConflict(res, 'This time slot overlaps with another event.', conflicts);
+      return;
+    }
+
+    // 3. Update the event. Moving a master moves every occurrence, so its exceptions follow along.
+    const before = await snapshotEvent(id);
+    const shift = wallClockDifference(existing.startTime, newStart, targetTimeZone);
+    const exceptions = existing.rrule && shift !== 0
+      ? await prisma.event.findMany({ where: { recurrenceId: id, originalStartTime: { not: null } } })
+      : [];
+
+    // Only written if the event is still the version read above, which everything here is based on.
+    const updatedEvent = await prisma.$transaction(async tx => {
+      const { count } = await tx.event.updateMany({
+        where: { id, version: existing.version, deletedAt: null },
+        data: {
+          title, startTime: newStart, endTime: newEnd, timeZone: targetTimeZone, allDay: targetAllDay, rrule, calendarId: targetCalendarId,
+          seriesEnd: seriesEndOf({ rrule: effectiveRule, startTime: newStart, endTime: newEnd, timeZone: targetTimeZone }),
+          ...(master ? readExceptionDetails(req.body, master) : readDetails(req.body)),
+          version: { increment: 1 },
+        },
+      });
+      if (count === 0) throw new StaleEventError();
+      await Promise.all(shiftExceptions(tx, exceptions, shift, targetTimeZone));
+      if (existing.rrule && title !== undefined) await followTitle(tx, existing, title);
+      // Exceptions follow their master into another calendar.
+      await tx.event.updateMany({ where: { recurrenceId: id }, data: { calendarId: targetCalendarId } });
+      const saved = await tx.event.findUniqueOrThrow({ where: { id } });
+      return master ? inheritDetails(saved, master) : saved;
+    });
+
+    const revision = await recordRevision(req.userId!, id, before, await snapshotEvent(id));
+    emitWebhook(req.userId!, 'event.updated', { event: updatedEvent });
+    broadcastChange(req.userId!, 'event.updated', updatedEvent, req.get(SYNC_CLIENT_HEADER));
+    res.set(REVISIONS_HEADER, revisionsHeader([revision]));
+    res.set('ETag', eventEtag(updatedEvent));
+    res.json(updatedEvent);
+  } catch (error) {
+    if (error instanceof StaleEventError) {
+      await sendStale(res, id);
+      return;
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+    res.status(500).json({ error: 'Failed to update event' });
+  }
+};
+
 // PUT /events/:id
-export const updateEvent = async (req: Request, res: Response): Promise<void> => {
+export const updateEvent = (req: Request, res: Response): Promise<void> => saveEvent(req, res, false);
+
+// PATCH /events/:id
+export const patchEvent = (req: Request, res: Response): Promise<void> => saveEvent(req, res, true);
+
+// POST /events/:id/split
+// "This and following occurrences": ends the series before `occurrenceStart` and starts a new
+// master there with the edited fields. Later exceptions move over to the new master.
+export const splitSeries = async (req: Request, res: Response): Promise<void> => {
   const { id } = req.params;
-  const { title, startTime, endTime, rrule } = req.body;
+  const { occurrenceStart, title, startTime, endTime, rrule, calendarId, timeZone, allDay } = req.body;
 
   // Convert strings to Date objects
+  const splitPoint = new Date(occurrenceStart);
   const newStart = new Date(startTime);
   const newEnd = new Date(endTime);
 
   // 1. Basic Validation
+  if (isNaN(splitPoint.getTime())) {
+    res.status(400).json({ error: 'occurrenceStart is required' });
+    return;
+  }
   if (!title || typeof title !== 'string' || title.trim() === '') {
     res.status(400).json({ error: 'Title is required and cannot be empty' });
     return;
@@ -177,62 +499,179 @@ export const updateEvent = async (req: Request, res: Response): Promise<void> =>
     res.status(400).json({ error: 'End time must be after start time' });
     return;
   }
+  if (!isValidTimeZoneInput(timeZone)) {
+    res.status(400).json({ error: TIME_ZONE_ERROR });
+    return;
+  }
+  if (allDay !== undefined && typeof allDay !== 'boolean') {
+    res.status(400).json({ error: 'allDay must be true or false' });
+    return;
+  }
+  const detailsError = invalidDetails(req.body);
+  if (detailsError) {
+    res.status(400).json({ error: detailsError });
+    return;
+  }
+  const ruleError = invalidRule(rrule);
+  if (ruleError) {
+    res.status(400).json({ error: ruleError });
+    return;
+  }
 
   try {
-    // 2. Conflict Detection (excluding the current event)
-    const conflictingEvent = await prisma.event.findFirst({
-      where: {
-        id: { not: id }, // Exclude the event being updated
-        startTime: { lt: newEnd },
-        endTime: { gt: newStart },
-      },
-    });
+    const master = await prisma.event.findFirst({ where: { id, userId: req.userId, deletedAt: null }, include: { attendees: true, reminders: true } });
+    if (!master) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+    if (!master.rrule) {
+      res.status(400).json({ error: 'Only recurring events can be split' });
+      return;
+    }
+    if (!(await checkVersion(req, res, master))) return;
 
-    if (conflictingEvent) {
-      res.status(409).json({
-        error: 'This time slot overlaps with another event.',
-        conflict: conflictingEvent,
-      });
+    // The split point has to be a real occurrence of the series.
+    const rule = parseRule(master);
+    if (rule.after(splitPoint, true)?.getTime() !== splitPoint.getTime()) {
+      res.status(400).json({ error: 'occurrenceStart is not an occurrence of this series' });
+      return;
+    }
+    const newRule = rrule || continueRule(master, splitPoint, newStart);
+    const newAllDay = allDay !== undefined ? allDay : master.allDay;
+    const newTimeZone = newAllDay ? null : timeZone !== undefined ? timeZone : master.timeZone;
+    if (newAllDay && !(isPlainDate(newStart) && isPlainDate(newEnd))) {
+      res.status(400).json({ error: ALL_DAY_ERROR });
+      return;
+    }
+    const targetCalendarId = calendarId !== undefined ? await resolveCalendarId(req.userId!, calendarId) : master.calendarId;
+    if (!targetCalendarId) {
+      res.status(400).json({ error: 'Calendar not found' });
+      return;
+    }
+
+    // 2. Conflict Detection for the new series (the series being split does not count)
+    const conflicts = await findConflicts(
+      req.userId!,
+      { startTime: newStart, endTime: newEnd, rrule: newRule, timeZone: newTimeZone, allDay: newAllDay },
+      { eventId: id },
+    );
+    if (conflicts.length > 0) {
+      sendConflict(res, 'This time slot overlaps with another event.', conflicts);
       return;
     }
 
-    // 3. Update the event
-    const updatedEvent = await prisma.event.update({
-      where: { id },
-      data: { title, startTime: newStart, endTime: newEnd, rrule },
+    // 3. Split. The new master's id is generated up front so its exceptions can point at it.
+    const newMasterId = randomUUID();
+    const shift = wallClockDifference(splitPoint, newStart, master.timeZone);
+    const laterExceptions = await prisma.event.findMany({
+      where: { recurrenceId: id, originalStartTime: { gte: splitPoint } },
     });
+    // An exception for the split occurrence itself is superseded by the edit.
+    const replaced = laterExceptions.filter(ex => ex.originalStartTime!.getTime() === splitPoint.getTime());
+    const moved = laterExceptions.filter(ex => ex.originalStartTime!.getTime() !== splitPoint.getTime());
+    // If nothing is left before the split point the original master would be empty, so it goes to the trash.
+    const keepsOccurrences = rule.before(splitPoint) !== null;
+    const truncatedRule = truncateRule(master.rrule, splitPoint);
+    const before = await snapshotEvent(id);
+    // What the split removes goes into the trash with one timestamp, so an emptied master comes back
+    // from there together with its exceptions.
+    const deletedAt = new Date();
 
-    res.json(updatedEvent);
+    // Only split if the series is still the version read above, which the new rules are based on.
+    const newMaster = await prisma.$transaction(async tx => {
+      const { count } = await tx.event.updateMany({
+        where: { id, version: master.version, deletedAt: null },
+        data: keepsOccurrences
+          ? { rrule: truncatedRule, seriesEnd: seriesEndOf({ ...master, rrule: truncatedRule }), version: { increment: 1 } }
+          : { deletedAt },
+      });
+      if (count === 0) throw new StaleEventError();
+      const created = await tx.event.create({
+        data: {
+          id: newMasterId, userId: req.userId, calendarId: targetCalendarId, title, startTime: newStart, endTime: newEnd,
+          timeZone: newTimeZone, allDay: newAllDay, rrule: newRule,
+          seriesEnd: seriesEndOf({ rrule: newRule, startTime: newStart, endTime: newEnd, timeZone: newTimeZone }),
+          ...detailsOf(master), ...readDetails(req.body),
+          attendees: copyAttendees(master.attendees),
+          reminders: copyReminders(master.reminders),
+        },
+      });
+      await Promise.all(shiftExceptions(tx, moved, shift, master.timeZone, newMasterId));
+      await tx.event.updateMany({ where: { id: { in: moved.map(ex => ex.id) } }, data: { calendarId: targetCalendarId } });
+      await tx.event.updateMany({ where: { id: { in: replaced.map(ex => ex.id) }, deletedAt: null }, data: { deletedAt } });
+      // An emptied master's remaining exceptions go into the trash with it.
+      if (!keepsOccurrences) {
+        await tx.event.updateMany({ where: { recurrenceId: id, deletedAt: null }, data: { deletedAt } });
+      }
+      return created;
+    });
+
+    // The old series either ended early or went away entirely. Its revision comes first, so undoing
+    // both in reverse order removes the new series before the old one takes its dates back.
+    const oldMaster = keepsOccurrences ? await snapshotEvent(id) : null;
+    const revisions = [
+      await recordRevision(req.userId!, id, before, oldMaster),
+      await recordRevision(req.userId!, newMasterId, null, await snapshotEvent(newMasterId)),
+    ];
+    const origin = req.get(SYNC_CLIENT_HEADER);
+    emitWebhook(req.userId!, 'event.created', { event: newMaster });
+    broadcastChange(req.userId!, 'event.created', newMaster, origin);
+    if (oldMaster) {
+      emitWebhook(req.userId!, 'event.updated', { event: eventOf(oldMaster) });
+      broadcastChange(req.userId!, 'event.updated', eventOf(oldMaster), origin);
+    } else {
+      const { attendees, reminders, ...event } = master;
+      emitWebhook(req.userId!, 'event.deleted', { event });
+      broadcastChange(req.userId!, 'event.deleted', event, origin);
+    }
+    res.set(REVISIONS_HEADER, revisionsHeader(revisions));
+    res.status(201).json(newMaster);
   } catch (error) {
-    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
-      res.status(404).json({ error: 'Event not found' });
+    if (error instanceof StaleEventError) {
+      await sendStale(res, id);
       return;
     }
-    res.status(500).json({ error: 'Failed to update event' });
+    console.error(error);
+    res.status(500).json({ error: 'Failed to split event series' });
   }
 };
 
 // DELETE /events/:id
+// Moves the event to the trash, from where it can be restored until it is purged.
 export const deleteEvent = async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
     try {
         // Check if this is a master recurring event
-        const event = await prisma.event.findUnique({ where: { id } });
-
-        if (event && event.rrule) {
-            // It's a master event, delete it and all its exceptions in a transaction
-            await prisma.$transaction([
-                // 1. Delete all exception events linked to this master event
-                prisma.event.deleteMany({ where: { recurrenceId: id } }),
-                // 2. Delete the master event itself
-                prisma.event.delete({ where: { id } })
-            ]);
-        } else {
-            // It's a single event or an exception, just delete it
-            await prisma.event.delete({ where: { id } });
+        const event = await prisma.event.findFirst({ where: { id, userId: req.userId, deletedAt: null } });
+
+        if (!event) {
+            res.status(404).json({ error: 'Event not found' });
+            return;
         }
+        if (!(await checkVersion(req, res, event))) return;
+        const before = await snapshotEvent(id);
+        const deletedAt = new Date();
+
+        await prisma.$transaction(async tx => {
+            // Only trashed if nobody changed it since it was read.
+            const { count } = await tx.event.updateMany({ where: { id, version: event.version, deletedAt: null }, data: { deletedAt } });
+            if (count === 0) throw new StaleEventError();
+            if (event.rrule) {
+                // It's a master event. Its exceptions go into the trash with it, with the same timestamp,
+                // so restoring the series brings them back too.
+                await tx.event.updateMany({ where: { recurrenceId: id, deletedAt: null }, data: { deletedAt } });
+            }
+        });
+        const revision = await recordRevision(req.userId!, id, before, null);
+        emitWebhook(req.userId!, 'event.deleted', { event });
+        broadcastChange(req.userId!, 'event.deleted', event, req.get(SYNC_CLIENT_HEADER));
+        res.set(REVISIONS_HEADER, revisionsHeader([revision]));
         res.status(204).send();
     } catch (error) {
+        if (error instanceof StaleEventError) {
+            await sendStale(res, id);
+            return;
+        }
         if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
             // This can happen if the event was already deleted
             res.status(404).json({ error: 'Event not found' });
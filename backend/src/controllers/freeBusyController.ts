@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+import { isValidTimeZone } from '../lib/timeZone';
+import { FreeBusyInputError, findFreeSlots, getBusyIntervals, resolveBusySources } from '../services/freeBusyService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Keeps a single request from expanding and scanning an unbounded range.
+const MAX_WINDOW_DAYS = 62;
+const DEFAULT_WORKING_HOURS = { start: '09:00', end: '17:00', days: [1, 2, 3, 4, 5], timeZone: 'UTC' };
+const DEFAULT_GRANULARITY_MINUTES = 30;
+const DEFAULT_SLOT_LIMIT = 10;
+const MAX_SLOT_LIMIT = 100;
+
+// "09:30" -> 570. Returns null for anything that is not HH:MM within a day ("24:00" is allowed as an end).
+const parseTimeOfDay = (value: unknown): number | null => {
+  const match = typeof value === 'string' ? /^(\d{2}):(\d{2})$/.exec(value) : null;
+  if (!match) return null;
+  const minutes = +match[1] * 60 + +match[2];
+  return +match[2] < 60 && minutes <= 24 * 60 ? minutes : null;
+};
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+// Validates the shared { start, end, users?, calendarIds? } part of both requests.
+const parseWindow = (body: Request['body']): { windowStart: Date; windowEnd: Date } | string => {
+  const windowStart = new Date(body.start);
+  const windowEnd = new Date(body.end);
+  if (isNaN(windowStart.getTime()) || isNaN(windowEnd.getTime())) {
+    return 'start and end must be valid dates';
+  }
+  if (windowStart >= windowEnd) {
+    return 'End must be after start';
+  }
+  if (windowEnd.getTime() - windowStart.getTime() > MAX_WINDOW_DAYS * DAY_MS) {
+    return `The window cannot be longer than ${MAX_WINDOW_DAYS} days`;
+  }
+  if ((body.users !== undefined && !isStringList(body.users)) || (body.calendarIds !== undefined && !isStringList(body.calendarIds))) {
+    return 'users and calendarIds must be lists of strings';
+  }
+  return { windowStart, windowEnd };
+};
+
+// POST /freebusy
+// Body: { start, end, users?: (id | email)[], calendarIds?: string[] }
+export const getFreeBusy = async (req: Request, res: Response): Promise<void> => {
+  // 1. Basic Validation
+  const window = parseWindow(req.body);
+  if (typeof window === 'string') {
+    res.status(400).json({ error: window });
+    return;
+  }
+
+  try {
+    const sources = await resolveBusySources(req.userId!, req.body.users, req.body.calendarIds);
+    const busy = await getBusyIntervals(sources, window.windowStart, window.windowEnd);
+    res.json({ start: window.windowStart, end: window.windowEnd, busy });
+  } catch (error) {
+    if (error instanceof FreeBusyInputError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error("Error fetching free/busy:", error);
+    res.status(500).json({ error: 'Failed to fetch free/busy information' });
+  }
+};
+
+// POST /events/suggest-slots
+// Body: { start, end, duration (minutes), users?, calendarIds?, granularity? (minutes), limit?,
+//         workingHours?: { start: "09:00", end: "17:00", days: [1..5], timeZone: "UTC" } }
+// The requester's own time is always taken into account.
+export const suggestSlots = async (req: Request, res: Response): Promise<void> => {
+  const { duration, granularity = DEFAULT_GRANULARITY_MINUTES, limit = DEFAULT_SLOT_LIMIT } = req.body;
+  const workingHours = { ...DEFAULT_WORKING_HOURS, ...req.body.workingHours };
+
+  // 1. Basic Validation
+  const window = parseWindow(req.body);
+  if (typeof window === 'string') {
+    res.status(400).json({ error: window });
+    return;
+  }
+  if (!Number.isInteger(duration) || duration <= 0 || duration > 24 * 60) {
+    res.status(400).json({ error: 'duration must be a whole number of minutes, up to one day' });
+    return;
+  }
+  if (!Number.isInteger(granularity) || granularity < 5) {
+    res.status(400).json({ error: 'granularity must be a whole number of minutes, at least 5' });
+    return;
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SLOT_LIMIT) {
+    res.status(400).json({ error: `limit must be between 1 and ${MAX_SLOT_LIMIT}` });
+    return;
+  }
+  const startMinute = parseTimeOfDay(workingHours.start);
+  const endMinute = parseTimeOfDay(workingHours.end);
+  if (startMinute === null || endMinute === null || startMinute >= endMinute) {
+    res.status(400).json({ error: 'workingHours start and end must be HH:MM, with start before end' });
+    return;
+  }
+  if (!Array.isArray(workingHours.days) || !workingHours.days.every((d: unknown) => Number.isInteger(d) && (d as number) >= 0 && (d as number) <= 6)) {
+    res.status(400).json({ error: 'workingHours days must be weekday numbers from 0 (Sunday) to 6' });
+    return;
+  }
+  if (typeof workingHours.timeZone !== 'string' || !isValidTimeZone(workingHours.timeZone)) {
+    res.status(400).json({ error: 'workingHours timeZone must be an IANA time zone such as Europe/Berlin' });
+    return;
+  }
+
+  try {
+    const sources = await resolveBusySources(req.userId!, req.body.users, req.body.calendarIds);
+    if (!sources.some(s => s.userId === req.userId)) {
+      sources.push({ userId: req.userId! });
+    }
+    const busy = await getBusyIntervals(sources, window.windowStart, window.windowEnd);
+
+    const slots = findFreeSlots(busy, {
+      ...window,
+      durationMs: duration * 60_000,
+      granularityMs: granularity * 60_000,
+      workingHours: { startMinute, endMinute, days: workingHours.days, timeZone: workingHours.timeZone },
+      limit,
+    });
+    res.json(slots);
+  } catch (error) {
+    if (error instanceof FreeBusyInputError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error("Error suggesting slots:", error);
+    res.status(500).json({ error: 'Failed to suggest meeting times' });
+  }
+};
@@ -0,0 +1,93 @@
+import { Request, Response } from 'express';
+import prisma from '../lib/prisma';
+import { inheritDetails, parseRule, windowFilter } from '../services/recurrenceService';
+import { IcsParseError, serializeCalendar } from '../services/icsService';
+import { ImportReport, importEvents } from '../services/importService';
+import { resolveCalendarId } from '../services/calendarService';
+import { broadcastChange, SYNC_CLIENT_HEADER } from '../services/syncService';
+
+// GET /events.ics?start=ISO_DATE&end=ISO_DATE
+// Without a window (or with ?all=true) the whole calendar is exported, which is what backups want.
+export const exportCalendar = async (req: Request, res: Response): Promise<void> => {
+  const { start, end, all } = req.query;
+  const exportAll = all === 'true' || (!start && !end);
+  const windowStart = new Date(start as string);
+  const windowEnd = new Date(end as string);
+
+  if (!exportAll && (isNaN(windowStart.getTime()) || isNaN(windowEnd.getTime()))) {
+    res.status(400).json({ error: 'Both start and end must be valid dates, or omit both to export everything' });
+    return;
+  }
+
+  try {
+    let events = await prisma.event.findMany({
+      where: exportAll ? { userId: req.userId, deletedAt: null } : { ...windowFilter(windowStart, windowEnd), userId: req.userId },
+      orderBy: { startTime: 'asc' },
+    });
+
+    if (!exportAll) {
+      // Masters are fetched by start only; keep the ones that actually occur in the window
+      // or have an exception there.
+      const withExceptions = new Set(events.filter(e => e.recurrenceId).map(e => e.recurrenceId));
+      events = events.filter(e =>
+        !e.rrule ||
+        withExceptions.has(e.id) ||
+        parseRule(e).between(windowStart, windowEnd, true).length > 0,
+      );
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename="calendar.ics"');
+    res.send(serializeCalendar(events));
+  } catch (error) {
+    console.error("Error exporting events:", error);
+    res.status(500).json({ error: 'Failed to export events' });
+  }
+};
+
+// Pushes what an import wrote to open calendars, like any other change. Exceptions are sent as they
+// are shown, with the details they inherit.
+const broadcastImport = async (req: Request, report: ImportReport): Promise<void> => {
+  const createdIds = new Set(report.created.map(item => item.eventId));
+  const ids = [...report.created, ...report.updated].flatMap(item => (item.eventId ? [item.eventId] : []));
+  if (ids.length === 0) return;
+  const rows = await prisma.event.findMany({ where: { id: { in: ids } } });
+  const masterIds = rows.flatMap(row => (row.recurrenceId ? [row.recurrenceId] : []));
+  const masters = new Map((await prisma.event.findMany({ where: { id: { in: masterIds } } })).map(master => [master.id, master]));
+  for (const row of rows) {
+    const master = row.recurrenceId ? masters.get(row.recurrenceId) : undefined;
+    const type = row.isCancelled ? 'occurrence.cancelled' : createdIds.has(row.id) ? 'event.created' : 'event.updated';
+    broadcastChange(req.userId!, type, master ? inheritDetails(row, master) : row, req.get(SYNC_CLIENT_HEADER));
+  }
+};
+
+// POST /events/import?dryRun=false&calendarId=ID
+// The request body is the raw .ics file. Imports are dry runs unless dryRun=false is passed,
+// so clients can show the report before anything is written.
+export const importCalendar = async (req: Request, res: Response): Promise<void> => {
+  const text = typeof req.body === 'string' ? req.body : '';
+  const dryRun = req.query.dryRun !== 'false';
+
+  if (text.trim() === '') {
+    res.status(400).json({ error: 'Upload an .ics file as the request body' });
+    return;
+  }
+
+  try {
+    const calendarId = await resolveCalendarId(req.userId!, req.query.calendarId);
+    if (!calendarId) {
+      res.status(400).json({ error: 'Calendar not found' });
+      return;
+    }
+    const report = await importEvents(req.userId!, text, dryRun, calendarId);
+    await broadcastImport(req, report);
+    res.json(report);
+  } catch (error) {
+    if (error instanceof IcsParseError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error("Error importing events:", error);
+    res.status(500).json({ error: 'Failed to import events' });
+  }
+};
@@ -0,0 +1,53 @@
+import { Request, Response } from 'express';
+import prisma from '../lib/prisma';
+
+// How many of the latest notifications the feed returns.
+const FEED_LENGTH = 50;
+
+// GET /notifications
+// Returns { notifications, unreadCount }, newest first.
+export const getNotifications = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const [notifications, unreadCount] = await prisma.$transaction([
+      prisma.notification.findMany({
+        where: { userId: req.userId },
+        orderBy: { createdAt: 'desc' },
+        take: FEED_LENGTH,
+      }),
+      prisma.notification.count({ where: { userId: req.userId, readAt: null } }),
+    ]);
+    res.json({ notifications, unreadCount });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to fetch notifications' });
+  }
+};
+
+// POST /notifications/:id/read
+export const markNotificationRead = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const notification = await prisma.notification.findFirst({ where: { id: req.params.id, userId: req.userId } });
+    if (!notification) {
+      res.status(404).json({ error: 'Notification not found' });
+      return;
+    }
+    if (!notification.readAt) {
+      await prisma.notification.update({ where: { id: notification.id }, data: { readAt: new Date() } });
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to update notification' });
+  }
+};
+
+// POST /notifications/read-all
+export const markAllNotificationsRead = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await prisma.notification.updateMany({ where: { userId: req.userId, readAt: null }, data: { readAt: new Date() } });
+    res.status(204).send();
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to update notifications' });
+  }
+};
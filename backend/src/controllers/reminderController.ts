@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import prisma from '../lib/prisma';
+import { isReminderChannel, MAX_MINUTES_BEFORE, REMINDER_CHANNELS } from '../services/reminderService';
+
+// Reminders are set on single events and on masters (for the whole series), by the event's owner.
+const findReminderTarget = async (req: Request, res: Response) => {
+  const event = await prisma.event.findFirst({ where: { id: req.params.id, userId: req.userId, deletedAt: null } });
+  if (!event) {
+    res.status(404).json({ error: 'Event not found' });
+    return null;
+  }
+  if (event.recurrenceId) {
+    res.status(400).json({ error: 'Reminders are set on the whole series, not on one occurrence' });
+    return null;
+  }
+  return event;
+};
+
+// GET /events/:id/reminders
+export const getReminders = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const event = await findReminderTarget(req, res);
+    if (!event) return;
+    res.json(await prisma.reminder.findMany({ where: { eventId: event.id }, orderBy: { minutesBefore: 'asc' } }));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to fetch reminders' });
+  }
+};
+
+// POST /events/:id/reminders
+// Body: { minutesBefore, channel? }
+export const addReminder = async (req: Request, res: Response): Promise<void> => {
+  const { minutesBefore, channel = 'in-app' } = req.body;
+
+  // 1. Basic Validation
+  if (!Number.isInteger(minutesBefore) || minutesBefore < 0 || minutesBefore > MAX_MINUTES_BEFORE) {
+    res.status(400).json({ error: `minutesBefore must be a whole number from 0 to ${MAX_MINUTES_BEFORE}` });
+    return;
+  }
+  if (!isReminderChannel(channel)) {
+    res.status(400).json({ error: `Channel must be one of ${REMINDER_CHANNELS.join(', ')}` });
+    return;
+  }
+
+  try {
+    const event = await findReminderTarget(req, res);
+    if (!event) return;
+    const reminder = await prisma.reminder.create({ data: { eventId: event.id, minutesBefore, channel } });
+    res.status(201).json(reminder);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to add reminder' });
+  }
+};
+
+// DELETE /events/:id/reminders/:reminderId
+export const deleteReminder = async (req: Request, res: Response): Promise<void> => {
+  const { id, reminderId } = req.params;
+  try {
+    const { count } = await prisma.reminder.deleteMany({
+      where: { id: reminderId, eventId: id, event: { userId: req.userId, deletedAt: null } },
+    });
+    if (count === 0) {
+      res.status(404).json({ error: 'Reminder not found' });
+      return;
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to delete reminder' });
+  }
+};
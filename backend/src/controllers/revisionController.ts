@@ -0,0 +1,126 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { findConflicts } from '../services/conflictService';
+import { emitWebhook } from '../services/webhookService';
+import { broadcastChange, SYNC_CLIENT_HEADER } from '../services/syncService';
+import {
+  eventOf, HISTORY_LENGTH, isRevertTarget, parseSnapshot, recordRevision, restoreOperations, REVERT_TARGETS,
+  REVISIONS_HEADER, revisionsHeader, snapshotEvent,
+} from '../services/revisionService';
+
+// GET /events/:id/history
+// The event's revisions, newest first, each with who made it and the event before and after.
+// Available after the event is deleted, so the deletion can be reverted.
+export const getEventHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const revisions = await prisma.eventRevision.findMany({
+      where: { eventId: req.params.id, userId: req.userId },
+      include: { user: { select: { id: true, email: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: HISTORY_LENGTH,
+    });
+    if (revisions.length === 0) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+    res.json(revisions);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to fetch event history' });
+  }
+};
+
+// POST /events/:id/revert
+// Body: { revisionId, to? }. Puts the event back the way it was before the revision (`to: "before"`,
+// the default) or after it (`"after"`), recreating or deleting it as needed. The revert is itself
+// recorded as a revision.
+export const revertEvent = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { revisionId, to = 'before' } = req.body;
+
+  // 1. Basic Validation
+  if (typeof revisionId !== 'string' || revisionId === '') {
+    res.status(400).json({ error: 'revisionId is required' });
+    return;
+  }
+  if (!isRevertTarget(to)) {
+    res.status(400).json({ error: `to must be one of: ${REVERT_TARGETS.join(', ')}` });
+    return;
+  }
+
+  try {
+    const revision = await prisma.eventRevision.findFirst({ where: { id: revisionId, eventId: id, userId: req.userId } });
+    if (!revision) {
+      res.status(404).json({ error: 'Revision not found' });
+      return;
+    }
+    const target = parseSnapshot(revision[to]);
+    // The row may still be there in the trash, in which case it is taken back out.
+    const row = await prisma.event.findUnique({ where: { id }, select: { userId: true } });
+    if (row && row.userId !== req.userId) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+    const current = await snapshotEvent(id);
+    // Already gone, and staying gone.
+    if (!current && !target) {
+      res.status(204).send();
+      return;
+    }
+
+    if (target) {
+      // 2. The event's calendar and series have to still be there.
+      if (!(await prisma.calendar.findFirst({ where: { id: target.calendarId, userId: req.userId } }))) {
+        res.status(409).json({ error: 'The calendar this event was in no longer exists' });
+        return;
+      }
+      if (target.recurrenceId && !(await prisma.event.findFirst({ where: { id: target.recurrenceId, userId: req.userId, deletedAt: null } }))) {
+        res.status(409).json({ error: 'The recurring series this occurrence belongs to no longer exists' });
+        return;
+      }
+
+      // 3. Conflict Detection, as for any other write of these times
+      if (!target.isCancelled) {
+        const conflicts = await findConflicts(
+          req.userId!,
+          target,
+          target.recurrenceId && !current
+            ? { occurrence: { masterId: target.recurrenceId, originalStartTime: target.originalStartTime! } }
+            : { eventId: id },
+        );
+        if (conflicts.length > 0) {
+          res.status(409).json({ error: 'The event cannot go back there: the time overlaps with another event.', conflict: conflicts[0], conflicts });
+          return;
+        }
+      }
+    }
+
+    // 4. Restore
+    await prisma.$transaction(restoreOperations(id, !!row, target));
+    const after = await snapshotEvent(id);
+    const written = await recordRevision(req.userId!, id, current, after, revision.id);
+
+    if (after) {
+      const type = current ? 'event.updated' : after.isCancelled ? 'occurrence.cancelled' : 'event.created';
+      emitWebhook(req.userId!, type, { event: eventOf(after) });
+      broadcastChange(req.userId!, type, eventOf(after), req.get(SYNC_CLIENT_HEADER));
+    } else {
+      emitWebhook(req.userId!, 'event.deleted', { event: eventOf(current!) });
+      broadcastChange(req.userId!, 'event.deleted', eventOf(current!), req.get(SYNC_CLIENT_HEADER));
+    }
+    res.set(REVISIONS_HEADER, revisionsHeader([written]));
+    if (after) {
+      res.json(eventOf(after));
+    } else {
+      res.status(204).send();
+    }
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({ error: 'Another event has since been imported with the same iCalendar UID' });
+      return;
+    }
+    console.error(error);
+    res.status(500).json({ error: 'Failed to revert event' });
+  }
+};
@@ -0,0 +1,59 @@
+import { Request, Response } from 'express';
+import { changesSince, currentPosition, sequenceOf, subscribeToChanges, SyncChange } from '../services/syncService';
+
+// Comments sent on an idle stream, so proxies and load balancers do not close it.
+const HEARTBEAT_MS = 25_000;
+// How long browsers wait before reconnecting after the stream drops.
+const RETRY_MS = 3_000;
+
+const writeChange = (res: Response, change: SyncChange) => {
+  res.write(`event: change\nid: ${change.id}\ndata: ${JSON.stringify(change)}\n\n`);
+};
+
+// GET /sync/stream?lastEventId=POSITION
+// A Server-Sent Events stream of changes to the events the user can see. Browsers reconnect on
+// their own and send the position they got to as Last-Event-ID (clients that open a new stream
+// pass it as lastEventId instead); the changes missed in between are sent first. When they are no
+// longer known, a `resync` event tells the client to reload instead.
+export const streamChanges = (req: Request, res: Response): void => {
+  const lastId = req.get('Last-Event-ID') ?? (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Keeps nginx from buffering the stream.
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  // Subscribing comes first so nothing is lost between catching up and listening. Changes that
+  // arrive meanwhile wait until the missed ones are sent, and a change is never sent twice.
+  let held: SyncChange[] | null = [];
+  let sent = 0;
+  const send = (change: SyncChange) => {
+    const seq = sequenceOf(change.id);
+    if (seq <= sent) return;
+    sent = seq;
+    writeChange(res, change);
+  };
+  const unsubscribe = subscribeToChanges(req.userId!, change => (held ? held.push(change) : send(change)));
+
+  const missed = lastId ? changesSince(req.userId!, lastId) : [];
+  if (missed === null) {
+    res.write(`event: resync\nid: ${currentPosition()}\ndata: {}\n\n`);
+  } else if (missed.length > 0) {
+    missed.forEach(send);
+  } else {
+    res.write(`event: ready\nid: ${lastId ?? currentPosition()}\ndata: {}\n\n`);
+  }
+  held.forEach(send);
+  held = null;
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+};
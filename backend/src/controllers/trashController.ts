@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+import prisma from '../lib/prisma';
+import { findConflicts } from '../services/conflictService';
+import { emitWebhook } from '../services/webhookService';
+import { broadcastChange, SYNC_CLIENT_HEADER } from '../services/syncService';
+import { recordRevision, REVISIONS_HEADER, revisionsHeader, snapshotEvent } from '../services/revisionService';
+import { purgeDate, trashBatchFilter, trashItemsFilter } from '../services/trashService';
+
+// A trashed event owned by the requesting user, or null after answering 404.
+const findTrashed = async (req: Request, res: Response) => {
+  const event = await prisma.event.findFirst({ where: { id: req.params.id, userId: req.userId, deletedAt: { not: null } } });
+  if (!event) {
+    res.status(404).json({ error: 'Event not found in the trash' });
+    return null;
+  }
+  return event;
+};
+
+// GET /trash
+// Trashed events, most recently deleted first, each with the date it will be purged. A series is
+// one item; its exceptions come back with it.
+export const getTrash = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const events = await prisma.event.findMany({
+      where: await trashItemsFilter(req.userId!),
+      orderBy: { deletedAt: 'desc' },
+    });
+    res.json(events.map(event => ({ ...event, purgeAt: purgeDate(event.deletedAt!) })));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to fetch the trash' });
+  }
+};
+
+// POST /trash/:id/restore
+// Takes the event out of the trash, a master together with the exceptions trashed with it. Its time
+// may have been taken in the meantime, so it is checked for conflicts like a new event.
+export const restoreEvent = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const event = await findTrashed(req, res);
+    if (!event) return;
+
+    if (event.recurrenceId && !(await prisma.event.findFirst({ where: { id: event.recurrenceId, deletedAt: null } }))) {
+      res.status(409).json({ error: 'Restore the recurring series this occurrence belongs to first' });
+      return;
+    }
+    if (!event.isCancelled) {
+      const conflicts = await findConflicts(req.userId!, event, { eventId: event.id });
+      if (conflicts.length > 0) {
+        res.status(409).json({ error: 'The event cannot be restored: its time overlaps with another event.', conflict: conflicts[0], conflicts });
+        return;
+      }
+    }
+
+    await prisma.event.updateMany({ where: trashBatchFilter(event), data: { deletedAt: null } });
+    const after = await snapshotEvent(event.id);
+    const revision = await recordRevision(req.userId!, event.id, null, after);
+    const restored = { ...event, deletedAt: null };
+
+    emitWebhook(req.userId!, 'event.created', { event: restored });
+    broadcastChange(req.userId!, 'event.created', restored, req.get(SYNC_CLIENT_HEADER));
+    res.set(REVISIONS_HEADER, revisionsHeader([revision]));
+    res.json(restored);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to restore event' });
+  }
+};
+
+// DELETE /trash/:id
+// Deletes a trashed event (and a series' exceptions) for good, without waiting for the purge.
+export const purgeEvent = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const event = await findTrashed(req, res);
+    if (!event) return;
+    await prisma.event.deleteMany({ where: { OR: [{ id: event.id }, { recurrenceId: event.id }] } });
+    res.status(204).send();
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to delete event' });
+  }
+};
+
+// DELETE /trash
+// Empties the trash.
+export const emptyTrash = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const trashed = await prisma.event.findMany({ where: { userId: req.userId, deletedAt: { not: null } }, select: { id: true } });
+    const ids = trashed.map(e => e.id);
+    await prisma.event.deleteMany({ where: { OR: [{ id: { in: ids } }, { recurrenceId: { in: ids } }] } });
+    res.status(204).send();
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to empty the trash' });
+  }
+};
@@ -0,0 +1,163 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { isHttpUrl } from '../lib/url';
+import { generateWebhookSecret, isWebhookEventType, WEBHOOK_EVENT_TYPES, webhookTargetError } from '../services/webhookService';
+
+// How many of the latest deliveries the log returns.
+const DELIVERY_LOG_LENGTH = 50;
+
+const DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'];
+
+// The secret is only shown once, when the subscription is created.
+const subscriptionFields = {
+  id: true, url: true, eventTypes: true, active: true, createdAt: true, updatedAt: true,
+} satisfies Prisma.WebhookSubscriptionSelect;
+
+const URL_ERROR = 'url must be an http(s) URL';
+const EVENT_TYPES_ERROR = `eventTypes must be a non-empty list of: ${WEBHOOK_EVENT_TYPES.join(', ')}`;
+
+const isEventTypeList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length > 0 && value.every(isWebhookEventType);
+
+// GET /webhooks
+export const getWebhooks = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const webhooks = await prisma.webhookSubscription.findMany({
+      where: { userId: req.userId },
+      select: subscriptionFields,
+      orderBy: { createdAt: 'asc' },
+    });
+    res.json(webhooks);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to fetch webhooks' });
+  }
+};
+
+// POST /webhooks
+// Body: { url, eventTypes, secret? }. A secret is generated when none is given.
+export const createWebhook = async (req: Request, res: Response): Promise<void> => {
+  const { url, eventTypes, secret } = req.body;
+
+  // 1. Basic Validation
+  if (!isHttpUrl(url)) {
+    res.status(400).json({ error: URL_ERROR });
+    return;
+  }
+  if (!isEventTypeList(eventTypes)) {
+    res.status(400).json({ error: EVENT_TYPES_ERROR });
+    return;
+  }
+  if (secret !== undefined && (typeof secret !== 'string' || secret.length < 16)) {
+    res.status(400).json({ error: 'secret must be at least 16 characters' });
+    return;
+  }
+
+  try {
+    const targetError = await webhookTargetError(url);
+    if (targetError) {
+      res.status(400).json({ error: targetError });
+      return;
+    }
+    const webhook = await prisma.webhookSubscription.create({
+      data: { userId: req.userId!, url, eventTypes: [...new Set(eventTypes)], secret: secret ?? generateWebhookSecret() },
+      select: { ...subscriptionFields, secret: true },
+    });
+    res.status(201).json(webhook);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to create webhook' });
+  }
+};
+
+// PUT /webhooks/:id
+// Body: { url, eventTypes, active? }. The secret cannot be changed; create a new subscription instead.
+export const updateWebhook = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { url, eventTypes, active } = req.body;
+
+  // 1. Basic Validation
+  if (!isHttpUrl(url)) {
+    res.status(400).json({ error: URL_ERROR });
+    return;
+  }
+  if (!isEventTypeList(eventTypes)) {
+    res.status(400).json({ error: EVENT_TYPES_ERROR });
+    return;
+  }
+  if (active !== undefined && typeof active !== 'boolean') {
+    res.status(400).json({ error: 'active must be true or false' });
+    return;
+  }
+
+  try {
+    if (!(await prisma.webhookSubscription.findFirst({ where: { id, userId: req.userId } }))) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    const targetError = await webhookTargetError(url);
+    if (targetError) {
+      res.status(400).json({ error: targetError });
+      return;
+    }
+    const webhook = await prisma.webhookSubscription.update({
+      where: { id },
+      data: { url, eventTypes: [...new Set(eventTypes)], active },
+      select: subscriptionFields,
+    });
+    res.json(webhook);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    res.status(500).json({ error: 'Failed to update webhook' });
+  }
+};
+
+// DELETE /webhooks/:id
+// Removes the subscription together with its delivery log.
+export const deleteWebhook = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  try {
+    const { count } = await prisma.webhookSubscription.deleteMany({ where: { id, userId: req.userId } });
+    if (count === 0) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+};
+
+// GET /webhooks/:id/deliveries?status=failed
+// The delivery log, newest first: payload, attempts, and the last response status or error.
+export const getWebhookDeliveries = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { status } = req.query;
+
+  // 1. Basic Validation
+  if (status !== undefined && !DELIVERY_STATUSES.includes(status as string)) {
+    res.status(400).json({ error: `status must be one of: ${DELIVERY_STATUSES.join(', ')}` });
+    return;
+  }
+
+  try {
+    if (!(await prisma.webhookSubscription.findFirst({ where: { id, userId: req.userId } }))) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { subscriptionId: id, ...(status !== undefined && { status: status as string }) },
+      orderBy: { createdAt: 'desc' },
+      take: DELIVERY_LOG_LENGTH,
+    });
+    res.json(deliveries);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+  }
+};
@@ -0,0 +1,6 @@
+// Deliberately loose: anything with a local part, an @ and a domain.
+export const isValidEmail = (email: unknown): email is string =>
+  typeof email === 'string' && /^[^\s@]+@[^\s@]+$/.test(email.trim());
+
+// Emails are compared case-insensitively everywhere, so they are stored lowercased.
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
@@ -0,0 +1,4 @@
+// Whether an If-Match or If-None-Match header matches `etag` (or any existing resource, for "*").
+// Weak tags compare like strong ones.
+export const matchesEtag = (header: string, etag: string | null): boolean =>
+  etag !== null && header.split(',').map(value => value.trim().replace(/^W\//, '')).some(value => value === '*' || value === etag);
@@ -0,0 +1,29 @@
+import nodemailer, { Transporter } from 'nodemailer';
+
+let transport: Transporter | null = null;
+
+// Built on first use, so processes that never send mail do not need SMTP settings.
+const getTransport = (): Transporter => {
+  if (!transport) {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP_HOST is not set, so email cannot be sent');
+    }
+    transport = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      // Port 465 speaks TLS from the start; others upgrade with STARTTLS when the server offers it.
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+    });
+  }
+  return transport;
+};
+
+export const sendMail = async (to: string, subject: string, text: string): Promise<void> => {
+  await getTransport().sendMail({
+    from: process.env.SMTP_FROM || 'Calendar <calendar@localhost>',
+    to,
+    subject,
+    text,
+  });
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { isPublicAddress, literalAddress, publicLookup } from './network';
+
+describe('isPublicAddress', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+    '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe',
+  ])('rejects %s', address => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each(['93.184.216.34', '172.32.0.1', '8.8.8.8', '2606:4700:4700::1111'])('accepts %s', address => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+
+  it('rejects anything that is not an address', () => {
+    expect(isPublicAddress('example.com')).toBe(false);
+  });
+});
+
+describe('literalAddress', () => {
+  it('reads IPv4 and bracketed IPv6 hosts, and leaves names alone', () => {
+    expect(literalAddress(new URL('http://169.254.169.254/latest'))).toBe('169.254.169.254');
+    expect(literalAddress(new URL('http://[::1]:8080/'))).toBe('::1');
+    expect(literalAddress(new URL('https://example.com/hook'))).toBeNull();
+  });
+});
+
+describe('publicLookup', () => {
+  it('refuses names that resolve to this machine', async () => {
+    const error = await new Promise(resolve => publicLookup('localhost', { all: true }, resolve));
+    expect(error).toBeInstanceOf(Error);
+  });
+});
@@ -0,0 +1,54 @@
+import { lookup as dnsLookup } from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+// Addresses the server must not be made to send requests to: itself, private networks, link-local
+// ones (which include cloud metadata endpoints), and other ranges that are not on the internet.
+const nonPublic = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  nonPublic.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  // Unspecified and loopback, unique-local, link-local and multicast. IPv4-mapped addresses
+  // (::ffff:127.0.0.1) are matched against the IPv4 ranges by BlockList itself.
+  ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  nonPublic.addSubnet(network, prefix, 'ipv6');
+}
+
+// Whether `address` is an IP address on the public internet.
+export const isPublicAddress = (address: string): boolean => {
+  const family = isIP(address);
+  return family !== 0 && !nonPublic.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+// The host of a URL as an IP address, or null if it is a name. IPv6 hosts come in brackets.
+export const literalAddress = (url: URL): string | null => {
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  return isIP(host) ? host : null;
+};
+
+/**
+ * A `lookup` for http(s).request that only hands out public addresses. The check is made on the
+ * addresses the request then connects to, so a name cannot pass one check and be re-resolved to an
+ * internal address for the connection.
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      callback(new Error(`${hostname} does not resolve to a public address`), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
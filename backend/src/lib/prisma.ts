@@ -0,0 +1,6 @@
+import { PrismaClient } from '@prisma/client';
+
+// A single shared client so every controller and service uses the same connection pool.
+const prisma = new PrismaClient();
+
+export default prisma;
@@ -0,0 +1,66 @@
+// Time zone helpers built on Intl, so no zone database has to be bundled.
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The zone's offset from UTC (in ms) at the given instant.
+export const getTimeZoneOffset = (instant: Date, timeZone: string): number => {
+  const parts = getFormatter(timeZone).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)!.value);
+  const wallAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallAsUtc - (instant.getTime() - instant.getUTCMilliseconds());
+};
+
+/**
+ * Converts a wall-clock time in `timeZone` to the real instant. The wall-clock fields are passed
+ * in the UTC slots of `wallClock` (i.e. Date.UTC(year, month, ...)).
+ */
+export const zonedTimeToUtc = (wallClock: Date, timeZone: string): Date => {
+  // The offset at the guessed instant is right except right around a transition, so check twice.
+  const firstGuess = wallClock.getTime() - getTimeZoneOffset(wallClock, timeZone);
+  const offset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+  return new Date(wallClock.getTime() - offset);
+};
+
+// The inverse of zonedTimeToUtc: the wall-clock time in `timeZone`, returned in the UTC slots of a Date.
+export const utcToZonedTime = (instant: Date, timeZone: string): Date =>
+  new Date(instant.getTime() + getTimeZoneOffset(instant, timeZone));
+
+// Moves an instant by `ms` of wall-clock time in `timeZone`, so 09:00 plus one day is 09:00 the
+// next day even across a DST change. Without a zone this is plain arithmetic.
+export const addWallClockTime = (instant: Date, ms: number, timeZone?: string | null): Date =>
+  timeZone
+    ? zonedTimeToUtc(new Date(utcToZonedTime(instant, timeZone).getTime() + ms), timeZone)
+    : new Date(instant.getTime() + ms);
+
+// The wall-clock time between two instants in `timeZone`, the counterpart of addWallClockTime.
+export const wallClockDifference = (from: Date, to: Date, timeZone?: string | null): number =>
+  timeZone
+    ? utcToZonedTime(to, timeZone).getTime() - utcToZonedTime(from, timeZone).getTime()
+    : to.getTime() - from.getTime();
@@ -0,0 +1,10 @@
+// Only absolute http(s) URLs; anything else (javascript:, mailto:, relative paths) is rejected.
+export const isHttpUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { parseXml, XmlParseError } from './xml';
+
+describe('parseXml', () => {
+  it('decodes predefined and numeric entities', () => {
+    expect(parseXml('<a title="&quot;x&quot;">&lt;&#65;&#x1F600;&gt;</a>')).toMatchObject({
+      name: 'a',
+      attributes: { title: '"x"' },
+      text: '<A\u{1F600}>',
+    });
+  });
+
+  it.each(['&#x110000;', '&#99999999;', '&#99999999999999999999999;'])('rejects the reference %s to no character', entity => {
+    expect(() => parseXml(`<a>${entity}</a>`)).toThrow(XmlParseError);
+    expect(() => parseXml(`<a b="${entity}"/>`)).toThrow(XmlParseError);
+  });
+});
@@ -0,0 +1,116 @@
+// A parsed XML element. Names are resolved against their namespace, so `<d:prop>` and `<D:prop>`
+// with the same xmlns declaration are the same element.
+export interface XmlElement {
+  namespace: string;
+  name: string;
+  // Attributes other than namespace declarations, by their name as written.
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+export class XmlParseError extends Error {}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+// Comments, processing instructions, CDATA, a doctype, a start or end tag, or text.
+const TOKEN = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<!DOCTYPE[^>]*>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/y;
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// The largest code point Unicode has.
+const MAX_CODE_POINT = 0x10ffff;
+
+// A reference to something that is not a character (e.g. &#x110000;) makes the document malformed.
+const fromCodePoint = (codePoint: number, match: string): string => {
+  if (!(codePoint <= MAX_CODE_POINT)) throw new XmlParseError(`Invalid character reference: ${match}`);
+  return String.fromCodePoint(codePoint);
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) return fromCodePoint(parseInt(entity.slice(2), 16), match);
+    if (entity.startsWith('#')) return fromCodePoint(parseInt(entity.slice(1), 10), match);
+    return ENTITIES[entity] ?? match;
+  });
+
+export const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface OpenElement {
+  element: XmlElement;
+  rawName: string;
+  // Prefix -> namespace declarations in scope; '' is the default namespace.
+  scope: Map<string, string>;
+}
+
+/**
+ * Parses the small XML documents WebDAV clients send (PROPFIND, REPORT). Namespaces are resolved;
+ * DTDs and entities other than the predefined and numeric ones are not supported.
+ */
+export const parseXml = (text: string): XmlElement => {
+  const stack: OpenElement[] = [];
+  let root: XmlElement | null = null;
+  TOKEN.lastIndex = 0;
+
+  while (TOKEN.lastIndex < text.length) {
+    const match = TOKEN.exec(text);
+    if (!match) {
+      throw new XmlParseError('Malformed XML');
+    }
+    const [token, cdata, closing, rawName, rawAttributes, selfClosing, chars] = match;
+    const current = stack[stack.length - 1];
+
+    if (chars !== undefined || cdata !== undefined) {
+      if (current) current.element.text += chars !== undefined ? decodeEntities(chars) : cdata;
+      else if (chars?.trim()) throw new XmlParseError('Text outside the root element');
+      continue;
+    }
+    if (!rawName) {
+      // A comment, processing instruction or doctype.
+      if (token.startsWith('<!DOCTYPE') && token.includes('[')) throw new XmlParseError('DTDs are not supported');
+      continue;
+    }
+
+    if (closing) {
+      if (!current || current.rawName !== rawName) {
+        throw new XmlParseError(`Unexpected </${rawName}>`);
+      }
+      stack.pop();
+      continue;
+    }
+
+    const scope = new Map(current?.scope);
+    const attributes: Record<string, string> = {};
+    for (const [, name, double, single] of rawAttributes.matchAll(ATTRIBUTE)) {
+      const value = decodeEntities(double ?? single);
+      if (name === 'xmlns') scope.set('', value);
+      else if (name.startsWith('xmlns:')) scope.set(name.slice('xmlns:'.length), value);
+      else attributes[name] = value;
+    }
+
+    const colon = rawName.indexOf(':');
+    const prefix = colon === -1 ? '' : rawName.slice(0, colon);
+    const namespace = scope.get(prefix);
+    if (namespace === undefined && prefix) {
+      throw new XmlParseError(`Undeclared namespace prefix: ${prefix}`);
+    }
+    const element: XmlElement = { namespace: namespace ?? '', name: rawName.slice(colon + 1), attributes, children: [], text: '' };
+
+    if (current) current.element.children.push(element);
+    else if (root) throw new XmlParseError('More than one root element');
+    else root = element;
+
+    if (!selfClosing) stack.push({ element, rawName, scope });
+  }
+
+  if (!root || stack.length > 0) {
+    throw new XmlParseError('Incomplete XML document');
+  }
+  return root;
+};
+
+export const findChild = (element: XmlElement, namespace: string, name: string): XmlElement | undefined =>
+  element.children.find(child => child.namespace === namespace && child.name === name);
+
+export const findChildren = (element: XmlElement, namespace: string, name: string): XmlElement[] =>
+  element.children.filter(child => child.namespace === namespace && child.name === name);
@@ -0,0 +1,86 @@
+import { NextFunction, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import bcrypt from 'bcryptjs';
+import prisma from '../lib/prisma';
+import { normalizeEmail } from '../lib/email';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by requireAuth for every authenticated request.
+      userId?: string;
+    }
+  }
+}
+
+interface TokenPayload {
+  sub: string;
+}
+
+const TOKEN_TTL = '7d';
+
+const getSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not set');
+  }
+  return secret;
+};
+
+export const signToken = (userId: string): string =>
+  jwt.sign({ sub: userId } satisfies TokenPayload, getSecret(), { expiresIn: TOKEN_TTL });
+
+// Rejects requests without a valid "Authorization: Bearer <token>" header.
+export const requireAuth = (req: Request, res: Response, next: NextFunction): void => {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+
+  if (!token) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+
+  try {
+    const payload = jwt.verify(token, getSecret()) as TokenPayload;
+    req.userId = payload.sub;
+    next();
+  } catch {
+    res.status(401).json({ error: 'Invalid or expired token' });
+  }
+};
+
+// Browsers cannot set headers on an EventSource, so streams take the token as ?access_token= too.
+export const requireStreamAuth = (req: Request, res: Response, next: NextFunction): void => {
+  const { access_token: token } = req.query;
+  if (!req.headers.authorization && typeof token === 'string') {
+    req.headers.authorization = `Bearer ${token}`;
+  }
+  requireAuth(req, res, next);
+};
+
+/**
+ * Calendar clients (CalDAV) cannot log in for a token, so the DAV endpoint also takes HTTP Basic
+ * credentials: the account's email and password. A missing or wrong login asks for one with
+ * WWW-Authenticate, which is what makes clients prompt.
+ */
+export const requireDavAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    requireAuth(req, res, next);
+    return;
+  }
+
+  const credentials = header?.startsWith('Basic ') ? Buffer.from(header.slice('Basic '.length), 'base64').toString('utf8') : '';
+  const separator = credentials.indexOf(':');
+  if (separator !== -1) {
+    const user = await prisma.user.findUnique({ where: { email: normalizeEmail(credentials.slice(0, separator)) } });
+    if (user && (await bcrypt.compare(credentials.slice(separator + 1), user.passwordHash))) {
+      req.userId = user.id;
+      next();
+      return;
+    }
+  }
+
+  res.set('WWW-Authenticate', 'Basic realm="Calendar", charset="UTF-8"');
+  res.status(401).send('Authentication required');
+};
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { register, login, getCurrentUser, updateCurrentUser } from '../controllers/authController';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+router.post('/register', register);
+router.post('/login', login);
+router.get('/me', requireAuth, getCurrentUser);
+router.patch('/me', requireAuth, updateCurrentUser);
+
+export default router;
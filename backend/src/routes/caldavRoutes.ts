@@ -0,0 +1,37 @@
+import express, { Router } from 'express';
+import {
+  DAV_ROOT,
+  davOptions,
+  deleteResource,
+  getResource,
+  propfindCalendar,
+  propfindHome,
+  propfindPrincipal,
+  propfindResource,
+  propfindRoot,
+  putResource,
+  redirectToDavRoot,
+  reportCalendar,
+} from '../controllers/caldavController';
+import { requireDavAuth } from '../middleware/auth';
+
+const router = Router();
+
+// This router is mounted at the root, since clients discover the DAV tree through /.well-known/caldav.
+router.all('/.well-known/caldav', redirectToDavRoot);
+// Clients probe for CalDAV support before logging in.
+router.options(`${DAV_ROOT}{/*path}`, davOptions);
+// XML request bodies and .ics resources are both read as raw text.
+router.use(DAV_ROOT, requireDavAuth, express.text({ type: () => true, limit: '5mb' }));
+
+router.propfind(DAV_ROOT, propfindRoot);
+router.propfind(`${DAV_ROOT}/principals/:userId`, propfindPrincipal);
+router.propfind(`${DAV_ROOT}/calendars/:userId`, propfindHome);
+router.propfind(`${DAV_ROOT}/calendars/:userId/:calendarId`, propfindCalendar);
+router.report(`${DAV_ROOT}/calendars/:userId/:calendarId`, reportCalendar);
+router.propfind(`${DAV_ROOT}/calendars/:userId/:calendarId/:name`, propfindResource);
+router.get(`${DAV_ROOT}/calendars/:userId/:calendarId/:name`, getResource);
+router.put(`${DAV_ROOT}/calendars/:userId/:calendarId/:name`, putResource);
+router.delete(`${DAV_ROOT}/calendars/:userId/:calendarId/:name`, deleteResource);
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { requireAuth } from '../middleware/auth';
+import { getCalendars, createCalendar, updateCalendar, deleteCalendar } from '../controllers/calendarController';
+
+const router = Router();
+
+router.use(requireAuth);
+
+router.get('/', getCalendars);
+router.post('/', createCalendar);
+router.put('/:id', updateCalendar);
+router.delete('/:id', deleteCalendar);
+
+export default router;
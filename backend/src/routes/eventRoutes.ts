@@ -1,11 +1,30 @@
 import { Router } from 'express';
-import { getEvents, createEvent, updateEvent, deleteEvent } from '../controllers/eventController';
+import { requireAuth } from '../middleware/auth';
+import { getEvents, searchEvents, createEvent, updateEvent, patchEvent, deleteEvent, splitSeries } from '../controllers/eventController';
+import { inviteAttendee, removeAttendee, respondToInvitation } from '../controllers/attendeeController';
+import { suggestSlots } from '../controllers/freeBusyController';
+import { addReminder, deleteReminder, getReminders } from '../controllers/reminderController';
+import { getEventHistory, revertEvent } from '../controllers/revisionController';
 
 const router = Router();
 
+router.use(requireAuth);
+
 router.get('/', getEvents);
+router.get('/search', searchEvents);
 router.post('/', createEvent);
+router.post('/suggest-slots', suggestSlots);
 router.put('/:id', updateEvent);
+router.patch('/:id', patchEvent);
+router.post('/:id/split', splitSeries);
 router.delete('/:id', deleteEvent);
+router.get('/:id/history', getEventHistory);
+router.post('/:id/revert', revertEvent);
+router.post('/:id/attendees', inviteAttendee);
+router.delete('/:id/attendees/:attendeeId', removeAttendee);
+router.post('/:id/rsvp', respondToInvitation);
+router.get('/:id/reminders', getReminders);
+router.post('/:id/reminders', addReminder);
+router.delete('/:id/reminders/:reminderId', deleteReminder);
 
 export default router;
\ No newline at end of file
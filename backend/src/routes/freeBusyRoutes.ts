@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { requireAuth } from '../middleware/auth';
+import { getFreeBusy } from '../controllers/freeBusyController';
+
+const router = Router();
+
+router.use(requireAuth);
+
+router.post('/', getFreeBusy);
+
+export default router;
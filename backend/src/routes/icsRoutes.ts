@@ -0,0 +1,12 @@
+import express, { Router } from 'express';
+import { exportCalendar, importCalendar } from '../controllers/icsController';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+// This router is mounted at the root, so auth is applied per route rather than with router.use.
+router.get('/events.ics', requireAuth, exportCalendar);
+// .ics files are uploaded as the raw request body.
+router.post('/events/import', requireAuth, express.text({ type: ['text/calendar', 'text/plain'], limit: '5mb' }), importCalendar);
+
+export default router;
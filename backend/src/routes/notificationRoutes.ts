@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { requireAuth } from '../middleware/auth';
+import { getNotifications, markAllNotificationsRead, markNotificationRead } from '../controllers/notificationController';
+
+const router = Router();
+
+router.use(requireAuth);
+
+router.get('/', getNotifications);
+router.post('/read-all', markAllNotificationsRead);
+router.post('/:id/read', markNotificationRead);
+
+export default router;
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { requireStreamAuth } from '../middleware/auth';
+import { streamChanges } from '../controllers/syncController';
+
+const router = Router();
+
+router.use(requireStreamAuth);
+
+router.get('/stream', streamChanges);
+
+export default router;
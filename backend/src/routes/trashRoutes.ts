@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { requireAuth } from '../middleware/auth';
+import { emptyTrash, getTrash, purgeEvent, restoreEvent } from '../controllers/trashController';
+
+const router = Router();
+
+router.use(requireAuth);
+
+router.get('/', getTrash);
+router.delete('/', emptyTrash);
+router.post('/:id/restore', restoreEvent);
+router.delete('/:id', purgeEvent);
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { requireAuth } from '../middleware/auth';
+import { createWebhook, deleteWebhook, getWebhookDeliveries, getWebhooks, updateWebhook } from '../controllers/webhookController';
+
+const router = Router();
+
+router.use(requireAuth);
+
+router.get('/', getWebhooks);
+router.post('/', createWebhook);
+router.put('/:id', updateWebhook);
+router.delete('/:id', deleteWebhook);
+router.get('/:id/deliveries', getWebhookDeliveries);
+
+export default router;
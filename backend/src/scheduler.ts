@@ -0,0 +1,50 @@
+import dotenv from 'dotenv';
+import prisma from './lib/prisma';
+import { runDueReminders } from './services/reminderService';
+import { retryWebhookDeliveries } from './services/webhookService';
+import { purgeTrash } from './services/trashService';
+
+dotenv.config();
+
+// How often due reminders, webhook retries and expired trash are looked for; a reminder fires at
+// most this late.
+const POLL_SECONDS = Number(process.env.REMINDER_POLL_SECONDS) || 30;
+
+let timer: NodeJS.Timeout | undefined;
+let stopping = false;
+
+// Passes are chained rather than run on an interval, so a slow pass never overlaps the next one.
+const tick = async () => {
+  try {
+    const sent = await runDueReminders();
+    if (sent > 0) console.log(`Sent ${sent} reminder(s)`);
+  } catch (error) {
+    console.error("Reminder pass failed:", error);
+  }
+  try {
+    const delivered = await retryWebhookDeliveries();
+    if (delivered > 0) console.log(`Redelivered ${delivered} webhook(s)`);
+  } catch (error) {
+    console.error("Webhook retry pass failed:", error);
+  }
+  try {
+    const purged = await purgeTrash();
+    if (purged > 0) console.log(`Purged ${purged} event(s) from the trash`);
+  } catch (error) {
+    console.error("Trash purge failed:", error);
+  }
+  if (!stopping) timer = setTimeout(tick, POLL_SECONDS * 1000);
+};
+
+const stop = async () => {
+  stopping = true;
+  clearTimeout(timer);
+  await prisma.$disconnect();
+  process.exit(0);
+};
+
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
+
+console.log(`Scheduler running, checking every ${POLL_SECONDS}s`);
+tick();
@@ -0,0 +1,45 @@
+import dotenv from 'dotenv';
+import prisma from '../lib/prisma';
+import { seriesEndOf } from '../services/recurrenceService';
+
+dotenv.config();
+
+// Sets seriesEnd on series stored before it existed, which window queries otherwise have to treat
+// as never ending. Series that really never end stay null, so running it again is harmless.
+const BATCH_SIZE = 500;
+
+const backfill = async () => {
+  let lastId = '';
+  let updated = 0;
+  for (;;) {
+    const masters = await prisma.event.findMany({
+      where: { rrule: { not: null }, seriesEnd: null, id: { gt: lastId } },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    });
+    if (masters.length === 0) break;
+    lastId = masters[masters.length - 1].id;
+
+    for (const master of masters) {
+      let seriesEnd: Date | null;
+      try {
+        seriesEnd = seriesEndOf(master);
+      } catch (error) {
+        console.error(`Skipping ${master.id}, its rule cannot be read:`, error);
+        continue;
+      }
+      if (seriesEnd) {
+        await prisma.event.update({ where: { id: master.id }, data: { seriesEnd } });
+        updated++;
+      }
+    }
+  }
+  console.log(`Set seriesEnd on ${updated} series`);
+};
+
+backfill()
+  .catch(error => {
+    console.error("Backfill failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,111 @@
+import dotenv from 'dotenv';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { expandEvents, parseRule, seriesEndOf, windowFilter } from '../services/recurrenceService';
+
+dotenv.config();
+
+/**
+ * Times what a week view costs for a user with years of history, the way it was before seriesEnd
+ * and the occurrence cache and the way it is now. A throwaway user gets SERIES synthetic series,
+ * most of which ended long ago; everything is deleted again afterwards. Needs DATABASE_URL.
+ *
+ *   npm run benchmark:series -- 5000
+ */
+const SERIES = Number(process.argv[2]) || 5000;
+// Every nth series never ends.
+const ONGOING_EVERY = 20;
+const RUNS = 10;
+const INSERT_BATCH_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The same pseudo-random series on every run, so results can be compared.
+let seed = 42;
+const random = (min: number, max: number) => {
+  seed = (seed * 16807) % 2147483647;
+  return min + (seed % (max - min + 1));
+};
+
+const untilValue = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const syntheticSeries = (userId: string, calendarId: string, now: Date): Prisma.EventCreateManyInput[] =>
+  Array.from({ length: SERIES }, (_, i) => {
+    const startTime = new Date(now.getTime() - random(30, 3650) * DAY_MS);
+    startTime.setUTCHours(random(6, 18), 0, 0, 0);
+    const endTime = new Date(startTime.getTime() + 60 * 60 * 1000);
+    const rrule = i % ONGOING_EVERY === 0
+      ? 'RRULE:FREQ=WEEKLY;INTERVAL=1'
+      : i % 2 === 0
+        ? `RRULE:FREQ=DAILY;COUNT=${random(5, 60)}`
+        : `RRULE:FREQ=WEEKLY;UNTIL=${untilValue(new Date(startTime.getTime() + random(14, 365) * DAY_MS))}`;
+    const timeZone = 'Europe/Berlin';
+    return {
+      userId, calendarId, title: `Series ${i + 1}`, startTime, endTime, timeZone, rrule,
+      seriesEnd: seriesEndOf({ rrule, startTime, endTime, timeZone }),
+    };
+  });
+
+const time = async <T>(run: () => T | Promise<T>) => {
+  const started = performance.now();
+  const result = await run();
+  return { result, ms: performance.now() - started };
+};
+
+const median = (values: number[]) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+
+const benchmark = async () => {
+  const now = new Date();
+  const windowStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const windowEnd = new Date(windowStart.getTime() + 7 * DAY_MS);
+
+  const user = await prisma.user.create({
+    data: { email: `benchmark-${Date.now()}@example.invalid`, passwordHash: '', name: 'Series benchmark' },
+  });
+  try {
+    const calendar = await prisma.calendar.create({ data: { userId: user.id, name: 'Benchmark', color: '#3b82f6' } });
+    const rows = syntheticSeries(user.id, calendar.id, now);
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      await prisma.event.createMany({ data: rows.slice(i, i + INSERT_BATCH_SIZE) });
+    }
+    console.log(`${SERIES} series (${Math.ceil(SERIES / ONGOING_EVERY)} never end), week from ${windowStart.toISOString().slice(0, 10)}`);
+
+    // Query B as it was: every series that started before the window ends, expanded every time.
+    const before = { rows: 0, query: [] as number[], expand: [] as number[] };
+    for (let run = 0; run < RUNS; run++) {
+      const query = await time(() => prisma.event.findMany({
+        where: { userId: user.id, deletedAt: null, rrule: { not: null }, startTime: { lt: windowEnd } },
+      }));
+      const expand = await time(() => query.result.forEach(master => parseRule(master).between(windowStart, windowEnd)));
+      before.rows = query.result.length;
+      before.query.push(query.ms);
+      before.expand.push(expand.ms);
+    }
+
+    // Now: series that ended before the window are left out, and occurrences are cached after the first run.
+    const after = { rows: 0, query: [] as number[], expand: [] as number[] };
+    for (let run = 0; run < RUNS; run++) {
+      const query = await time(() => prisma.event.findMany({ where: { AND: [windowFilter(windowStart, windowEnd), { userId: user.id }] } }));
+      const expand = await time(() => expandEvents(query.result, windowStart, windowEnd));
+      after.rows = query.result.length;
+      after.query.push(query.ms);
+      after.expand.push(expand.ms);
+    }
+
+    const round = (ms: number) => Math.round(ms * 10) / 10;
+    console.table({
+      before: { rows: before.rows, 'query ms': round(median(before.query)), 'expand ms': round(median(before.expand)) },
+      'after (first run)': { rows: after.rows, 'query ms': round(after.query[0]), 'expand ms': round(after.expand[0]) },
+      'after (cached)': { rows: after.rows, 'query ms': round(median(after.query.slice(1))), 'expand ms': round(median(after.expand.slice(1))) },
+    });
+  } finally {
+    // Calendars and events go with their user.
+    await prisma.user.delete({ where: { id: user.id } });
+  }
+};
+
+benchmark()
+  .catch(error => {
+    console.error("Benchmark failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
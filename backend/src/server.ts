@@ -2,16 +2,39 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import eventRoutes from './routes/eventRoutes';
+import icsRoutes from './routes/icsRoutes';
+import calendarRoutes from './routes/calendarRoutes';
+import authRoutes from './routes/authRoutes';
+import freeBusyRoutes from './routes/freeBusyRoutes';
+import notificationRoutes from './routes/notificationRoutes';
+import webhookRoutes from './routes/webhookRoutes';
+import trashRoutes from './routes/trashRoutes';
+import caldavRoutes from './routes/caldavRoutes';
+import syncRoutes from './routes/syncRoutes';
+import { REVISIONS_HEADER } from './services/revisionService';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
-app.use(cors());
+// Calendar clients are not browsers, and the OPTIONS requests they send must not be taken for CORS
+// preflights, so the CalDAV tree comes before the CORS middleware.
+app.use(caldavRoutes);
+
+// Only the frontend may call the API from a browser. It reads the revisions a change wrote, for undo.
+app.use(cors({ origin: process.env.CORS_ORIGIN || 'http://localhost:5173', exposedHeaders: [REVISIONS_HEADER, 'ETag'] }));
 app.use(express.json());
 
+app.use('/auth', authRoutes);
 app.use('/events', eventRoutes);
+app.use(icsRoutes);
+app.use('/calendars', calendarRoutes);
+app.use('/freebusy', freeBusyRoutes);
+app.use('/notifications', notificationRoutes);
+app.use('/webhooks', webhookRoutes);
+app.use('/trash', trashRoutes);
+app.use('/sync', syncRoutes);
 
 app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
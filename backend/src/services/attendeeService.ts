@@ -0,0 +1,40 @@
+import { Attendee, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+
+// RSVP states, named after iCalendar's PARTSTAT values.
+export const RSVP_STATUSES = ['needs-action', 'accepted', 'declined', 'tentative'] as const;
+export const ATTENDEE_ROLES = ['required', 'optional'] as const;
+
+export type RsvpStatus = (typeof RSVP_STATUSES)[number];
+export type AttendeeRole = (typeof ATTENDEE_ROLES)[number];
+
+export const isRsvpStatus = (value: unknown): value is RsvpStatus =>
+  RSVP_STATUSES.includes(value as RsvpStatus);
+
+export const isAttendeeRole = (value: unknown): value is AttendeeRole =>
+  ATTENDEE_ROLES.includes(value as AttendeeRole);
+
+/**
+ * Events a user can see: their own (optionally limited to some of their calendars) plus the ones
+ * they are invited to. Exceptions of a series they are invited to are included even when they
+ * carry no attendees of their own (e.g. cancellations), so the series expands correctly.
+ */
+export const visibleEventsFilter = async (userId: string, calendarIds?: string[]): Promise<Prisma.EventWhereInput> => {
+  const invitedSeries = await prisma.attendee.findMany({
+    where: { userId, event: { rrule: { not: null }, deletedAt: null } },
+    select: { eventId: true },
+  });
+
+  return {
+    OR: [
+      { userId, ...(calendarIds && { calendarId: { in: calendarIds } }) },
+      { userId: { not: userId }, attendees: { some: { userId } } },
+      { userId: { not: userId }, recurrenceId: { in: invitedSeries.map(a => a.eventId) } },
+    ],
+  };
+};
+
+// Nested create that copies attendees (and their responses) onto another event, e.g. a new exception.
+export const copyAttendees = (attendees: Attendee[]) => ({
+  create: attendees.map(({ email, userId, role, status }) => ({ email, userId, role, status })),
+});
@@ -0,0 +1,316 @@
+import { Calendar, Event, Prisma } from '@prisma/client';
+import { createHash, randomUUID } from 'crypto';
+import prisma from '../lib/prisma';
+import { Conflict, findConflicts } from './conflictService';
+import { eventUid, IcsParseError, ParsedVEvent, parseCalendar, serializeCalendar } from './icsService';
+import { UNTITLED } from './importService';
+import { invalidRule, ownDetail, parseRule, seriesEndOf, windowFilter } from './recurrenceService';
+
+export const DAV_NS = 'DAV:';
+export const CALDAV_NS = 'urn:ietf:params:xml:ns:caldav';
+// Used by Apple and most other clients for the collection tag (getctag) and the calendar color.
+export const CALENDARSERVER_NS = 'http://calendarserver.org/ns/';
+export const APPLE_ICAL_NS = 'http://apple.com/ns/ical/';
+
+/**
+ * A calendar object resource: a single event, or a series master together with its exceptions,
+ * which CalDAV keeps in one .ics file (RFC 4791, section 4.1).
+ */
+export interface DavResource {
+  event: Event;
+  exceptions: Event[];
+}
+
+// The VEVENTs of an uploaded resource: the event or master, and the occurrences it overrides.
+export interface ResourceContent {
+  uid: string;
+  base: ParsedVEvent;
+  overrides: ParsedVEvent[];
+}
+
+// Thrown inside a write's transaction when the resource changed since it was read.
+export class StaleResourceError extends Error {}
+
+export const resourceName = (event: Event): string => event.davName ?? `${eventUid(event)}.ics`;
+
+const liveResources = (userId: string, calendarId: string): Prisma.EventWhereInput =>
+  ({ userId, calendarId, recurrenceId: null, deletedAt: null });
+
+const withExceptions = async (events: Event[]): Promise<DavResource[]> => {
+  const masterIds = events.filter(e => e.rrule).map(e => e.id);
+  const exceptions = masterIds.length > 0
+    ? await prisma.event.findMany({ where: { recurrenceId: { in: masterIds }, deletedAt: null }, orderBy: { originalStartTime: 'asc' } })
+    : [];
+  return events.map(event => ({
+    event,
+    exceptions: event.rrule ? exceptions.filter(ex => ex.recurrenceId === event.id) : [],
+  }));
+};
+
+// Events created in the app have no stored name, so they are found by the name they are listed under.
+export const findResource = async (userId: string, calendarId: string, name: string): Promise<DavResource | null> => {
+  const uid = name.endsWith('.ics') ? name.slice(0, -'.ics'.length) : null;
+  const event = await prisma.event.findFirst({
+    where: {
+      ...liveResources(userId, calendarId),
+      OR: [
+        { davName: name },
+        ...(uid ? [{ davName: null, uid }, { davName: null, uid: null, id: uid }] : []),
+      ],
+    },
+  });
+  if (!event) return null;
+  const [resource] = await withExceptions([event]);
+  return resource;
+};
+
+/**
+ * The resources of a calendar, or those with an occurrence in [start, end) when a range is given
+ * (either end may be open). Masters are matched on their rule; an exception moved into the range
+ * from outside it does not make its series match.
+ */
+export const listResources = async (
+  userId: string,
+  calendarId: string,
+  range?: { start?: Date; end?: Date },
+): Promise<DavResource[]> => {
+  if (!range) {
+    return withExceptions(await prisma.event.findMany({ where: liveResources(userId, calendarId), orderBy: { startTime: 'asc' } }));
+  }
+
+  const start = range.start ?? new Date(0);
+  const end = range.end ?? new Date(8.64e15);
+  const rows = await prisma.event.findMany({ where: { ...windowFilter(start, end), userId, calendarId } });
+  const withExceptionInRange = new Set(rows.filter(e => e.recurrenceId).map(e => e.recurrenceId!));
+  return withExceptions(rows.filter(e =>
+    !e.recurrenceId && (!e.rrule || withExceptionInRange.has(e.id) || parseRule(e).between(start, end, true, 1).length > 0),
+  ));
+};
+
+export const serializeResource = ({ event, exceptions }: DavResource): string =>
+  serializeCalendar([event, ...exceptions], null);
+
+// Changes whenever any row of the resource is written, added or removed.
+export const resourceEtag = ({ event, exceptions }: DavResource): string => {
+  const hash = createHash('sha1');
+  for (const row of [event, ...exceptions].sort((a, b) => a.id.localeCompare(b.id))) {
+    hash.update(`${row.id}:${row.updatedAt.getTime()};`);
+  }
+  return `"${hash.digest('hex')}"`;
+};
+
+export const resourceLastModified = ({ event, exceptions }: DavResource): Date =>
+  new Date(Math.max(...[event, ...exceptions].map(row => row.updatedAt.getTime())));
+
+/**
+ * The collection tag clients poll to find out whether anything in a calendar changed. Trashing an
+ * event updates its row and purging one lowers the count, so trashed rows are counted too.
+ */
+export const calendarCtag = async (calendar: Calendar): Promise<string> => {
+  const { _count, _max } = await prisma.event.aggregate({ where: { calendarId: calendar.id }, _count: true, _max: { updatedAt: true } });
+  return `"${calendar.updatedAt.getTime()}-${_count}-${_max.updatedAt?.getTime() ?? 0}"`;
+};
+
+/**
+ * Checks an uploaded resource against what the event model can hold: one UID, exactly one VEVENT
+ * without a RECURRENCE-ID, overrides only for a recurring event, and valid times and rules.
+ */
+export const parseResource = (text: string): ResourceContent => {
+  const vevents = parseCalendar(text);
+  const uid = vevents[0]?.uid;
+  if (!uid) {
+    throw new IcsParseError('The resource has no VEVENT');
+  }
+  if (vevents.some(v => v.uid !== uid)) {
+    throw new IcsParseError('All VEVENTs of a resource must share one UID');
+  }
+
+  const bases = vevents.filter(v => !v.recurrenceId);
+  const overrides = vevents.filter(v => v.recurrenceId);
+  if (bases.length !== 1) {
+    throw new IcsParseError('The resource must have exactly one VEVENT without a RECURRENCE-ID');
+  }
+  const [base] = bases;
+  if (!base.rrule && (overrides.length > 0 || base.exdates.length > 0)) {
+    throw new IcsParseError('Only recurring events can have overridden or excluded occurrences');
+  }
+  const ruleError = invalidRule(base.rrule);
+  if (ruleError) {
+    throw new IcsParseError(ruleError);
+  }
+  for (const vevent of [base, ...overrides.filter(v => !v.isCancelled)]) {
+    if (vevent.startTime >= vevent.endTime) {
+      throw new IcsParseError('End time must be after start time');
+    }
+  }
+
+  return { uid, base, overrides };
+};
+
+// Whether another live series or single event of the user already goes by `uid`.
+export const isUidTaken = async (userId: string, uid: string, exceptId?: string): Promise<boolean> =>
+  !!(await prisma.event.findFirst({
+    where: {
+      userId,
+      recurrenceId: null,
+      deletedAt: null,
+      OR: [{ uid }, { uid: null, id: uid }],
+      ...(exceptId ? { NOT: { id: exceptId } } : {}),
+    },
+  }));
+
+interface ExceptionData {
+  title: string;
+  description: string | null;
+  location: string | null;
+  url: string | null;
+  startTime: Date;
+  endTime: Date;
+  timeZone: string | null;
+  allDay: boolean;
+  originalStartTime: Date;
+  isCancelled: boolean;
+}
+
+const sameTime = (a: Date | null, b: Date | null): boolean => a?.getTime() === b?.getTime();
+
+// The conflicts writing `content` over `existing` would cause. Cancelled occurrences free up time.
+export const resourceConflicts = async (userId: string, content: ResourceContent, existing: DavResource | null): Promise<Conflict[]> => {
+  const { base } = content;
+  const conflicts = await findConflicts(userId, base, existing ? { eventId: existing.event.id } : {});
+  if (conflicts.length > 0) return conflicts;
+
+  for (const override of content.overrides.filter(v => !v.isCancelled)) {
+    const replaced = existing?.exceptions.find(ex => sameTime(ex.originalStartTime, override.recurrenceId));
+    const found = await findConflicts(
+      userId,
+      { startTime: override.startTime, endTime: override.endTime, timeZone: base.timeZone, allDay: base.allDay },
+      replaced
+        ? { eventId: replaced.id }
+        : existing ? { occurrence: { masterId: existing.event.id, originalStartTime: override.recurrenceId! } } : {},
+    );
+    if (found.length > 0) return found;
+  }
+  return [];
+};
+
+/**
+ * Writes `content` as the resource `name` of a calendar, mapping it onto the event model like an
+ * import: the base VEVENT becomes the single event or master, EXDATEs cancelled exceptions and
+ * RECURRENCE-ID overrides modified (or cancelled) ones. The upload replaces the whole resource, so
+ * exceptions it no longer has are moved to the trash. Validation and conflict checks are up to the
+ * caller. Every row of `existing` is only written if it is still the version read, and nothing may
+ * have been added to it meanwhile; otherwise StaleResourceError is thrown. Returns the id of the event.
+ */
+export const writeResource = async (
+  userId: string,
+  calendarId: string,
+  name: string,
+  content: ResourceContent,
+  existing: DavResource | null,
+): Promise<string> => {
+  const { base } = content;
+  const id = existing?.event.id ?? randomUUID();
+  const data = {
+    title: base.title || UNTITLED,
+    description: base.description,
+    location: base.location,
+    url: base.url,
+    startTime: base.startTime,
+    endTime: base.endTime,
+    timeZone: base.timeZone,
+    allDay: base.allDay,
+    rrule: base.rrule,
+    seriesEnd: seriesEndOf(base),
+  };
+
+  // Keyed by the occurrence they replace; an EXDATE wins over an override of the same occurrence.
+  // Exceptions keep their series' zone and all-day flag.
+  const duration = base.endTime.getTime() - base.startTime.getTime();
+  const exceptions = new Map<number, ExceptionData>();
+  for (const v of content.overrides) {
+    exceptions.set(v.recurrenceId!.getTime(), {
+      title: v.title || UNTITLED,
+      // Clients send overrides with the series' details; those are inherited rather than copied.
+      description: ownDetail(v.description, base.description),
+      location: ownDetail(v.location, base.location),
+      url: ownDetail(v.url, base.url),
+      startTime: v.startTime,
+      endTime: v.endTime,
+      timeZone: base.timeZone,
+      allDay: base.allDay,
+      originalStartTime: v.recurrenceId!,
+      isCancelled: v.isCancelled,
+    });
+  }
+  for (const date of base.exdates) {
+    exceptions.set(date.getTime(), {
+      title: data.title,
+      description: null,
+      location: null,
+      url: null,
+      startTime: date,
+      endTime: new Date(date.getTime() + duration),
+      timeZone: base.timeZone,
+      allDay: base.allDay,
+      originalStartTime: date,
+      isCancelled: true,
+    });
+  }
+
+  // Exceptions the upload no longer has go into the trash, all with the same timestamp.
+  const deletedAt = new Date();
+  const existingByStart = new Map(existing?.exceptions.map(ex => [ex.originalStartTime!.getTime(), ex]));
+
+  await prisma.$transaction(async tx => {
+    if (existing) {
+      await writeIfUnchanged(tx, existing.event, { ...data, version: { increment: 1 } });
+    } else {
+      // A trashed copy gives up its UID, which has to stay unique.
+      await tx.event.updateMany({ where: { userId, uid: content.uid, deletedAt: { not: null } }, data: { uid: null } });
+      await tx.event.create({ data: { id, uid: content.uid, davName: name, userId, calendarId, ...data } });
+    }
+
+    const writtenIds: string[] = [];
+    for (const [start, exception] of exceptions) {
+      const replaced = existingByStart.get(start);
+      if (replaced) {
+        await writeIfUnchanged(tx, replaced, { ...exception, version: { increment: 1 } });
+        writtenIds.push(replaced.id);
+      } else {
+        writtenIds.push((await tx.event.create({ data: { ...exception, recurrenceId: id, userId, calendarId } })).id);
+      }
+    }
+    for (const ex of existing?.exceptions.filter(ex => !writtenIds.includes(ex.id)) ?? []) {
+      await writeIfUnchanged(tx, ex, { deletedAt });
+    }
+    await checkNothingAdded(tx, id, writtenIds);
+  });
+  return id;
+};
+
+/**
+ * Moves a resource to the trash, a series together with its exceptions, all with one timestamp.
+ * Throws StaleResourceError if any of it changed since it was read.
+ */
+export const trashResource = ({ event, exceptions }: DavResource): Promise<void> =>
+  prisma.$transaction(async tx => {
+    const deletedAt = new Date();
+    for (const row of [event, ...exceptions]) {
+      await writeIfUnchanged(tx, row, { deletedAt });
+    }
+    await checkNothingAdded(tx, event.id, exceptions.map(ex => ex.id));
+  });
+
+// Writes a row of a resource, unless it changed or went to the trash since it was read.
+const writeIfUnchanged = async (tx: Prisma.TransactionClient, row: Event, data: Prisma.EventUpdateManyMutationInput): Promise<void> => {
+  const { count } = await tx.event.updateMany({ where: { id: row.id, version: row.version, deletedAt: null }, data });
+  if (count === 0) throw new StaleResourceError();
+};
+
+// Throws if the series gained an exception other than `knownIds` since the resource was read.
+const checkNothingAdded = async (tx: Prisma.TransactionClient, masterId: string, knownIds: string[]): Promise<void> => {
+  if (await tx.event.count({ where: { recurrenceId: masterId, deletedAt: null, id: { notIn: knownIds } } }) > 0) {
+    throw new StaleResourceError();
+  }
+};
@@ -0,0 +1,26 @@
+import prisma from '../lib/prisma';
+
+// Used when events are written without a calendar and none exists yet.
+const DEFAULT_CALENDAR = { name: 'My Calendar', color: '#3b82f6' };
+
+export const isValidColor = (color: unknown): color is string =>
+  typeof color === 'string' && /^#[0-9a-fA-F]{6}$/.test(color);
+
+/**
+ * Returns the id of the user's calendar an event should be written to. A requested calendar must
+ * exist and belong to the user (null otherwise); without one, the user's oldest calendar is used,
+ * creating it on first use.
+ */
+export const resolveCalendarId = async (userId: string, calendarId?: unknown): Promise<string | null> => {
+  if (calendarId !== undefined && calendarId !== null && calendarId !== '') {
+    if (typeof calendarId !== 'string') return null;
+    const calendar = await prisma.calendar.findFirst({ where: { id: calendarId, userId }, select: { id: true } });
+    return calendar?.id ?? null;
+  }
+
+  const fallback = await prisma.calendar.findFirst({ where: { userId }, orderBy: { createdAt: 'asc' }, select: { id: true } });
+  if (fallback) return fallback.id;
+
+  const created = await prisma.calendar.create({ data: { ...DEFAULT_CALENDAR, userId } });
+  return created.id;
+};
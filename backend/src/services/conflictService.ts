@@ -0,0 +1,175 @@
+import { Event } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { buildRule, occurrenceKey, parseRule } from './recurrenceService';
+
+// How far ahead a proposed recurring series is checked when no env override is set.
+const DEFAULT_HORIZON_DAYS = 365;
+// Hard cap on the number of proposed occurrences, so a very dense rule cannot stall a request.
+const MAX_PROPOSED_OCCURRENCES = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The time (and optional series) being written.
+export interface ConflictCandidate {
+  startTime: Date;
+  endTime: Date;
+  rrule?: string | null;
+  timeZone?: string | null;
+  allDay?: boolean;
+}
+
+// Things the candidate is allowed to overlap because it replaces them.
+export interface ConflictExclusions {
+  // The row being updated. If it is a master, its whole series (and exceptions) is excluded.
+  eventId?: string;
+  // The occurrence an exception is being created for.
+  occurrence?: { masterId: string; originalStartTime: Date };
+}
+
+export interface Conflict {
+  eventId: string;
+  masterId: string | null;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  // The occurrence of the candidate that collides with this event.
+  proposedStartTime: Date;
+  proposedEndTime: Date;
+}
+
+interface Interval {
+  start: Date;
+  end: Date;
+}
+
+interface BusyInterval extends Interval {
+  eventId: string;
+  masterId: string | null;
+  title: string;
+}
+
+export const getConflictHorizonDays = (): number => {
+  const days = Number(process.env.CONFLICT_HORIZON_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_HORIZON_DAYS;
+};
+
+// Every occurrence of the candidate within the configured horizon. A single event is just itself.
+const expandCandidate = (candidate: ConflictCandidate): Interval[] => {
+  const duration = candidate.endTime.getTime() - candidate.startTime.getTime();
+  if (!candidate.rrule) {
+    return [{ start: candidate.startTime, end: candidate.endTime }];
+  }
+
+  const horizonEnd = new Date(candidate.startTime.getTime() + getConflictHorizonDays() * DAY_MS);
+  const rule = buildRule(candidate.rrule, candidate.startTime, candidate.timeZone);
+  const starts = rule.between(candidate.startTime, horizonEnd, true, MAX_PROPOSED_OCCURRENCES);
+
+  return starts.map(start => ({ start, end: new Date(start.getTime() + duration) }));
+};
+
+// Concrete busy intervals of everything already stored that could overlap [rangeStart, rangeEnd).
+const loadBusyIntervals = async (userId: string, rangeStart: Date, rangeEnd: Date, exclude: ConflictExclusions): Promise<BusyInterval[]> => {
+  const rows = await prisma.event.findMany({
+    where: {
+      userId,
+      isCancelled: false,
+      allDay: false,
+      deletedAt: null,
+      OR: [
+        // Single events and modified exceptions occupy their own stored time.
+        {
+          rrule: null,
+          startTime: { lt: rangeEnd },
+          endTime: { gt: rangeStart },
+        },
+        // Masters that start before the range ends may have occurrences inside it.
+        {
+          rrule: { not: null },
+          startTime: { lt: rangeEnd },
+        },
+      ],
+    },
+  });
+
+  const masters = rows.filter(e => e.rrule && !isExcludedRow(e, exclude));
+
+  // Any exception (cancelled or modified) replaces the generated occurrence it points at.
+  const replaced = new Set<string>();
+  if (masters.length > 0) {
+    const exceptionRows = await prisma.event.findMany({
+      where: { recurrenceId: { in: masters.map(m => m.id) }, deletedAt: null },
+      select: { recurrenceId: true, originalStartTime: true },
+    });
+    exceptionRows
+      .filter(ex => ex.originalStartTime)
+      .forEach(ex => replaced.add(occurrenceKey(ex.recurrenceId!, ex.originalStartTime!)));
+  }
+  if (exclude.occurrence) {
+    replaced.add(occurrenceKey(exclude.occurrence.masterId, exclude.occurrence.originalStartTime));
+  }
+
+  const busy: BusyInterval[] = rows
+    .filter(e => !e.rrule && !isExcludedRow(e, exclude))
+    .map(e => ({ eventId: e.id, masterId: e.recurrenceId, title: e.title, start: e.startTime, end: e.endTime }));
+
+  for (const master of masters) {
+    const duration = master.endTime.getTime() - master.startTime.getTime();
+    // Start early by one duration so occurrences that began before the range but run into it are caught.
+    const occurrences = parseRule(master).between(new Date(rangeStart.getTime() - duration), rangeEnd);
+
+    for (const occurrenceDate of occurrences) {
+      if (replaced.has(occurrenceKey(master.id, occurrenceDate))) continue;
+      busy.push({
+        eventId: master.id,
+        masterId: master.id,
+        title: master.title,
+        start: occurrenceDate,
+        end: new Date(occurrenceDate.getTime() + duration),
+      });
+    }
+  }
+
+  return busy;
+};
+
+const isExcludedRow = (event: Event, exclude: ConflictExclusions): boolean =>
+  !!exclude.eventId && (event.id === exclude.eventId || event.recurrenceId === exclude.eventId);
+
+/**
+ * Checks a proposed event (or every occurrence of a proposed series within the horizon)
+ * against the user's stored single events, exceptions and the expanded occurrences of every master.
+ * Cancelled occurrences are not considered busy, and neither are all-day events, which mark
+ * days (holidays, trips) rather than occupy time.
+ */
+export const findConflicts = async (userId: string, candidate: ConflictCandidate, exclude: ConflictExclusions = {}): Promise<Conflict[]> => {
+  if (candidate.allDay) return [];
+
+  const proposed = expandCandidate(candidate);
+  if (proposed.length === 0) return [];
+
+  const rangeStart = proposed[0].start;
+  const rangeEnd = proposed[proposed.length - 1].end;
+  const busy = await loadBusyIntervals(userId, rangeStart, rangeEnd, exclude);
+  busy.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const conflicts: Conflict[] = [];
+  for (const slot of proposed) {
+    for (const interval of busy) {
+      // Busy intervals are sorted by start, so nothing after this one can overlap.
+      if (interval.start >= slot.end) break;
+      if (interval.end <= slot.start) continue;
+
+      conflicts.push({
+        eventId: interval.eventId,
+        masterId: interval.masterId,
+        title: interval.title,
+        startTime: interval.start,
+        endTime: interval.end,
+        proposedStartTime: slot.start,
+        proposedEndTime: slot.end,
+      });
+    }
+  }
+
+  return conflicts;
+};
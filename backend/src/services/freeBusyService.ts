@@ -0,0 +1,193 @@
+import prisma from '../lib/prisma';
+import { normalizeEmail } from '../lib/email';
+import { utcToZonedTime, zonedTimeToUtc } from '../lib/timeZone';
+import { expandEvents, windowFilter } from './recurrenceService';
+import { visibleEventsFilter } from './attendeeService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Occurrences are expanded from a day before the window, so ones that run into it still count.
+const LOOKBEHIND_MS = DAY_MS;
+// Invitations only block time once the invitee said they will (or might) attend.
+const BUSY_STATUSES = ['accepted', 'tentative'];
+// Free time next to a slot, up to this much on either side, makes it rank higher.
+const PREFERRED_BUFFER_MS = 30 * 60 * 1000;
+
+export interface Interval {
+  start: Date;
+  end: Date;
+}
+
+export interface Slot extends Interval {
+  // 0..1, higher is better. See findFreeSlots.
+  score: number;
+}
+
+// Whose time is looked at: a user, or only some calendars of the requesting user.
+export interface BusySource {
+  userId: string;
+  calendarIds?: string[];
+}
+
+export interface WorkingHours {
+  // Minutes after local midnight.
+  startMinute: number;
+  endMinute: number;
+  // 0 = Sunday ... 6 = Saturday, in `timeZone`.
+  days: number[];
+  timeZone: string;
+}
+
+export interface SlotSearch {
+  windowStart: Date;
+  windowEnd: Date;
+  durationMs: number;
+  granularityMs: number;
+  workingHours: WorkingHours;
+  limit: number;
+}
+
+// Thrown for calendars in a request that do not exist (or are not the requester's).
+export class FreeBusyInputError extends Error {}
+
+/**
+ * The accounts among `userIds` whose busy time the requester may see: their own, those of people
+ * they share an event with (as organizer or attendee), and those that share it with everyone.
+ */
+const visibleBusyUserIds = async (requesterId: string, userIds: string[]): Promise<Set<string>> => {
+  const sharedEvent = { deletedAt: null, OR: [{ userId: requesterId }, { attendees: { some: { userId: requesterId } } }] };
+  const [attending, organizing, sharing] = await Promise.all([
+    prisma.attendee.findMany({ where: { userId: { in: userIds }, event: sharedEvent }, select: { userId: true } }),
+    prisma.event.findMany({
+      where: { userId: { in: userIds }, deletedAt: null, attendees: { some: { userId: requesterId } } },
+      select: { userId: true },
+      distinct: ['userId'],
+    }),
+    prisma.user.findMany({ where: { id: { in: userIds }, shareFreeBusy: true }, select: { id: true } }),
+  ]);
+  return new Set([
+    requesterId,
+    ...attending.flatMap(a => (a.userId ? [a.userId] : [])),
+    ...organizing.flatMap(e => (e.userId ? [e.userId] : [])),
+    ...sharing.map(u => u.id),
+  ]);
+};
+
+/**
+ * Turns the `users` (ids or emails) and `calendarIds` of a request into busy sources. Calendars
+ * must belong to the requester. Users who have no account or do not let the requester see their
+ * time are left out without an error, so the answer is the same as for an account that is free
+ * and cannot be used to find out who has one. Without either, the requester's own time is used.
+ */
+export const resolveBusySources = async (requesterId: string, users?: string[], calendarIds?: string[]): Promise<BusySource[]> => {
+  const sources: BusySource[] = [];
+
+  if (calendarIds && calendarIds.length > 0) {
+    const owned = await prisma.calendar.count({ where: { id: { in: calendarIds }, userId: requesterId } });
+    if (owned !== new Set(calendarIds).size) {
+      throw new FreeBusyInputError('Calendar not found');
+    }
+    sources.push({ userId: requesterId, calendarIds });
+  }
+
+  if (users && users.length > 0) {
+    const found = await prisma.user.findMany({
+      where: { OR: [{ id: { in: users } }, { email: { in: users.map(normalizeEmail) } }] },
+      select: { id: true },
+    });
+    const visible = await visibleBusyUserIds(requesterId, found.map(f => f.id));
+    for (const match of found.filter(f => visible.has(f.id))) {
+      if (!sources.some(s => s.userId === match.id && !s.calendarIds)) {
+        sources.push({ userId: match.id });
+      }
+    }
+    return sources;
+  }
+
+  return sources.length > 0 ? sources : [{ userId: requesterId }];
+};
+
+// Concrete busy intervals of one source inside the window, clipped to it. All-day events never count.
+const loadBusy = async (source: BusySource, windowStart: Date, windowEnd: Date): Promise<Interval[]> => {
+  const expandStart = new Date(windowStart.getTime() - LOOKBEHIND_MS);
+  const visible = source.calendarIds
+    ? { userId: source.userId, calendarId: { in: source.calendarIds } }
+    : await visibleEventsFilter(source.userId);
+
+  const rows = await prisma.event.findMany({
+    where: { AND: [windowFilter(expandStart, windowEnd), visible, { allDay: false }] },
+    include: { attendees: true },
+  });
+
+  return expandEvents(rows, expandStart, windowEnd)
+    .filter(e => e.userId === source.userId ||
+      e.attendees.some(a => a.userId === source.userId && BUSY_STATUSES.includes(a.status)))
+    .filter(e => e.startTime < windowEnd && e.endTime > windowStart)
+    .map(e => ({
+      start: e.startTime < windowStart ? windowStart : e.startTime,
+      end: e.endTime > windowEnd ? windowEnd : e.endTime,
+    }));
+};
+
+// Sorts intervals and joins the ones that overlap or touch.
+export const mergeIntervals = (intervals: Interval[]): Interval[] => {
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+};
+
+// Merged busy time of every source, with recurring series expanded like GET /events does.
+export const getBusyIntervals = async (sources: BusySource[], windowStart: Date, windowEnd: Date): Promise<Interval[]> => {
+  const perSource = await Promise.all(sources.map(source => loadBusy(source, windowStart, windowEnd)));
+  return mergeIntervals(perSource.flat());
+};
+
+/**
+ * Free slots of the given length inside working hours, starting on the granularity grid
+ * (counted from the start of each working day). Slots are ranked by how much free time
+ * surrounds them, up to PREFERRED_BUFFER_MS on either side, so back-to-back meetings are
+ * avoided where possible; ties go to the earliest slot.
+ */
+export const findFreeSlots = (busy: Interval[], search: SlotSearch): Slot[] => {
+  const { windowStart, windowEnd, durationMs, granularityMs, workingHours } = search;
+  const { timeZone } = workingHours;
+  const slots: Slot[] = [];
+
+  // Walk local calendar days; `day` holds local midnight in its UTC slots.
+  const firstLocal = utcToZonedTime(windowStart, timeZone);
+  let day = Date.UTC(firstLocal.getUTCFullYear(), firstLocal.getUTCMonth(), firstLocal.getUTCDate());
+
+  while (zonedTimeToUtc(new Date(day), timeZone) < windowEnd) {
+    if (workingHours.days.includes(new Date(day).getUTCDay())) {
+      const workStart = zonedTimeToUtc(new Date(day + workingHours.startMinute * 60_000), timeZone).getTime();
+      const workEnd = zonedTimeToUtc(new Date(day + workingHours.endMinute * 60_000), timeZone).getTime();
+      const from = Math.max(workStart, windowStart.getTime());
+      const to = Math.min(workEnd, windowEnd.getTime());
+
+      for (let t = workStart + Math.ceil((from - workStart) / granularityMs) * granularityMs; t + durationMs <= to; t += granularityMs) {
+        const slotEnd = t + durationMs;
+        if (busy.some(b => b.start.getTime() < slotEnd && b.end.getTime() > t)) continue;
+
+        const previousEnd = Math.max(workStart, ...busy.filter(b => b.end.getTime() <= t).map(b => b.end.getTime()));
+        const nextStart = Math.min(workEnd, ...busy.filter(b => b.start.getTime() >= slotEnd).map(b => b.start.getTime()));
+        // The edge of the working day counts as free space.
+        const before = previousEnd === workStart ? PREFERRED_BUFFER_MS : Math.min(t - previousEnd, PREFERRED_BUFFER_MS);
+        const after = nextStart === workEnd ? PREFERRED_BUFFER_MS : Math.min(nextStart - slotEnd, PREFERRED_BUFFER_MS);
+
+        slots.push({ start: new Date(t), end: new Date(slotEnd), score: (before + after) / (2 * PREFERRED_BUFFER_MS) });
+      }
+    }
+    day += DAY_MS;
+  }
+
+  return slots
+    .sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime())
+    .slice(0, search.limit);
+};
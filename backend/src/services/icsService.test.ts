@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { IcsParseError, InvalidVEvent, parseCalendar } from './icsService';
+
+const calendar = (...vevents: string[][]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...vevents.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+
+const good = ['UID:good', 'SUMMARY:Standup', 'DTSTART:20261019T090000Z', 'DTEND:20261019T093000Z'];
+const badDate = ['UID:bad', 'SUMMARY:Broken', 'DTSTART:20261019T25', 'DTEND:20261019T093000Z'];
+
+describe('parseCalendar', () => {
+  it('reports VEVENTs that cannot be read and keeps the others', () => {
+    const invalid: InvalidVEvent[] = [];
+    const events = parseCalendar(calendar(badDate, good, ['SUMMARY:No UID', 'DTSTART:20261019T090000Z']), invalid);
+    expect(events.map(e => e.uid)).toEqual(['good']);
+    expect(invalid).toEqual([
+      { uid: 'bad', title: 'Broken', reason: 'Invalid date: 20261019T25' },
+      { uid: '', title: 'No UID', reason: 'VEVENT without a UID' },
+    ]);
+  });
+
+  it('throws for a VEVENT that cannot be read when there is nowhere to report it', () => {
+    expect(() => parseCalendar(calendar(good, badDate))).toThrow(IcsParseError);
+  });
+
+  it('keeps RDATEs in the rule of a series', () => {
+    const [event] = parseCalendar(calendar([...good, 'RRULE:FREQ=WEEKLY;COUNT=3', 'RDATE;TZID=Europe/Berlin:20261022T110000']));
+    expect(event.rrule).toBe('RRULE:FREQ=WEEKLY;COUNT=3\nRDATE;TZID=Europe/Berlin:20261022T110000');
+  });
+
+  it('reports RDATEs on an event that does not repeat', () => {
+    const invalid: InvalidVEvent[] = [];
+    expect(parseCalendar(calendar([...good, 'RDATE:20261022T090000Z']), invalid)).toEqual([]);
+    expect(invalid[0].reason).toBe('RDATE without an RRULE is not supported');
+  });
+});
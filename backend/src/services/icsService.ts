@@ -0,0 +1,388 @@
+import { Event } from '@prisma/client';
+import { isValidTimeZone, utcToZonedTime, zonedTimeToUtc } from '../lib/timeZone';
+import { isHttpUrl } from '../lib/url';
+import { inheritDetails } from './recurrenceService';
+
+// RFC 5545 lines are limited to 75 octets; longer ones are folded with CRLF + a single space.
+const MAX_LINE_OCTETS = 75;
+const PRODID = '-//Zenith Calendar//Calendar Management System//EN';
+
+// 20260105T090000Z — the UTC DATE-TIME form.
+export const formatIcsDate = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * A date property of an event: "NAME;VALUE=DATE:20260105" for all-day events,
+ * "NAME;TZID=Europe/Berlin:20260105T100000" for events with a zone, so other clients keep a series
+ * on local time across DST too, and the UTC form otherwise.
+ * No VTIMEZONE is emitted; calendar clients resolve IANA zone names themselves.
+ */
+const dateProperty = (name: string, date: Date, event: Pick<Event, 'timeZone' | 'allDay'>): string => {
+  if (event.allDay) {
+    return `${name};VALUE=DATE:${formatIcsDate(date).slice(0, 8)}`;
+  }
+  return event.timeZone
+    ? `${name};TZID=${event.timeZone}:${formatIcsDate(utcToZonedTime(date, event.timeZone)).slice(0, -1)}`
+    : `${name}:${formatIcsDate(date)}`;
+};
+
+// Escapes a TEXT value (backslash, semicolon, comma and newlines).
+export const escapeIcsText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their length.
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+// The UID a series is known by outside this app. Imported events keep the UID they came with.
+export const eventUid = (event: Event): string => event.uid ?? event.id;
+
+/**
+ * Stored rules may be a bare "FREQ=..." value or the multi-line form produced by rrule's toString()
+ * ("DTSTART:...\nRRULE:..."). DTSTART is always written from the event itself, so only the RRULE
+ * (and any EXDATE/RDATE lines) are kept.
+ */
+export const ruleLines = (rrule: string): string[] =>
+  rrule
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('DTSTART'))
+    .map(line => (/^[A-Z-]+[:;]/.test(line) ? line : `RRULE:${line}`));
+
+const veventLines = (event: Event, uid: string, stamp: string): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    `CREATED:${formatIcsDate(event.createdAt)}`,
+    `LAST-MODIFIED:${formatIcsDate(event.updatedAt)}`,
+    dateProperty('DTSTART', event.startTime, event),
+    dateProperty('DTEND', event.endTime, event),
+    `SUMMARY:${escapeIcsText(event.title)}`,
+  ];
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  }
+  // A URI value, which is not escaped like text.
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+  return lines;
+};
+
+/**
+ * Serializes events into a VCALENDAR. Masters become VEVENTs carrying their RRULE, cancelled
+ * exceptions become EXDATEs on their master, and modified exceptions become VEVENTs that share
+ * the master's UID and carry a RECURRENCE-ID. CalDAV resources must not carry a METHOD, so `method`
+ * can be null.
+ */
+export const serializeCalendar = (events: Event[], method: string | null = 'PUBLISH'): string => {
+  const stamp = formatIcsDate(new Date());
+  const masters = new Map(events.filter(e => e.rrule).map(e => [e.id, e]));
+  const exceptionsByMaster = new Map<string, Event[]>();
+
+  events
+    .filter(e => e.recurrenceId && e.originalStartTime)
+    .forEach(ex => {
+      const list = exceptionsByMaster.get(ex.recurrenceId!) ?? [];
+      list.push(ex);
+      exceptionsByMaster.set(ex.recurrenceId!, list);
+    });
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+  ];
+  if (method) {
+    lines.push(`METHOD:${method}`);
+  }
+
+  for (const event of events) {
+    // Exceptions are written together with their master below.
+    if (event.recurrenceId) continue;
+
+    lines.push(...veventLines(event, eventUid(event), stamp));
+
+    if (!event.rrule) {
+      lines.push('END:VEVENT');
+      continue;
+    }
+
+    const exceptions = exceptionsByMaster.get(event.id) ?? [];
+    lines.push(...ruleLines(event.rrule));
+    exceptions
+      .filter(ex => ex.isCancelled)
+      .forEach(ex => lines.push(dateProperty('EXDATE', ex.originalStartTime!, event)));
+    lines.push('END:VEVENT');
+
+    // An override VEVENT stands on its own, so it carries the details it inherits.
+    for (const ex of exceptions.filter(ex => !ex.isCancelled)) {
+      lines.push(...veventLines(inheritDetails(ex, event), eventUid(event), stamp));
+      lines.push(dateProperty('RECURRENCE-ID', ex.originalStartTime!, event));
+      lines.push('END:VEVENT');
+    }
+  }
+
+  // Modified exceptions whose master is not part of this export still identify their series.
+  for (const [masterId, exceptions] of exceptionsByMaster) {
+    if (masters.has(masterId)) continue;
+    for (const ex of exceptions.filter(ex => !ex.isCancelled)) {
+      lines.push(...veventLines(ex, masterId, stamp));
+      lines.push(dateProperty('RECURRENCE-ID', ex.originalStartTime!, ex));
+      lines.push('END:VEVENT');
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// --- Parsing ---
+
+// Thrown for input that is not an iCalendar file, and for a VEVENT the event model cannot hold.
+export class IcsParseError extends Error {}
+
+// A VEVENT that could not be read, with what was wrong with it.
+export interface InvalidVEvent {
+  uid: string;
+  title: string;
+  reason: string;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface ParsedVEvent {
+  uid: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+  url: string | null;
+  startTime: Date;
+  endTime: Date;
+  // The IANA zone of DTSTART, if it named one this server knows.
+  timeZone: string | null;
+  // DTSTART is a plain DATE.
+  allDay: boolean;
+  rrule: string | null;
+  exdates: Date[];
+  // Set on VEVENTs that override a single occurrence of a series.
+  recurrenceId: Date | null;
+  isCancelled: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const unescapeIcsText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Splits "NAME;PARAM=a;PARAM2=\"b:c\":value", honouring quoted parameter values.
+const parseContentLine = (line: string): IcsProperty => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) {
+    throw new IcsParseError(`Malformed line: ${line}`);
+  }
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+/**
+ * Parses a DATE or DATE-TIME value. UTC ("Z") and TZID-qualified times become the instant they
+ * denote; floating times and unknown (e.g. Windows) zone names are taken as UTC. Dates are midnight UTC.
+ */
+const parseIcsDate = (value: string, params: Record<string, string>): Date => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) {
+    throw new IcsParseError(`Invalid date: ${value}`);
+  }
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match;
+  const wallClock = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+  const timeZone = params.TZID;
+
+  if (!utc && timeZone && isValidTimeZone(timeZone)) {
+    return zonedTimeToUtc(wallClock, timeZone);
+  }
+  return wallClock;
+};
+
+const isDateOnly = (property: IcsProperty): boolean =>
+  property.params.VALUE === 'DATE' || /^\d{8}$/.test(property.value.trim());
+
+// Parses a DURATION such as "PT1H30M" or "P1W" into milliseconds.
+const parseDuration = (value: string): number => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) {
+    throw new IcsParseError(`Invalid duration: ${value}`);
+  }
+  const [, sign, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const ms = ((+weeks * 7 + +days) * 24 * 3600 + +hours * 3600 + +minutes * 60 + +seconds) * 1000;
+  return sign === '-' ? -ms : ms;
+};
+
+// Writes a property back as a content line, e.g. an RDATE that goes into the stored rule.
+const formatProperty = ({ name, params, value }: IcsProperty): string =>
+  [name, ...Object.entries(params).map(([key, param]) => `${key}=${param}`)].join(';') + `:${value.trim()}`;
+
+const toVEvent = (properties: IcsProperty[]): ParsedVEvent => {
+  const get = (name: string) => properties.find(p => p.name === name);
+
+  const uid = get('UID')?.value.trim();
+  const dtstart = get('DTSTART');
+  if (!uid) {
+    throw new IcsParseError('VEVENT without a UID');
+  }
+  if (!dtstart) {
+    throw new IcsParseError(`VEVENT ${uid} has no DTSTART`);
+  }
+
+  const startTime = parseIcsDate(dtstart.value, dtstart.params);
+  const dtend = get('DTEND');
+  const duration = get('DURATION');
+  let endTime: Date;
+  if (dtend) {
+    endTime = parseIcsDate(dtend.value, dtend.params);
+  } else if (duration) {
+    endTime = new Date(startTime.getTime() + parseDuration(duration.value));
+  } else {
+    // RFC 5545: a date-only event without an end lasts one day, a timed one has no duration.
+    endTime = new Date(startTime.getTime() + (isDateOnly(dtstart) ? DAY_MS : 0));
+  }
+
+  const rrule = get('RRULE');
+  // RDATEs add occurrences to the rule, so they are stored with it. The event model has no series
+  // made of RDATEs alone.
+  const rdates = properties.filter(p => p.name === 'RDATE');
+  if (rdates.length > 0 && !rrule) {
+    throw new IcsParseError('RDATE without an RRULE is not supported');
+  }
+  const recurrenceId = get('RECURRENCE-ID');
+  const allDay = isDateOnly(dtstart);
+  const timeZone = allDay ? undefined : dtstart.params.TZID;
+  const description = get('DESCRIPTION');
+  const location = get('LOCATION');
+  const url = get('URL')?.value.trim();
+
+  return {
+    uid,
+    title: unescapeIcsText(get('SUMMARY')?.value ?? '').trim(),
+    description: description ? unescapeIcsText(description.value) : null,
+    location: location ? unescapeIcsText(location.value).trim() || null : null,
+    // Links that could not be opened from the app (e.g. javascript:) are dropped.
+    url: url && isHttpUrl(url) ? url : null,
+    startTime,
+    endTime,
+    timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : null,
+    allDay,
+    rrule: rrule ? [`RRULE:${rrule.value.trim()}`, ...rdates.map(formatProperty)].join('\n') : null,
+    exdates: properties
+      .filter(p => p.name === 'EXDATE')
+      .flatMap(p => p.value.split(',').map(value => parseIcsDate(value, p.params))),
+    recurrenceId: recurrenceId ? parseIcsDate(recurrenceId.value, recurrenceId.params) : null,
+    isCancelled: get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED',
+  };
+};
+
+/**
+ * Parses every VEVENT of a VCALENDAR. Nested components such as VALARM are ignored. A VEVENT that
+ * cannot be read throws, unless `invalid` is given to collect it in; the rest are still returned.
+ */
+export const parseCalendar = (text: string, invalid?: InvalidVEvent[]): ParsedVEvent[] => {
+  // Unfold continuation lines first (a line break followed by a space or tab).
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines[0]?.trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+    throw new IcsParseError('Not an iCalendar file (missing BEGIN:VCALENDAR)');
+  }
+
+  const events: ParsedVEvent[] = [];
+  const components: string[] = [];
+  let current: IcsProperty[] | null = null;
+  // The first thing wrong with the VEVENT being read, if anything.
+  let currentError: IcsParseError | null = null;
+
+  for (const line of lines) {
+    let property: IcsProperty;
+    try {
+      property = parseContentLine(line);
+    } catch (error) {
+      if (!(error instanceof IcsParseError) || !current || !invalid) throw error;
+      currentError ??= error;
+      continue;
+    }
+
+    if (property.name === 'BEGIN') {
+      components.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === 'VEVENT') {
+        current = [];
+        currentError = null;
+      }
+    } else if (property.name === 'END') {
+      const component = components.pop();
+      if (component === 'VEVENT' && current) {
+        try {
+          if (currentError) throw currentError;
+          events.push(toVEvent(current));
+        } catch (error) {
+          if (!(error instanceof IcsParseError) || !invalid) throw error;
+          const summary = current.find(p => p.name === 'SUMMARY');
+          invalid.push({
+            uid: current.find(p => p.name === 'UID')?.value.trim() ?? '',
+            title: summary ? unescapeIcsText(summary.value).trim() : '',
+            reason: error.message,
+          });
+        }
+        current = null;
+      }
+    } else if (current && components[components.length - 1] === 'VEVENT') {
+      current.push(property);
+    }
+  }
+
+  return events;
+};
@@ -0,0 +1,283 @@
+import { Event } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import prisma from '../lib/prisma';
+import { Conflict, findConflicts } from './conflictService';
+import { InvalidVEvent, ParsedVEvent, parseCalendar, ruleLines } from './icsService';
+import { followTitle, invalidRule, ownDetail, seriesEndOf } from './recurrenceService';
+
+// Title used for VEVENTs without a SUMMARY, since every stored event needs one.
+export const UNTITLED = '(No title)';
+
+export interface ImportItem {
+  uid: string;
+  title: string;
+  // Missing for VEVENTs that could not be read.
+  startTime?: Date;
+  endTime?: Date;
+  // Set for items that override or cancel a single occurrence of a series.
+  originalStartTime?: Date;
+  isCancelled?: boolean;
+  reason?: string;
+  conflicts?: Conflict[];
+  // The event written for a created or updated item; not set on dry runs.
+  eventId?: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  created: ImportItem[];
+  updated: ImportItem[];
+  skipped: ImportItem[];
+  conflicting: ImportItem[];
+}
+
+interface ExceptionInput {
+  title: string;
+  description: string | null;
+  location: string | null;
+  url: string | null;
+  startTime: Date;
+  endTime: Date;
+  timeZone: string | null;
+  allDay: boolean;
+  originalStartTime: Date;
+  isCancelled: boolean;
+}
+
+const sameTime = (a: Date | null, b: Date | null): boolean => a?.getTime() === b?.getTime();
+
+// Rules stored with a DTSTART line (as the modal writes them) equal the bare RRULE read from a file.
+const sameRule = (a: string | null, b: string | null): boolean =>
+  (a ? ruleLines(a).join('\n') : null) === (b ? ruleLines(b).join('\n') : null);
+
+// Exported events use their id as UID, so a file exported from here matches by id as well.
+// Trashed events are not matched; the file brings the event back as a new one.
+const findSeries = (userId: string, uid: string) =>
+  prisma.event.findFirst({ where: { userId, recurrenceId: null, deletedAt: null, OR: [{ uid }, { id: uid }] } });
+
+const toItem = (vevent: ParsedVEvent, extra: Partial<ImportItem> = {}): ImportItem => ({
+  uid: vevent.uid,
+  title: vevent.title || UNTITLED,
+  startTime: vevent.startTime,
+  endTime: vevent.endTime,
+  ...extra,
+});
+
+/**
+ * Maps a parsed VCALENDAR onto Event rows: VEVENT+RRULE becomes a master, EXDATE a cancelled
+ * exception and RECURRENCE-ID a modified exception linked through `recurrenceId`. Series are
+ * matched by UID so a file can be imported again without duplicates. Items that overlap existing
+ * events are reported as conflicting and never written. With `dryRun` nothing is written at all,
+ * so items in the same file are not checked against each other. New series go into `calendarId`.
+ */
+export const importEvents = async (userId: string, text: string, dryRun: boolean, calendarId: string): Promise<ImportReport> => {
+  const report: ImportReport = { dryRun, created: [], updated: [], skipped: [], conflicting: [] };
+
+  // VEVENTs that cannot be read are skipped; the rest of the file is still imported.
+  const invalid: InvalidVEvent[] = [];
+  const groups = new Map<string, ParsedVEvent[]>();
+  for (const vevent of parseCalendar(text, invalid)) {
+    const group = groups.get(vevent.uid) ?? [];
+    group.push(vevent);
+    groups.set(vevent.uid, group);
+  }
+  for (const { uid, title, reason } of invalid) {
+    report.skipped.push({ uid, title: title || UNTITLED, reason });
+  }
+
+  for (const [uid, vevents] of groups) {
+    const base = vevents.find(v => !v.recurrenceId);
+    const overrides = vevents.filter(v => v.recurrenceId);
+    const existing = await findSeries(userId, uid);
+
+    let masterId = existing?.id ?? null;
+    if (base) {
+      const written = await importBase(userId, base, existing, dryRun, calendarId, report);
+      if (!written) continue;
+      masterId = written;
+    }
+    // Exceptions live in their master's calendar and zone, and are all-day if it is.
+    const seriesCalendarId = existing?.calendarId ?? calendarId;
+    const seriesTimeZone = base ? base.timeZone : existing?.timeZone ?? null;
+    const seriesAllDay = base ? base.allDay : existing?.allDay ?? false;
+    // Overrides in a file repeat the series' details; those are inherited rather than copied.
+    const seriesDetails = base ?? existing ?? { description: null, location: null, url: null };
+
+    const exceptions: ExceptionInput[] = [
+      ...(base?.exdates ?? []).map(date => ({
+        title: base!.title || UNTITLED,
+        description: null,
+        location: null,
+        url: null,
+        startTime: date,
+        endTime: new Date(date.getTime() + base!.endTime.getTime() - base!.startTime.getTime()),
+        timeZone: seriesTimeZone,
+        allDay: seriesAllDay,
+        originalStartTime: date,
+        isCancelled: true,
+      })),
+      ...overrides.map(v => ({
+        title: v.title || UNTITLED,
+        description: ownDetail(v.description, seriesDetails.description),
+        location: ownDetail(v.location, seriesDetails.location),
+        url: ownDetail(v.url, seriesDetails.url),
+        startTime: v.startTime,
+        endTime: v.endTime,
+        timeZone: seriesTimeZone,
+        allDay: seriesAllDay,
+        originalStartTime: v.recurrenceId!,
+        isCancelled: v.isCancelled,
+      })),
+    ];
+
+    const isSeries = base ? !!base.rrule : !!existing?.rrule;
+    for (const exception of exceptions) {
+      const item: ImportItem = { uid, ...exception };
+      if (!masterId || !isSeries) {
+        report.skipped.push({ ...item, reason: 'The recurring series this occurrence belongs to was not found' });
+        continue;
+      }
+      await importException(userId, masterId, seriesCalendarId, exception, item, dryRun, report);
+    }
+  }
+
+  return report;
+};
+
+// Creates or updates a master or single event. Returns its id, or null if it was not written.
+const importBase = async (
+  userId: string,
+  base: ParsedVEvent,
+  existing: Event | null,
+  dryRun: boolean,
+  calendarId: string,
+  report: ImportReport,
+): Promise<string | null> => {
+  const data = {
+    title: base.title || UNTITLED,
+    description: base.description,
+    location: base.location,
+    url: base.url,
+    startTime: base.startTime,
+    endTime: base.endTime,
+    timeZone: base.timeZone,
+    allDay: base.allDay,
+    rrule: base.rrule,
+  };
+
+  if (data.startTime >= data.endTime) {
+    report.skipped.push(toItem(base, { reason: 'End time must be after start time' }));
+    return null;
+  }
+  const ruleError = invalidRule(data.rrule);
+  if (ruleError) {
+    report.skipped.push(toItem(base, { reason: ruleError }));
+    return null;
+  }
+
+  if (
+    existing &&
+    existing.title === data.title &&
+    existing.description === data.description &&
+    existing.location === data.location &&
+    existing.url === data.url &&
+    sameTime(existing.startTime, data.startTime) &&
+    sameTime(existing.endTime, data.endTime) &&
+    existing.timeZone === data.timeZone &&
+    existing.allDay === data.allDay &&
+    sameRule(existing.rrule, data.rrule)
+  ) {
+    report.skipped.push(toItem(base, { reason: 'Already up to date' }));
+    return existing.id;
+  }
+
+  const conflicts = await findConflicts(userId, data, existing ? { eventId: existing.id } : {});
+  if (conflicts.length > 0) {
+    report.conflicting.push(toItem(base, { conflicts }));
+    return null;
+  }
+
+  if (existing) {
+    if (!dryRun) {
+      await prisma.$transaction([
+        prisma.event.update({ where: { id: existing.id }, data: { ...data, seriesEnd: seriesEndOf(data), version: { increment: 1 } } }),
+        followTitle(prisma, existing, data.title),
+      ]);
+    }
+    report.updated.push(toItem(base, dryRun ? {} : { eventId: existing.id }));
+    return existing.id;
+  }
+
+  const id = randomUUID();
+  if (!dryRun) {
+    // A trashed copy gives up its UID, which has to stay unique.
+    await prisma.event.updateMany({ where: { userId, uid: base.uid, deletedAt: { not: null } }, data: { uid: null } });
+    await prisma.event.create({ data: { id, uid: base.uid, userId, calendarId, ...data, seriesEnd: seriesEndOf(data) } });
+  }
+  report.created.push(toItem(base, dryRun ? {} : { eventId: id }));
+  return id;
+};
+
+const importException = async (
+  userId: string,
+  masterId: string,
+  calendarId: string,
+  exception: ExceptionInput,
+  item: ImportItem,
+  dryRun: boolean,
+  report: ImportReport,
+): Promise<void> => {
+  const existing = await prisma.event.findFirst({
+    where: { recurrenceId: masterId, originalStartTime: exception.originalStartTime, deletedAt: null },
+  });
+
+  const unchanged = existing && existing.isCancelled === exception.isCancelled && (
+    exception.isCancelled ||
+    (existing.title === exception.title &&
+      existing.description === exception.description &&
+      existing.location === exception.location &&
+      existing.url === exception.url &&
+      sameTime(existing.startTime, exception.startTime) &&
+      sameTime(existing.endTime, exception.endTime))
+  );
+  if (unchanged) {
+    report.skipped.push({ ...item, reason: 'Already up to date' });
+    return;
+  }
+
+  // Cancellations free up time, so only modified occurrences are checked.
+  if (!exception.isCancelled) {
+    if (exception.startTime >= exception.endTime) {
+      report.skipped.push({ ...item, reason: 'End time must be after start time' });
+      return;
+    }
+    const conflicts = await findConflicts(
+      userId,
+      exception,
+      existing
+        ? { eventId: existing.id }
+        : { occurrence: { masterId, originalStartTime: exception.originalStartTime } },
+    );
+    if (conflicts.length > 0) {
+      report.conflicting.push({ ...item, conflicts });
+      return;
+    }
+  }
+
+  if (existing) {
+    if (dryRun) {
+      report.updated.push(item);
+      return;
+    }
+    await prisma.event.update({ where: { id: existing.id }, data: { ...exception, version: { increment: 1 } } });
+    report.updated.push({ ...item, eventId: existing.id });
+    return;
+  }
+
+  if (dryRun) {
+    report.created.push(item);
+    return;
+  }
+  const created = await prisma.event.create({ data: { ...exception, recurrenceId: masterId, userId, calendarId } });
+  report.created.push({ ...item, eventId: created.id });
+};
@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import { buildRule, RecurrenceRuleError, seriesEndOf } from './recurrenceService';
+
+const HOUR_MS = 60 * 60 * 1000;
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+// 2026 transitions: Berlin moves on Mar 29 and Oct 25, New York on Mar 8 and Nov 1.
+describe('buildRule', () => {
+  it('keeps Berlin occurrences at the same local time across the spring transition', () => {
+    // Fri Mar 27, 09:00 CET
+    const rule = buildRule('FREQ=DAILY', new Date('2026-03-27T08:00:00Z'), 'Europe/Berlin');
+    expect(iso(rule.between(new Date('2026-03-27T00:00:00Z'), new Date('2026-03-31T00:00:00Z')))).toEqual([
+      '2026-03-27T08:00:00.000Z',
+      '2026-03-28T08:00:00.000Z',
+      '2026-03-29T07:00:00.000Z',
+      '2026-03-30T07:00:00.000Z',
+    ]);
+  });
+
+  it('keeps Berlin occurrences at the same local time across the autumn transition', () => {
+    // Thu Oct 22, 09:00 CEST
+    const rule = buildRule('RRULE:FREQ=DAILY', new Date('2026-10-22T07:00:00Z'), 'Europe/Berlin');
+    expect(iso(rule.between(new Date('2026-10-24T00:00:00Z'), new Date('2026-10-27T00:00:00Z')))).toEqual([
+      '2026-10-24T07:00:00.000Z',
+      '2026-10-25T08:00:00.000Z',
+      '2026-10-26T08:00:00.000Z',
+    ]);
+  });
+
+  it('keeps New York occurrences on the same weekday and local time across the spring transition', () => {
+    // Mon Mar 2, 18:00 EST
+    const rule = buildRule('FREQ=WEEKLY;BYDAY=MO,SU', new Date('2026-03-02T23:00:00Z'), 'America/New_York');
+    expect(iso(rule.between(new Date('2026-03-07T00:00:00Z'), new Date('2026-03-10T00:00:00Z')))).toEqual([
+      '2026-03-08T22:00:00.000Z',
+      '2026-03-09T22:00:00.000Z',
+    ]);
+  });
+
+  it('keeps New York occurrences on the same weekday and local time across the autumn transition', () => {
+    // Sun Oct 25, 23:30 EDT, which is already Monday in UTC
+    const rule = buildRule('FREQ=WEEKLY;BYDAY=SU', new Date('2026-10-26T03:30:00Z'), 'America/New_York');
+    expect(iso(rule.between(new Date('2026-10-26T00:00:00Z'), new Date('2026-11-10T00:00:00Z')))).toEqual([
+      '2026-10-26T03:30:00.000Z',
+      '2026-11-02T04:30:00.000Z',
+      '2026-11-09T04:30:00.000Z',
+    ]);
+  });
+
+  it('treats UNTIL as an instant in the series zone', () => {
+    // UNTIL is the instant of the Oct 25 09:00 CET occurrence, which is still included.
+    const rule = buildRule('FREQ=DAILY;UNTIL=20261025T080000Z', new Date('2026-10-23T07:00:00Z'), 'Europe/Berlin');
+    expect(iso(rule.between(new Date('2026-10-01T00:00:00Z'), new Date('2026-11-01T00:00:00Z')))).toEqual([
+      '2026-10-23T07:00:00.000Z',
+      '2026-10-24T07:00:00.000Z',
+      '2026-10-25T08:00:00.000Z',
+    ]);
+  });
+
+  it('honours EXDATEs given in UTC, in a TZID and as dates on either side of a transition', () => {
+    const rrule = [
+      'DTSTART;TZID=America/New_York:20260306T090000',
+      'RRULE:FREQ=DAILY;COUNT=6',
+      // Mar 7 09:00 EST and Mar 9 09:00 EDT
+      'EXDATE:20260307T140000Z',
+      'EXDATE;TZID=America/New_York:20260309T090000',
+      'EXDATE;VALUE=DATE:20260311',
+    ].join('\n');
+    const rule = buildRule(rrule, new Date('2026-03-06T14:00:00Z'), 'America/New_York');
+    expect(iso(rule.between(new Date('2026-03-01T00:00:00Z'), new Date('2026-04-01T00:00:00Z')))).toEqual([
+      '2026-03-06T14:00:00.000Z',
+      '2026-03-08T13:00:00.000Z',
+      '2026-03-10T13:00:00.000Z',
+    ]);
+  });
+
+  it('converts EXDATEs from another zone to the series wall clock', () => {
+    // 03:00 in New York is 09:00 in Berlin on Mar 30, when both are on summer time.
+    const rule = buildRule(
+      'RRULE:FREQ=DAILY\nEXDATE;TZID=America/New_York:20260330T030000',
+      new Date('2026-03-28T08:00:00Z'),
+      'Europe/Berlin',
+    );
+    expect(iso(rule.between(new Date('2026-03-28T00:00:00Z'), new Date('2026-04-01T00:00:00Z')))).toEqual([
+      '2026-03-28T08:00:00.000Z',
+      '2026-03-29T07:00:00.000Z',
+      '2026-03-31T07:00:00.000Z',
+    ]);
+  });
+
+  it('adds RDATEs to the series', () => {
+    const rule = buildRule('RRULE:FREQ=WEEKLY;COUNT=2\nRDATE;TZID=Europe/Berlin:20261026T090000', new Date('2026-10-17T07:00:00Z'), 'Europe/Berlin');
+    expect(iso(rule.between(new Date('2026-10-01T00:00:00Z'), new Date('2026-11-01T00:00:00Z')))).toEqual([
+      '2026-10-17T07:00:00.000Z',
+      '2026-10-24T07:00:00.000Z',
+      '2026-10-26T08:00:00.000Z',
+    ]);
+  });
+
+  it('starts zoneless rules at the start time, whatever DTSTART line they carry', () => {
+    const rule = buildRule('DTSTART:20200101T000000Z\nRRULE:FREQ=DAILY;COUNT=3\nEXDATE:20260302T120000Z', new Date('2026-03-01T12:00:00Z'));
+    expect(iso(rule.between(new Date('2026-01-01T00:00:00Z'), new Date('2027-01-01T00:00:00Z')))).toEqual([
+      '2026-03-01T12:00:00.000Z',
+      '2026-03-03T12:00:00.000Z',
+    ]);
+  });
+
+  it('reads rules as the event editor writes them, with the EXDATE lines it keeps', () => {
+    // "Every Monday until Nov 9", excluding the first Monday after Berlin's autumn transition
+    const rrule = 'RRULE:FREQ=WEEKLY;INTERVAL=1;UNTIL=20261109T225959Z;BYDAY=MO\nEXDATE:20261026T080000Z';
+    const rule = buildRule(rrule, new Date('2026-10-19T07:00:00Z'), 'Europe/Berlin');
+    expect(iso(rule.between(new Date('2026-10-01T00:00:00Z'), new Date('2026-12-01T00:00:00Z')))).toEqual([
+      '2026-10-19T07:00:00.000Z',
+      '2026-11-02T08:00:00.000Z',
+      '2026-11-09T08:00:00.000Z',
+    ]);
+  });
+
+  it('limits the number of occurrences returned by between', () => {
+    const rule = buildRule('FREQ=DAILY', new Date('2026-03-27T08:00:00Z'), 'Europe/Berlin');
+    expect(iso(rule.between(new Date('2026-03-27T00:00:00Z'), new Date('2026-04-30T00:00:00Z'), false, 2))).toEqual([
+      '2026-03-27T08:00:00.000Z',
+      '2026-03-28T08:00:00.000Z',
+    ]);
+  });
+
+  it.each([
+    ['a missing FREQ', 'INTERVAL=2'],
+    ['an unknown part', 'FREQ=DAILY;COLOR=RED'],
+    ['an unsupported line', 'RRULE:FREQ=DAILY\nX-FOO:1'],
+    ['two RRULEs', 'RRULE:FREQ=DAILY\nRRULE:FREQ=WEEKLY'],
+    ['a malformed EXDATE', 'RRULE:FREQ=DAILY\nEXDATE:tomorrow'],
+  ])('rejects a rule with %s', (_, rrule) => {
+    expect(() => buildRule(rrule, new Date('2026-03-27T08:00:00Z'), 'Europe/Berlin')).toThrow(RecurrenceRuleError);
+  });
+});
+
+describe('seriesEndOf', () => {
+  const event = (rrule: string | null, startTime: string, timeZone: string | null) => ({
+    rrule,
+    startTime: new Date(startTime),
+    endTime: new Date(new Date(startTime).getTime() + HOUR_MS),
+    timeZone,
+  });
+
+  it('ends a Berlin series counted across the spring transition in summer time', () => {
+    expect(seriesEndOf(event('FREQ=DAILY;COUNT=4', '2026-03-27T08:00:00Z', 'Europe/Berlin'))).toEqual(new Date('2026-03-30T08:00:00Z'));
+  });
+
+  it('ends a Berlin series counted across the autumn transition in winter time', () => {
+    expect(seriesEndOf(event('FREQ=WEEKLY;COUNT=2', '2026-10-22T07:00:00Z', 'Europe/Berlin'))).toEqual(new Date('2026-10-29T09:00:00Z'));
+  });
+
+  it('ends a New York series at the last occurrence before UNTIL across the spring transition', () => {
+    expect(seriesEndOf(event('FREQ=DAILY;UNTIL=20260309T235959Z', '2026-03-06T14:00:00Z', 'America/New_York')))
+      .toEqual(new Date('2026-03-09T14:00:00Z'));
+  });
+
+  it('ends a New York series at its last occurrence that is not excluded across the autumn transition', () => {
+    const rrule = 'RRULE:FREQ=DAILY;COUNT=4\nEXDATE;TZID=America/New_York:20261102T090000';
+    expect(seriesEndOf(event(rrule, '2026-10-30T13:00:00Z', 'America/New_York'))).toEqual(new Date('2026-11-01T15:00:00Z'));
+  });
+
+  it('is null for series that never end and for events that do not repeat', () => {
+    expect(seriesEndOf(event('FREQ=WEEKLY', '2026-10-22T07:00:00Z', 'Europe/Berlin'))).toBeNull();
+    expect(seriesEndOf(event(null, '2026-10-22T07:00:00Z', 'Europe/Berlin'))).toBeNull();
+  });
+});
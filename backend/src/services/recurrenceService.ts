@@ -0,0 +1,412 @@
+import { Event, Prisma } from '@prisma/client';
+import { Options, RRule, RRuleSet, Weekday } from 'rrule';
+import { isValidTimeZone, utcToZonedTime, wallClockDifference, zonedTimeToUtc } from '../lib/timeZone';
+
+// An event as returned to the client. Generated occurrences of a master carry the extra flags.
+// Rows loaded with relations (e.g. attendees) keep them.
+export type EventInstance<T extends Event = Event> = T & {
+  isRecurringInstance?: boolean;
+  masterId?: string;
+  seriesStartTime?: Date;
+};
+
+// Exceptions are looked up by the master they belong to and the occurrence they replace.
+export const occurrenceKey = (masterId: string, originalStartTime: Date): string =>
+  `${masterId}-${originalStartTime.toISOString()}`;
+
+/**
+ * Every stored row that can contribute to the events shown in [windowStart, windowEnd):
+ * single events overlapping it, masters starting before it ends, and exceptions for occurrences inside it.
+ * Trashed rows never do.
+ */
+export const windowFilter = (windowStart: Date, windowEnd: Date): Prisma.EventWhereInput => ({
+  deletedAt: null,
+  OR: [
+    // A. Regular, non-recurring events that overlap the window.
+    {
+      rrule: null,
+      recurrenceId: null,
+      startTime: { lt: windowEnd },
+      endTime: { gt: windowStart },
+    },
+    // B. Master recurring events that start before the window ends and do not end before it starts.
+    {
+      rrule: { not: null },
+      startTime: { lt: windowEnd },
+      OR: [{ seriesEnd: null }, { seriesEnd: { gte: windowStart } }],
+    },
+    // C. Exception events whose original time was in the window.
+    {
+      recurrenceId: { not: null },
+      originalStartTime: {
+        gte: windowStart,
+        lt: windowEnd,
+      },
+    },
+  ],
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Later than any occurrence rrule can produce, so the occurrence before it is a series' last.
+const END_OF_TIME = new Date(Date.UTC(9999, 11, 31));
+
+/**
+ * A recurrence rule evaluated on wall-clock time in a time zone, so "weekly at 9:00" stays at 9:00
+ * local time across DST changes. rrule itself only does UTC, so the rule runs on "floating" dates
+ * whose UTC fields hold the local time, and results are converted back to real instants.
+ * Without a zone (events from before zones were recorded) the rule runs on UTC as it always did.
+ */
+export class ZonedRule {
+  constructor(private readonly rule: RRule | RRuleSet, private readonly timeZone: string | null) {}
+
+  private toWall(instant: Date): Date {
+    return this.timeZone ? utcToZonedTime(instant, this.timeZone) : instant;
+  }
+
+  private fromWall(wallClock: Date): Date {
+    return this.timeZone ? zonedTimeToUtc(wallClock, this.timeZone) : wallClock;
+  }
+
+  // Occurrences between two instants, at most `limit` of them.
+  between(after: Date, before: Date, inc = false, limit = Infinity): Date[] {
+    const inRange = (instant: Date) => (inc ? instant >= after && instant <= before : instant > after && instant < before);
+    if (!this.timeZone) {
+      return this.rule.between(after, before, inc, (_, len) => len < limit);
+    }
+
+    // The zone offset moves the window by less than a day, so search a padded wall-clock range.
+    let found = 0;
+    const wallClocks = this.rule.between(
+      new Date(this.toWall(after).getTime() - DAY_MS),
+      new Date(this.toWall(before).getTime() + DAY_MS),
+      true,
+      wallClock => (inRange(this.fromWall(wallClock)) ? ++found : found) <= limit,
+    );
+    return wallClocks.map(wallClock => this.fromWall(wallClock)).filter(inRange);
+  }
+
+  after(instant: Date, inc = false): Date | null {
+    let candidate = this.rule.after(new Date(this.toWall(instant).getTime() - DAY_MS), true);
+    while (candidate) {
+      const occurrence = this.fromWall(candidate);
+      if (inc ? occurrence >= instant : occurrence > instant) return occurrence;
+      candidate = this.rule.after(candidate, false);
+    }
+    return null;
+  }
+
+  before(instant: Date, inc = false): Date | null {
+    let candidate = this.rule.before(new Date(this.toWall(instant).getTime() + DAY_MS), true);
+    while (candidate) {
+      const occurrence = this.fromWall(candidate);
+      if (inc ? occurrence <= instant : occurrence < instant) return occurrence;
+      candidate = this.rule.before(candidate, false);
+    }
+    return null;
+  }
+
+  // The last occurrence, or null if the rule has no COUNT or UNTIL and so never ends.
+  last(): Date | null {
+    const rules = this.rule instanceof RRuleSet ? this.rule.rrules() : [this.rule];
+    if (rules.length === 0 || rules.some(rule => !rule.options.count && !rule.options.until)) return null;
+    const wallClock = this.rule.before(END_OF_TIME, true);
+    return wallClock && this.fromWall(wallClock);
+  }
+}
+
+// Thrown for a stored or proposed rule that rrule cannot read; the message says what is wrong.
+export class RecurrenceRuleError extends Error {}
+
+/**
+ * Splits a rule into its RRULE value and its EXDATE/RDATE lines. Rules are a bare "FREQ=..." value
+ * or lines like "DTSTART:...\nRRULE:...\nEXDATE:..."; DTSTART is always the event's start, so it is left out.
+ */
+const splitRuleLines = (rrule: string): { main: string; dateLines: string[] } => {
+  let main: string | null = null;
+  const dateLines: string[] = [];
+  for (const line of rrule.split(/\r?\n/).map(line => line.trim()).filter(Boolean)) {
+    const name = /^([A-Z-]+)[:;]/i.exec(line)?.[1].toUpperCase();
+    if (name === 'DTSTART') continue;
+    if (name === 'EXDATE' || name === 'RDATE') {
+      dateLines.push(line);
+    } else if (name && name !== 'RRULE') {
+      throw new RecurrenceRuleError(`Unsupported line in recurrence rule: ${name}`);
+    } else if (main !== null) {
+      throw new RecurrenceRuleError('A recurrence rule can only have one RRULE');
+    } else {
+      main = line.replace(/^RRULE:/i, '');
+    }
+  }
+  if (main === null) throw new RecurrenceRuleError('Recurrence rule has no RRULE');
+  return { main, dateLines };
+};
+
+const parseOptions = (main: string): Partial<Options> => {
+  let options: Partial<Options>;
+  try {
+    options = RRule.parseString(main);
+  } catch {
+    throw new RecurrenceRuleError(`Invalid recurrence rule: ${main}`);
+  }
+  if (options.freq === undefined) throw new RecurrenceRuleError('Recurrence rule has no FREQ');
+  return options;
+};
+
+/**
+ * The dates of an EXDATE or RDATE line as floating wall-clock dates in `timeZone` (UTC without one),
+ * the way the rule is evaluated: UTC values and values in another TZID are converted, floating ones
+ * and ones in the series' own zone already are, and plain dates take the time of day of `wallStart`.
+ */
+const parseDateLine = (line: string, wallStart: Date, timeZone: string | null): Date[] => {
+  const colon = line.indexOf(':');
+  const tzid = /;TZID=([^;:]+)/i.exec(line.slice(0, colon))?.[1];
+  return line.slice(colon + 1).split(',').map(value => {
+    const [, y, m, d, time, hh, mm, ss, utc] = /^(\d{4})(\d{2})(\d{2})(T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim()) ?? [];
+    if (!y) throw new RecurrenceRuleError(`Invalid date in recurrence rule: ${value}`);
+    if (!time) {
+      return new Date(Date.UTC(+y, +m - 1, +d) + ((wallStart.getTime() % DAY_MS) + DAY_MS) % DAY_MS);
+    }
+    const fields = new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+    const instant = utc ? fields : tzid && tzid !== timeZone && isValidTimeZone(tzid) ? zonedTimeToUtc(fields, tzid) : null;
+    if (!instant) return fields;
+    return timeZone ? utcToZonedTime(instant, timeZone) : instant;
+  });
+};
+
+// Builds the rule of a (stored or proposed) series starting at `startTime`, which is its DTSTART.
+export const buildRule = (rrule: string, startTime: Date, timeZone?: string | null): ZonedRule => {
+  const zone = timeZone ?? null;
+  const wallStart = zone ? utcToZonedTime(startTime, zone) : startTime;
+  const { main, dateLines } = splitRuleLines(rrule);
+  const options = parseOptions(main);
+  // UNTIL is an instant; on floating dates it has to be the local time of that instant.
+  if (options.until && zone) {
+    options.until = utcToZonedTime(options.until, zone);
+  }
+  let rule: RRule;
+  try {
+    rule = new RRule({ ...options, dtstart: wallStart, tzid: null });
+  } catch (error) {
+    throw new RecurrenceRuleError(error instanceof Error ? error.message : 'Invalid recurrence rule');
+  }
+  if (dateLines.length === 0) return new ZonedRule(rule, zone);
+
+  const set = new RRuleSet();
+  set.rrule(rule);
+  for (const line of dateLines) {
+    const dates = parseDateLine(line, wallStart, zone);
+    if (/^EXDATE/i.test(line)) {
+      dates.forEach(date => set.exdate(date));
+    } else {
+      dates.forEach(date => set.rdate(date));
+    }
+  }
+  return new ZonedRule(set, zone);
+};
+
+// Why a rule sent by a client cannot be stored, or null if it can (or there is none).
+export const invalidRule = (rrule: unknown): string | null => {
+  if (rrule === undefined || rrule === null || rrule === '') return null;
+  if (typeof rrule !== 'string') return 'Recurrence rule must be a string';
+  try {
+    buildRule(rrule, new Date(0));
+    return null;
+  } catch (error) {
+    if (error instanceof RecurrenceRuleError) return error.message;
+    throw error;
+  }
+};
+
+// Parses a master's RRULE in the master's time zone. The master event's startTime is the DTSTART.
+export const parseRule = (master: Event): ZonedRule => buildRule(master.rrule!, master.startTime, master.timeZone);
+
+/**
+ * When the last occurrence of a series ends, which is stored as the master's seriesEnd so that
+ * windowFilter can leave out series that ended before a window. Null for series that never end
+ * and for events that do not repeat. Every write of a master's rule, times or zone sets it.
+ */
+export const seriesEndOf = ({ rrule, startTime, endTime, timeZone }: Pick<Event, 'rrule' | 'startTime' | 'endTime' | 'timeZone'>): Date | null => {
+  if (!rrule) return null;
+  const last = buildRule(rrule, startTime, timeZone).last();
+  return last && new Date(last.getTime() + endTime.getTime() - startTime.getTime());
+};
+
+// How many masters, and windows of each, occurrencesBetween keeps.
+const OCCURRENCE_CACHE_MASTERS = Number(process.env.OCCURRENCE_CACHE_MASTERS) || 2000;
+const OCCURRENCE_CACHE_WINDOWS = 8;
+
+// Per master: what its occurrences depend on, and the occurrences found for each window.
+const occurrenceCache = new Map<string, { rule: string; windows: Map<string, Date[]> }>();
+
+/**
+ * A master's occurrences in (windowStart, windowEnd), remembered so the same view asked for again
+ * (or by another attendee) skips rrule. An entry is dropped as soon as its master shows up with
+ * another rule, start or zone, i.e. after any change that moves its occurrences, including writes
+ * made by another process. The least recently used masters go first when the cache is full.
+ */
+export const occurrencesBetween = (master: Event, windowStart: Date, windowEnd: Date): Date[] => {
+  const rule = `${master.rrule}|${master.startTime.getTime()}|${master.timeZone}`;
+  let entry = occurrenceCache.get(master.id);
+  occurrenceCache.delete(master.id);
+  if (entry?.rule !== rule) {
+    entry = { rule, windows: new Map() };
+  }
+  // Map keeps insertion order, so re-inserting makes it the most recently used.
+  occurrenceCache.set(master.id, entry);
+  if (occurrenceCache.size > OCCURRENCE_CACHE_MASTERS) {
+    occurrenceCache.delete(occurrenceCache.keys().next().value!);
+  }
+
+  const window = `${windowStart.getTime()}-${windowEnd.getTime()}`;
+  let occurrences = entry.windows.get(window);
+  if (!occurrences) {
+    occurrences = parseRule(master).between(windowStart, windowEnd);
+    entry.windows.set(window, occurrences);
+    if (entry.windows.size > OCCURRENCE_CACHE_WINDOWS) {
+      entry.windows.delete(entry.windows.keys().next().value!);
+    }
+  }
+  return occurrences;
+};
+
+// Ends a rule just before `splitPoint`. COUNT and UNTIL are mutually exclusive, so COUNT is dropped.
+// Its EXDATE and RDATE lines stay; those after the split simply no longer match.
+export const truncateRule = (rrule: string, splitPoint: Date): string => {
+  const { main, dateLines } = splitRuleLines(rrule);
+  const options = parseOptions(main);
+  delete options.count;
+  options.until = new Date(splitPoint.getTime() - 1000);
+  return [RRule.optionsToString(options), ...dateLines].join('\n');
+};
+
+// A floating date as an iCalendar date-time; with no zone it is UTC.
+const formatWallClock = (wallClock: Date, timeZone: string | null): string =>
+  wallClock.toISOString().replace(/[-:]/g, '').slice(0, 15) + (timeZone ? '' : 'Z');
+
+/**
+ * Derives the rule for the "following" half of a split series. The new master's startTime
+ * becomes its DTSTART, weekday lists follow the start if it moved to another day, and a COUNT
+ * is reduced by the occurrences the original master keeps. EXDATEs and RDATEs from the split on
+ * move along with the occurrences and are written in the master's zone.
+ */
+export const continueRule = (master: Event, splitPoint: Date, newStart: Date): string => {
+  const { main, dateLines } = splitRuleLines(master.rrule!);
+  const options = parseOptions(main);
+  delete options.dtstart;
+
+  // COUNT counts occurrences before EXDATEs and RDATEs apply, so the RRULE is counted on its own.
+  if (options.count) {
+    const kept = buildRule(main, master.startTime, master.timeZone).between(master.startTime, new Date(splitPoint.getTime() - 1), true).length;
+    options.count = Math.max(options.count - kept, 1);
+  }
+
+  const shift = wallClockDifference(splitPoint, newStart, master.timeZone);
+  const dayShift = Math.round(shift / DAY_MS);
+  if (dayShift !== 0 && options.byweekday) {
+    const weekdays = Array.isArray(options.byweekday) ? options.byweekday : [options.byweekday];
+    options.byweekday = weekdays.map(day => {
+      const weekday = typeof day === 'number' ? new Weekday(day) : typeof day === 'string' ? Weekday.fromStr(day) : day;
+      return new Weekday((((weekday.weekday + dayShift) % 7) + 7) % 7, weekday.n);
+    });
+  }
+
+  const wallStart = master.timeZone ? utcToZonedTime(master.startTime, master.timeZone) : master.startTime;
+  const wallSplit = master.timeZone ? utcToZonedTime(splitPoint, master.timeZone) : splitPoint;
+  const movedLines = ['EXDATE', 'RDATE'].flatMap(name => {
+    const dates = dateLines
+      .filter(line => line.toUpperCase().startsWith(name))
+      .flatMap(line => parseDateLine(line, wallStart, master.timeZone))
+      .filter(date => date >= wallSplit)
+      .map(date => formatWallClock(new Date(date.getTime() + shift), master.timeZone));
+    if (dates.length === 0) return [];
+    return [`${name}${master.timeZone ? `;TZID=${master.timeZone}` : ''}:${dates.join(',')}`];
+  });
+
+  return [RRule.optionsToString(options), ...movedLines].join('\n');
+};
+
+type EventDetails = Pick<Event, 'description' | 'location' | 'url'>;
+
+// What an exception stores for one of its details: null where it keeps its master's, so later
+// edits of the series reach it, and "" where it has cleared it.
+export const ownDetail = (value: string | null, inherited: string | null): string | null =>
+  value === inherited ? null : value ?? '';
+
+// Gives a series a new title. The title is required, so unlike the details every exception stores
+// one; those that still have the series' old title never changed it, and take on the new one.
+export const followTitle = (db: Prisma.TransactionClient, master: Pick<Event, 'id' | 'title'>, title: string) =>
+  db.event.updateMany({
+    where: { recurrenceId: master.id, title: master.title, NOT: { title } },
+    data: { title, version: { increment: 1 } },
+  });
+
+// An exception as it is shown, with the details it keeps filled in from its master.
+export const inheritDetails = <T extends Event>(exception: T, master: EventDetails): T => {
+  const inherit = (own: string | null, inherited: string | null) => (own === null ? inherited : own || null);
+  return {
+    ...exception,
+    description: inherit(exception.description, master.description),
+    location: inherit(exception.location, master.location),
+    url: inherit(exception.url, master.url),
+  };
+};
+
+// Builds a "virtual" event for a single generated occurrence of a master.
+export const buildOccurrence = <T extends Event>(master: T, occurrenceDate: Date): EventInstance<T> => {
+  const duration = master.endTime.getTime() - master.startTime.getTime();
+  return {
+    ...master,
+    // Override key properties for this specific instance
+    id: `${master.id}_${occurrenceDate.getTime()}`, // Create a unique virtual ID for React keys
+    startTime: occurrenceDate,
+    // The series' own start, so "all events" edits can be applied relative to it
+    seriesStartTime: master.startTime,
+    endTime: new Date(occurrenceDate.getTime() + duration),
+    // Add flags for the frontend to identify this as a recurring instance
+    isRecurringInstance: true,
+    masterId: master.id,
+  };
+};
+
+/**
+ * Turns a mixed list of single events, masters and exceptions into the concrete
+ * events that start inside [windowStart, windowEnd).
+ */
+export const expandEvents = <T extends Event>(rows: T[], windowStart: Date, windowEnd: Date): EventInstance<T>[] => {
+  const finalEvents: EventInstance<T>[] = [];
+  const exceptions = new Map<string, T>();
+
+  // Separate master, exceptions, and single events
+  const masterEvents = rows.filter(e => e.rrule);
+  const singleEvents = rows.filter(e => !e.rrule && !e.recurrenceId);
+
+  rows.filter(e => e.recurrenceId && e.originalStartTime).forEach(ex => {
+    exceptions.set(occurrenceKey(ex.recurrenceId!, ex.originalStartTime!), ex);
+  });
+
+  // Add all non-recurring, non-exception events to the final list
+  finalEvents.push(...singleEvents);
+
+  // Process recurring events and their exceptions
+  for (const master of masterEvents) {
+    const occurrences = occurrencesBetween(master, windowStart, windowEnd);
+
+    for (const occurrenceDate of occurrences) {
+      const exceptionEvent = exceptions.get(occurrenceKey(master.id, occurrenceDate));
+
+      // If there is an exception for this occurrence, handle it
+      if (exceptionEvent) {
+        // If the exception is a modified event (not just a cancellation), add it.
+        // If it is a cancellation, we do nothing, effectively deleting it from the series.
+        if (!exceptionEvent.isCancelled) {
+          finalEvents.push(inheritDetails(exceptionEvent, master));
+        }
+      } else {
+        // No exception, so add the generated occurrence as a "virtual" event
+        finalEvents.push(buildOccurrence(master, occurrenceDate));
+      }
+    }
+  }
+
+  return finalEvents;
+};
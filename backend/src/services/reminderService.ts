@@ -0,0 +1,153 @@
+import { Event, Prisma, Reminder } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { sendMail } from '../lib/mailer';
+import { EventInstance, expandEvents, windowFilter } from './recurrenceService';
+
+export const REMINDER_CHANNELS = ['in-app', 'email'] as const;
+
+export type ReminderChannel = (typeof REMINDER_CHANNELS)[number];
+
+export const isReminderChannel = (value: unknown): value is ReminderChannel =>
+  REMINDER_CHANNELS.includes(value as ReminderChannel);
+
+// Four weeks. Every scheduler pass expands series this far ahead, so the offset is capped.
+export const MAX_MINUTES_BEFORE = 4 * 7 * 24 * 60;
+
+// Nested create that gives another event (e.g. the new master of a split series) the same reminders.
+export const copyReminders = (reminders: Reminder[]) => ({
+  create: reminders.map(({ minutesBefore, channel }) => ({ minutesBefore, channel })),
+});
+
+export interface DueReminder {
+  reminder: Reminder;
+  // The single event or master the reminder is set on.
+  event: Event;
+  // The concrete occurrence: the event itself, a generated instance, or a modified exception.
+  occurrence: Event;
+}
+
+/**
+ * Reminders whose time (occurrence start minus `minutesBefore`) has come for an occurrence that has
+ * not started yet. Series are expanded the same way GET /events does, so cancelled occurrences never
+ * come up and modified ones are reminded of at their new time. A reminder added late, after its time
+ * but before the start, is still due.
+ */
+export const findDueReminders = async (now: Date): Promise<DueReminder[]> => {
+  const { _max } = await prisma.reminder.aggregate({ _max: { minutesBefore: true } });
+  if (_max.minutesBefore === null) return [];
+  // A minute of slack, so an occurrence exactly `minutesBefore` away is not missed at the window's edge.
+  const horizon = new Date(now.getTime() + (_max.minutesBefore + 1) * 60_000);
+
+  const events = await prisma.event.findMany({
+    where: { AND: [windowFilter(now, horizon), { reminders: { some: {} } }] },
+    include: { reminders: true },
+  });
+  const masterIds = events.filter(e => e.rrule).map(e => e.id);
+  // Exceptions for occurrences originally in the window, and ones moved into it from elsewhere. One
+  // query, so an exception that is both comes back once.
+  const exceptions = await prisma.event.findMany({
+    where: {
+      recurrenceId: { not: null },
+      deletedAt: null,
+      OR: [
+        { recurrenceId: { in: masterIds }, originalStartTime: { gte: now, lt: horizon } },
+        { startTime: { gte: now, lt: horizon }, isCancelled: false },
+      ],
+    },
+  });
+  // A moved exception's series may have ended before the window, so its master was not loaded above.
+  const loadedIds = new Set(events.map(e => e.id));
+  const missingMasterIds = [...new Set(exceptions.map(ex => ex.recurrenceId!))].filter(id => !loadedIds.has(id));
+  const otherMasters = missingMasterIds.length > 0
+    ? await prisma.event.findMany({ where: { id: { in: missingMasterIds }, deletedAt: null, reminders: { some: {} } }, include: { reminders: true } })
+    : [];
+
+  const byId = new Map([...events, ...otherMasters].map(e => [e.id, e]));
+  const due: DueReminder[] = [];
+
+  // expandEvents places exceptions at the occurrence they replace, so the ones moved in from
+  // outside the window are added on their own.
+  const expanded = expandEvents<Event>([...events, ...exceptions], now, horizon);
+  const movedIn = exceptions.filter(ex =>
+    !ex.isCancelled && byId.has(ex.recurrenceId!) &&
+    (ex.originalStartTime! < now || ex.originalStartTime! >= horizon));
+
+  const occurrences: EventInstance[] = [...expanded, ...movedIn];
+
+  for (const occurrence of occurrences) {
+    if (occurrence.startTime <= now) continue;
+    const event = byId.get(occurrence.recurrenceId ?? occurrence.masterId ?? occurrence.id);
+    if (!event) continue;
+
+    for (const reminder of event.reminders) {
+      if (occurrence.startTime.getTime() - reminder.minutesBefore * 60_000 <= now.getTime()) {
+        due.push({ reminder, event, occurrence });
+      }
+    }
+  }
+
+  return due;
+};
+
+// "Monday, October 19, 2026 at 9:00 AM (Europe/Berlin)", or just the date for all-day events.
+const describeStart = (occurrence: Event): string => {
+  if (occurrence.allDay) {
+    return new Intl.DateTimeFormat('en-US', { dateStyle: 'full', timeZone: 'UTC' }).format(occurrence.startTime);
+  }
+  const timeZone = occurrence.timeZone ?? 'UTC';
+  const when = new Intl.DateTimeFormat('en-US', { dateStyle: 'full', timeStyle: 'short', timeZone }).format(occurrence.startTime);
+  return `${when} (${timeZone})`;
+};
+
+const deliver = async ({ reminder, event, occurrence }: DueReminder, userId: string): Promise<void> => {
+  if (reminder.channel === 'email') {
+    const owner = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { email: true } });
+    await sendMail(
+      owner.email,
+      `Reminder: ${occurrence.title}`,
+      `${occurrence.title}\nStarts ${describeStart(occurrence)}.\n`,
+    );
+    return;
+  }
+  await prisma.notification.create({
+    data: { userId, eventId: event.id, title: occurrence.title, startTime: occurrence.startTime },
+  });
+};
+
+/**
+ * Sends one due reminder to the event's owner, unless it was already sent for this occurrence.
+ * The delivery row is claimed before sending, so concurrent passes cannot both send it; if sending
+ * fails the claim is released and the next pass tries again. Returns whether it was sent here.
+ */
+export const deliverReminder = async (due: DueReminder): Promise<boolean> => {
+  if (!due.event.userId) return false;
+  const key = { reminderId: due.reminder.id, occurrenceStart: due.occurrence.startTime };
+
+  try {
+    await prisma.reminderDelivery.create({ data: key });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return false;
+    throw error;
+  }
+
+  try {
+    await deliver(due, due.event.userId);
+  } catch (error) {
+    await prisma.reminderDelivery.delete({ where: { reminderId_occurrenceStart: key } });
+    throw error;
+  }
+  return true;
+};
+
+// One scheduler pass. A failing delivery is logged and does not hold up the others.
+export const runDueReminders = async (now: Date = new Date()): Promise<number> => {
+  let sent = 0;
+  for (const due of await findDueReminders(now)) {
+    try {
+      if (await deliverReminder(due)) sent++;
+    } catch (error) {
+      console.error(`Failed to send reminder ${due.reminder.id}:`, error);
+    }
+  }
+  return sent;
+};
@@ -0,0 +1,140 @@
+import { Attendee, Event, EventRevision, Prisma, Reminder } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { copyAttendees } from './attendeeService';
+import { copyReminders } from './reminderService';
+import { seriesEndOf } from './recurrenceService';
+
+// Response header listing the revisions a request wrote, as `eventId:revisionId` pairs separated by
+// commas, in the order they were written.
+export const REVISIONS_HEADER = 'X-Event-Revisions';
+
+// How many of the latest revisions GET /events/:id/history returns.
+export const HISTORY_LENGTH = 100;
+
+// Which side of a revision to go back to: `before` undoes it, `after` redoes it.
+export const REVERT_TARGETS = ['before', 'after'] as const;
+
+export type RevertTarget = (typeof REVERT_TARGETS)[number];
+
+export const isRevertTarget = (value: unknown): value is RevertTarget =>
+  REVERT_TARGETS.includes(value as RevertTarget);
+
+/**
+ * Everything needed to put an event back as it was: the row with its attendees and reminders and,
+ * for a master, its exceptions. Exceptions are part of their master's snapshot because changes to a
+ * series (moving it, splitting it, deleting it) move or remove them too.
+ */
+export type EventSnapshot = Event & {
+  attendees: Attendee[];
+  reminders: Reminder[];
+  exceptions: (Event & { attendees: Attendee[] })[];
+};
+
+// Null for events that do not exist or are in the trash. Trashed exceptions of a series are included.
+export const snapshotEvent = async (id: string): Promise<EventSnapshot | null> => {
+  const event = await prisma.event.findFirst({ where: { id, deletedAt: null }, include: { attendees: true, reminders: true } });
+  if (!event) return null;
+  const exceptions = event.rrule
+    ? await prisma.event.findMany({ where: { recurrenceId: id }, include: { attendees: true } })
+    : [];
+  return { ...event, exceptions };
+};
+
+const DATE_FIELDS = ['startTime', 'endTime', 'originalStartTime', 'seriesEnd', 'deletedAt', 'createdAt', 'updatedAt'];
+
+// Snapshots are stored as JSON, so their dates come back as strings.
+export const parseSnapshot = (value: Prisma.JsonValue): EventSnapshot | null =>
+  value === null
+    ? null
+    : JSON.parse(JSON.stringify(value), (key, v) => DATE_FIELDS.includes(key) && typeof v === 'string' ? new Date(v) : v);
+
+// The plain row, as sent to webhooks.
+export const eventOf = ({ attendees, reminders, exceptions, ...event }: EventSnapshot): Event => event;
+
+const toJson = (snapshot: EventSnapshot | null) =>
+  snapshot ? (JSON.parse(JSON.stringify(snapshot)) as Prisma.InputJsonValue) : Prisma.DbNull;
+
+/**
+ * Writes the revision for a change from `before` to `after`; a missing side means the event was
+ * created or deleted. `revertOfId` is set when the change went back to one side of another revision.
+ */
+export const recordRevision = (
+  userId: string,
+  eventId: string,
+  before: EventSnapshot | null,
+  after: EventSnapshot | null,
+  revertOfId?: string,
+): Promise<EventRevision> =>
+  prisma.eventRevision.create({
+    data: {
+      eventId,
+      userId,
+      action: !before ? 'created' : !after ? 'deleted' : 'updated',
+      before: toJson(before),
+      after: toJson(after),
+      revertOfId,
+    },
+  });
+
+export const revisionsHeader = (revisions: EventRevision[]): string =>
+  revisions.map(revision => `${revision.eventId}:${revision.id}`).join(',');
+
+// The stored fields of an event, without its id, owner and bookkeeping.
+const eventData = (event: Event) => ({
+  title: event.title,
+  description: event.description,
+  location: event.location,
+  url: event.url,
+  startTime: event.startTime,
+  endTime: event.endTime,
+  calendarId: event.calendarId,
+  uid: event.uid,
+  timeZone: event.timeZone,
+  allDay: event.allDay,
+  rrule: event.rrule,
+  // Worked out again, as snapshots from before it was stored have none.
+  seriesEnd: seriesEndOf(event),
+  recurrenceId: event.recurrenceId,
+  originalStartTime: event.originalStartTime,
+  isCancelled: event.isCancelled,
+  // Snapshots from before the trash (or CalDAV) existed have no deletedAt (or davName).
+  deletedAt: event.deletedAt ?? null,
+  davName: event.davName ?? null,
+});
+
+/**
+ * The writes that turn the event `id` into `target`, for one transaction: null moves it to the trash
+ * (with its exceptions), otherwise it is updated, taken out of the trash or recreated, depending on
+ * whether its row still `exists`. A recreated event gets its attendees and reminders back, and a
+ * series gets exactly the live exceptions of the snapshot; others are trashed, never deleted.
+ * Validation and conflict checks are up to the caller.
+ */
+export const restoreOperations = (id: string, exists: boolean, target: EventSnapshot | null): Prisma.PrismaPromise<unknown>[] => {
+  const deletedAt = new Date();
+  if (!target) {
+    return exists
+      ? [prisma.event.updateMany({ where: { OR: [{ id }, { recurrenceId: id }], deletedAt: null }, data: { deletedAt } })]
+      : [];
+  }
+
+  const keptExceptionIds = target.exceptions.map(ex => ex.id);
+  return [
+    exists
+      ? prisma.event.update({ where: { id }, data: { ...eventData(target), version: { increment: 1 } } })
+      : prisma.event.create({
+          data: {
+            id, userId: target.userId, ...eventData(target),
+            attendees: copyAttendees(target.attendees),
+            reminders: copyReminders(target.reminders),
+          },
+        }),
+    // Exceptions the snapshot does not have (e.g. ones made later for an RSVP) go into the trash,
+    // from where they can still be restored; ones already there stay as they are.
+    prisma.event.updateMany({ where: { recurrenceId: id, id: { notIn: keptExceptionIds }, deletedAt: null }, data: { deletedAt } }),
+    ...target.exceptions.map(ex => prisma.event.upsert({
+      where: { id: ex.id },
+      create: { id: ex.id, userId: ex.userId, ...eventData(ex), attendees: copyAttendees(ex.attendees) },
+      update: { ...eventData(ex), version: { increment: 1 } },
+    })),
+  ];
+};
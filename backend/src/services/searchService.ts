@@ -0,0 +1,31 @@
+import { Event, Prisma } from '@prisma/client';
+
+// Searches without an explicit range look this far back and ahead of now.
+export const DEFAULT_SEARCH_RANGE_DAYS = 365;
+// Series are expanded across the whole range, so it is capped.
+export const MAX_SEARCH_RANGE_DAYS = 5 * 365;
+// At most this many occurrences are returned, earliest first.
+export const SEARCH_RESULT_LIMIT = 200;
+
+// Whitespace-separated words, lower-cased and without duplicates.
+export const parseSearchTerms = (q: string): string[] =>
+  [...new Set(q.toLowerCase().split(/\s+/).filter(Boolean))];
+
+/**
+ * Rows where every term appears in the title or the description, case-insensitively and anywhere in
+ * the text, so "stand" finds "Daily standup". Terms may be split across the two fields.
+ */
+export const searchFilter = (terms: string[]): Prisma.EventWhereInput => ({
+  AND: terms.map(term => ({
+    OR: [
+      { title: { contains: term, mode: 'insensitive' } },
+      { description: { contains: term, mode: 'insensitive' } },
+    ],
+  })),
+});
+
+// The same test as searchFilter, for expanded occurrences: an exception may have been renamed.
+export const matchesSearch = (event: Pick<Event, 'title' | 'description'>, terms: string[]): boolean => {
+  const text = `${event.title}\n${event.description ?? ''}`.toLowerCase();
+  return terms.every(term => text.includes(term));
+};
@@ -0,0 +1,113 @@
+import { Event } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import prisma from '../lib/prisma';
+import { WebhookEventType } from './webhookService';
+
+// Request header with the id a browser tab picked for itself. Changes carry the id of the tab that
+// made them, so it can tell them from changes made elsewhere.
+export const SYNC_CLIENT_HEADER = 'X-Client-Id';
+
+// How many recent changes are kept for clients catching up after a dropped connection.
+const HISTORY_SIZE = 1000;
+
+// Stream positions are only meaningful to the process that handed them out; after a restart every
+// client has to reload instead of catching up.
+const BOOT_ID = randomUUID().slice(0, 8);
+
+// One change to an event, as pushed to the open calendars of everyone who can see the event.
+export interface SyncChange {
+  // Position in the stream, "<boot id>-<sequence number>"; sent as the SSE event id.
+  id: string;
+  type: WebhookEventType;
+  // The row as GET /events returns it, with attendees and organizer.
+  event: Event;
+  actor: { id: string; email: string; name: string | null } | null;
+  // SYNC_CLIENT_HEADER of the request that made the change, if it had one.
+  origin: string | null;
+  createdAt: Date;
+}
+
+type Listener = (change: SyncChange) => void;
+
+let sequence = 0;
+const history: { seq: number; recipients: string[]; change: SyncChange }[] = [];
+const listeners = new Map<string, Set<Listener>>();
+
+// Calls `listener` with every change the user should see, until the returned function is called.
+export const subscribeToChanges = (userId: string, listener: Listener): (() => void) => {
+  const userListeners = listeners.get(userId) ?? new Set();
+  userListeners.add(listener);
+  listeners.set(userId, userListeners);
+  return () => {
+    userListeners.delete(listener);
+    if (userListeners.size === 0) listeners.delete(userId);
+  };
+};
+
+/**
+ * The user's changes after the stream position `lastId`, oldest first, or null when they cannot be
+ * told apart any more (the position is from before a restart or older than the kept history) and
+ * the client has to reload.
+ */
+export const changesSince = (userId: string, lastId: string): SyncChange[] | null => {
+  const [bootId, seqText] = lastId.split('-');
+  const seq = Number(seqText);
+  if (bootId !== BOOT_ID || !Number.isInteger(seq) || seq > sequence) return null;
+  if (seq < sequence && (history.length === 0 || history[0].seq > seq + 1)) return null;
+  return history.filter(entry => entry.seq > seq && entry.recipients.includes(userId)).map(entry => entry.change);
+};
+
+// The sequence number of a stream position, which orders changes.
+export const sequenceOf = (id: string): number => Number(id.split('-')[1]);
+
+// The stream position a new connection starts from.
+export const currentPosition = (): string => `${BOOT_ID}-${sequence}`;
+
+/**
+ * Pushes a change to the owner's open calendars and to those of the attendees with an account,
+ * who see the event too. Like emitWebhook it never throws, so a failure cannot fail the request
+ * that made the change. Changes live in this process only; with several API processes behind a
+ * load balancer a client only hears about changes made through its own. `onlyTo` sends the change
+ * to just those users, e.g. to someone who can no longer see the event.
+ */
+export const broadcastChange = async (
+  userId: string,
+  type: WebhookEventType,
+  event: Event,
+  origin?: string,
+  onlyTo?: string[],
+): Promise<void> => {
+  try {
+    const [row, attendees, actor] = await Promise.all([
+      prisma.event.findUnique({
+        where: { id: event.id },
+        include: { attendees: { orderBy: { createdAt: 'asc' } }, user: { select: { email: true, name: true } } },
+      }),
+      prisma.attendee.findMany({
+        where: { eventId: { in: event.recurrenceId ? [event.id, event.recurrenceId] : [event.id] }, userId: { not: null } },
+        select: { userId: true },
+      }),
+      prisma.user.findUnique({ where: { id: userId }, select: { id: true, email: true, name: true } }),
+    ]);
+    const recipients = onlyTo ?? [...new Set([userId, event.userId, ...attendees.map(a => a.userId)].filter((id): id is string => !!id))];
+
+    sequence += 1;
+    const change: SyncChange = {
+      id: `${BOOT_ID}-${sequence}`,
+      type,
+      // Deleted rows may be gone by now; the row as the caller had it is enough to remove them.
+      event: row ?? event,
+      actor,
+      origin: origin ?? null,
+      createdAt: new Date(),
+    };
+    history.push({ seq: sequence, recipients, change });
+    if (history.length > HISTORY_SIZE) history.shift();
+
+    for (const recipient of recipients) {
+      listeners.get(recipient)?.forEach(listener => listener(change));
+    }
+  } catch (error) {
+    console.error(`Failed to broadcast ${type}:`, error);
+  }
+};
@@ -0,0 +1,53 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+
+// How long trashed events are kept when no env override is set.
+const DEFAULT_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getTrashRetentionDays = (): number => {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+};
+
+// When a trashed event is purged for good.
+export const purgeDate = (deletedAt: Date): Date => new Date(deletedAt.getTime() + getTrashRetentionDays() * DAY_MS);
+
+/**
+ * A trashed row together with whatever went into the trash with it: deleting a master trashes its
+ * exceptions with the same timestamp, so they come back (or go) with it. Exceptions trashed on
+ * their own earlier stay where they are.
+ */
+export const trashBatchFilter = (event: { id: string; deletedAt: Date | null }): Prisma.EventWhereInput => ({
+  OR: [{ id: event.id }, { recurrenceId: event.id, deletedAt: event.deletedAt }],
+});
+
+/**
+ * Trashed items as the user sees them: single events, masters, and exceptions trashed on their own.
+ * Exceptions of a trashed master are part of the master's item.
+ */
+export const trashItemsFilter = async (userId: string): Promise<Prisma.EventWhereInput> => {
+  const trashedMasters = await prisma.event.findMany({
+    where: { userId, deletedAt: { not: null }, rrule: { not: null } },
+    select: { id: true },
+  });
+  return {
+    userId,
+    deletedAt: { not: null },
+    OR: [{ recurrenceId: null }, { recurrenceId: { notIn: trashedMasters.map(m => m.id) } }],
+  };
+};
+
+/**
+ * Permanently deletes events that have been in the trash longer than the retention period, along
+ * with every exception of a purged master. Returns how many rows were deleted.
+ */
+export const purgeTrash = async (now = new Date()): Promise<number> => {
+  const cutoff = new Date(now.getTime() - getTrashRetentionDays() * DAY_MS);
+  const expired = await prisma.event.findMany({ where: { deletedAt: { lt: cutoff } }, select: { id: true } });
+  if (expired.length === 0) return 0;
+  const ids = expired.map(e => e.id);
+  const { count } = await prisma.event.deleteMany({ where: { OR: [{ id: { in: ids } }, { recurrenceId: { in: ids } }] } });
+  return count;
+};
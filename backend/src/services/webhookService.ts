@@ -0,0 +1,188 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { promises as dns } from 'dns';
+import http from 'http';
+import https from 'https';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { isPublicAddress, literalAddress, publicLookup } from '../lib/network';
+
+export const WEBHOOK_EVENT_TYPES = ['event.created', 'event.updated', 'event.deleted', 'occurrence.cancelled'] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export const isWebhookEventType = (value: unknown): value is WebhookEventType =>
+  WEBHOOK_EVENT_TYPES.includes(value as WebhookEventType);
+
+export const generateWebhookSecret = () => randomBytes(32).toString('hex');
+
+// Attempt n waits RETRY_BASE_SECONDS * 2^(n-1) before the next one: 1, 2, 4, ... 64 minutes.
+export const MAX_ATTEMPTS = 8;
+const RETRY_BASE_SECONDS = 60;
+const REQUEST_TIMEOUT_MS = 10_000;
+// While an attempt is in flight its nextAttemptAt is pushed this far ahead, so nobody else picks it up.
+// Longer than the request timeout; if the process dies mid-attempt the delivery is retried after it.
+const ATTEMPT_LEASE_MS = 60_000;
+// How many due retries one scheduler pass works through.
+const RETRY_BATCH_SIZE = 100;
+
+/**
+ * Hex HMAC-SHA256 of `${timestamp}.${body}` with the subscription's secret. Receivers recompute it
+ * from the X-Webhook-Timestamp header and the raw request body and compare it with the one in
+ * X-Webhook-Signature ("sha256=<hex>"); the timestamp lets them reject old, replayed requests.
+ */
+export const signPayload = (secret: string, timestamp: string, body: string): string =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+const retryDelayMs = (attempts: number) => RETRY_BASE_SECONDS * 1000 * 2 ** (attempts - 1);
+
+const NON_PUBLIC_ERROR = 'url must point to a public address, not to this server or a private network';
+
+/**
+ * Why deliveries cannot go to the http(s) `url`, or null if they can: it must not point at this
+ * server or a private network, or users could probe it through the delivery log. A name that does
+ * not resolve yet is accepted; every delivery checks again where it connects to.
+ */
+export const webhookTargetError = async (url: string): Promise<string | null> => {
+  const target = new URL(url);
+  const literal = literalAddress(target);
+  if (literal) return isPublicAddress(literal) ? null : NON_PUBLIC_ERROR;
+  try {
+    const addresses = await dns.lookup(target.hostname, { all: true });
+    return addresses.every(({ address }) => isPublicAddress(address)) ? null : NON_PUBLIC_ERROR;
+  } catch {
+    return null;
+  }
+};
+
+// POSTs `body` to a public address only (see publicLookup) and resolves with the response status.
+// Redirects are not followed, so they cannot lead the signed body elsewhere.
+const postToPublicAddress = (url: string, headers: Record<string, string>, body: string): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const literal = literalAddress(target);
+    if (literal && !isPublicAddress(literal)) {
+      reject(new Error(`${literal} is not a public address`));
+      return;
+    }
+    const request = (target.protocol === 'https:' ? https : http).request(
+      target,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      },
+      response => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      },
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
+
+/**
+ * Makes one attempt at a pending delivery whose time has come. The attempt is claimed first, so
+ * the API process and the scheduler never send the same delivery at once. A 2xx response marks it
+ * delivered; anything else schedules a retry with backoff until MAX_ATTEMPTS is reached, after which
+ * it is marked failed. Returns whether it was delivered here.
+ */
+export const attemptDelivery = async (id: string, now: Date = new Date()): Promise<boolean> => {
+  const claimed = await prisma.webhookDelivery.updateMany({
+    where: { id, status: 'pending', nextAttemptAt: { lte: now } },
+    data: { attempts: { increment: 1 }, nextAttemptAt: new Date(now.getTime() + ATTEMPT_LEASE_MS) },
+  });
+  if (claimed.count === 0) return false;
+
+  const delivery = await prisma.webhookDelivery.findUniqueOrThrow({ where: { id }, include: { subscription: true } });
+  if (!delivery.subscription.active) {
+    await prisma.webhookDelivery.update({
+      where: { id },
+      data: { status: 'failed', nextAttemptAt: null, lastError: 'Subscription is disabled' },
+    });
+    return false;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  let statusCode: number | null = null;
+  let error: string | null = null;
+
+  try {
+    statusCode = await postToPublicAddress(delivery.subscription.url, {
+      'Content-Type': 'application/json',
+      'X-Webhook-Id': delivery.id,
+      'X-Webhook-Event': delivery.eventType,
+      'X-Webhook-Timestamp': timestamp,
+      'X-Webhook-Signature': `sha256=${signPayload(delivery.subscription.secret, timestamp, body)}`,
+    }, body);
+    if (statusCode < 200 || statusCode >= 300) error = `Endpoint responded with ${statusCode}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  if (!error) {
+    await prisma.webhookDelivery.update({
+      where: { id },
+      data: { status: 'succeeded', deliveredAt: new Date(), nextAttemptAt: null, lastStatusCode: statusCode, lastError: null },
+    });
+    return true;
+  }
+
+  const exhausted = delivery.attempts >= MAX_ATTEMPTS;
+  await prisma.webhookDelivery.update({
+    where: { id },
+    data: {
+      status: exhausted ? 'failed' : 'pending',
+      nextAttemptAt: exhausted ? null : new Date(Date.now() + retryDelayMs(delivery.attempts)),
+      lastStatusCode: statusCode,
+      lastError: error,
+    },
+  });
+  return false;
+};
+
+/**
+ * Records a delivery for each of the user's active subscriptions to `type` and makes the first
+ * attempt right away, without waiting for it. Retries are left to the scheduler. Never rejects:
+ * a webhook problem must not fail the change that triggered it.
+ */
+export const emitWebhook = async (userId: string, type: WebhookEventType, data: object): Promise<void> => {
+  try {
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: { userId, active: true, eventTypes: { has: type } },
+    });
+    const createdAt = new Date();
+
+    for (const subscription of subscriptions) {
+      const id = randomUUID();
+      // Round-tripped through JSON so Dates are stored the way they are sent.
+      const payload = JSON.parse(JSON.stringify({ id, type, createdAt, data })) as Prisma.InputJsonObject;
+      await prisma.webhookDelivery.create({
+        data: { id, subscriptionId: subscription.id, eventType: type, payload, nextAttemptAt: createdAt },
+      });
+      attemptDelivery(id).catch(error => console.error(`Webhook delivery ${id} failed:`, error));
+    }
+  } catch (error) {
+    console.error(`Failed to emit ${type} webhooks:`, error);
+  }
+};
+
+// One scheduler pass over the deliveries whose retry is due. Returns how many were delivered.
+export const retryWebhookDeliveries = async (now: Date = new Date()): Promise<number> => {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: RETRY_BATCH_SIZE,
+    select: { id: true },
+  });
+  let delivered = 0;
+  for (const { id } of due) {
+    try {
+      if (await attemptDelivery(id, now)) delivered++;
+    } catch (error) {
+      console.error(`Webhook delivery ${id} failed:`, error);
+    }
+  }
+  return delivered;
+};
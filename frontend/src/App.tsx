@@ -1,11 +1,42 @@
+import { useEffect, useState } from "react";
+import { LoaderCircle } from "lucide-react";
 import { Calendar } from "./components/Calendar";
+import { LoginScreen } from "./components/LoginScreen";
+import { fetchCurrentUser, getAuthToken, logout, onUnauthorized, type User } from "./api";
 
 function App() {
+  const [user, setUser] = useState<User | null>(null);
+  // A stored token still has to be checked before the calendar is shown.
+  const [checkingSession, setCheckingSession] = useState(() => !!getAuthToken());
+
+  useEffect(() => onUnauthorized(() => setUser(null)), []);
+
+  useEffect(() => {
+    if (!getAuthToken()) return;
+    fetchCurrentUser()
+      .then(setUser)
+      .catch(() => logout())
+      .finally(() => setCheckingSession(false));
+  }, []);
+
+  const handleLogout = () => {
+    logout();
+    setUser(null);
+  };
+
+  if (checkingSession) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background text-foreground">
+        <LoaderCircle className="animate-spin" size={32} />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen">
-      <Calendar />
+      {user ? <Calendar user={user} onUserChange={setUser} onLogout={handleLogout} /> : <LoginScreen onLogin={setUser} />}
     </div>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
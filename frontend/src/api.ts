@@ -1,52 +1,882 @@
 import axios from 'axios';
+import { clearOfflineData, deleteCache, deleteOutboxEntry, readCache, readCacheValues, readOutbox, writeCache, writeOutboxEntry } from './offlineStore';
 
 const API_URL = 'http://localhost:3000/events';
 
+const ICS_EXPORT_URL = 'http://localhost:3000/events.ics';
+const ICS_IMPORT_URL = 'http://localhost:3000/events/import';
+const CALENDARS_URL = 'http://localhost:3000/calendars';
+const AUTH_URL = 'http://localhost:3000/auth';
+const NOTIFICATIONS_URL = 'http://localhost:3000/notifications';
+const TRASH_URL = 'http://localhost:3000/trash';
+const SYNC_URL = 'http://localhost:3000/sync';
+
+// The login token survives reloads; every request carries it once set.
+const TOKEN_KEY = 'authToken';
+
+export interface User {
+  id: string;
+  email: string;
+  name?: string | null;
+  // Whether anyone with an account may see when this user is busy, not only people they share an event with.
+  shareFreeBusy?: boolean;
+}
+
+interface AuthResponse {
+  token: string;
+  user: User;
+}
+
+export const getAuthToken = () => localStorage.getItem(TOKEN_KEY);
+
+export const setAuthToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(TOKEN_KEY, token);
+    axios.defaults.headers.common.Authorization = `Bearer ${token}`;
+  } else {
+    localStorage.removeItem(TOKEN_KEY);
+    delete axios.defaults.headers.common.Authorization;
+  }
+};
+
+setAuthToken(getAuthToken());
+
+// Called whenever the API rejects the token (expired, or the account is gone).
+export const onUnauthorized = (handler: () => void) => {
+  const id = axios.interceptors.response.use(undefined, error => {
+    if (axios.isAxiosError(error) && error.response?.status === 401 && getAuthToken()) {
+      setAuthToken(null);
+      handler();
+    }
+    return Promise.reject(error);
+  });
+  return () => axios.interceptors.response.eject(id);
+};
+
+// A change the API recorded, which can be undone (and redone) with revertEvent.
+export interface RevisionRef {
+  eventId: string;
+  revisionId: string;
+}
+
+// Event writes list the revisions they recorded in this header, as `eventId:revisionId` pairs.
+const REVISIONS_HEADER = 'x-event-revisions';
+
+// Called with the revisions of every event write, in the order they were recorded.
+export const onRevisions = (handler: (revisions: RevisionRef[]) => void) => {
+  const id = axios.interceptors.response.use(response => {
+    const header = response.headers[REVISIONS_HEADER];
+    if (typeof header === 'string' && header !== '') {
+      handler(header.split(',').map(pair => {
+        const [eventId, revisionId] = pair.split(':');
+        return { eventId, revisionId };
+      }));
+    }
+    return response;
+  });
+  return () => axios.interceptors.response.eject(id);
+};
+
+// Identifies this tab to the API. Changes pushed back carry the id of the tab that made them, so a
+// tab can skip its own.
+export const CLIENT_ID = crypto.randomUUID();
+axios.defaults.headers.common['X-Client-Id'] = CLIENT_ID;
+
+// First delay before reopening a change stream the browser gave up on; doubles up to the maximum.
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+
+export type EventChangeType = 'event.created' | 'event.updated' | 'event.deleted' | 'occurrence.cancelled';
+
+// A change to an event, pushed to every open calendar of the people who can see it.
+export interface EventChange {
+  id: string;
+  type: EventChangeType;
+  // The stored row; for a series that is the master or an exception, not an expanded occurrence.
+  event: CalendarEvent & { deletedAt?: string | null };
+  actor: User | null;
+  // CLIENT_ID of the tab that made the change
+  origin: string | null;
+  createdAt: string;
+}
+
+interface ChangeHandlers {
+  onChange: (change: EventChange) => void;
+  // Changes were missed and cannot be replayed (e.g. the API restarted); reload what is shown.
+  onResync: () => void;
+}
+
+/**
+ * Listens to the API's change stream until the returned function is called. The browser reconnects
+ * dropped streams itself and the API replays what was missed; when the browser gives up (the API was
+ * down, or rejected the token) the stream is opened again here, from where it left off.
+ */
+export const subscribeToChanges = ({ onChange, onResync }: ChangeHandlers) => {
+  let source: EventSource | null = null;
+  let lastEventId: string | null = null;
+  let delay = RECONNECT_MIN_MS;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const open = () => {
+    const token = getAuthToken();
+    if (stopped || !token) return;
+    // EventSource cannot send an Authorization header.
+    const params = new URLSearchParams({ access_token: token });
+    if (lastEventId) params.set('lastEventId', lastEventId);
+    source = new EventSource(`${SYNC_URL}/stream?${params}`);
+
+    const track = (e: MessageEvent) => {
+      if (e.lastEventId) lastEventId = e.lastEventId;
+      delay = RECONNECT_MIN_MS;
+    };
+    source.addEventListener('ready', track);
+    source.addEventListener('change', e => {
+      track(e);
+      onChange(JSON.parse(e.data));
+    });
+    source.addEventListener('resync', e => {
+      track(e);
+      onResync();
+    });
+    source.onerror = () => {
+      if (source?.readyState !== EventSource.CLOSED) return;
+      timer = setTimeout(open, delay);
+      delay = Math.min(delay * 2, RECONNECT_MAX_MS);
+    };
+  };
+
+  open();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    source?.close();
+  };
+};
+
+// --- Offline mode ---
+// Fetched windows of events and the calendar list are kept in IndexedDB and shown from there while
+// the API cannot be reached. Event writes made meanwhile wait in an outbox, show up in the cached
+// windows, and are sent in order once the API is back.
+
+// Events created offline go by a temporary id until the API assigns theirs.
+const LOCAL_ID_PREFIX = 'local-';
+// How often the API is tried while it cannot be reached.
+const PROBE_INTERVAL_MS = 15_000;
+// Least recently fetched windows are dropped beyond this many.
+const MAX_CACHED_WINDOWS = 60;
+const EVENTS_CACHE_PREFIX = 'events:';
+const CALENDARS_CACHE_KEY = 'calendars';
+const USER_CACHE_KEY = 'user';
+
+export type OutboxAction = 'create' | 'update' | 'delete';
+
+// A write made while the API could not be reached, waiting to be sent.
+export interface OutboxEntry {
+  // Assigned when queued, in queue order
+  id: number;
+  action: OutboxAction;
+  // For a create, the temporary id the event is shown under until it is sent
+  eventId: string;
+  // The request body: the event or exception for a create, the changed fields for an update
+  data: Partial<CalendarEvent>;
+  // Of the event when the change was made, to show in the outbox
+  title: string;
+  // Of the event the change was made to; sent as If-Match
+  version?: number;
+  queuedAt: string;
+  // Set when the API turned the change down, e.g. for a conflict. It is then kept until the user
+  // retries or discards it.
+  error?: string;
+  status?: number;
+  conflicts?: { eventId: string; title: string; startTime: string; endTime: string }[];
+}
+
+// A GET /events response as it was last fetched.
+interface CachedWindow {
+  key: string;
+  start: string;
+  end: string;
+  calendars: string;
+  events: CalendarEvent[];
+  fetchedAt: string;
+}
+
+// Request options making a write conditional on the event still being at `version`.
+const ifMatch = (version?: number) => (version !== undefined ? { headers: { 'If-Match': `"${version}"` } } : undefined);
+
+// The stored event, when a write was refused because someone changed it since it was loaded (412).
+export const storedCopyOf = (error: unknown): CalendarEvent | null =>
+  (axios.isAxiosError(error) && error.response?.status === 412 && error.response.data?.current) || null;
+
+export const isLocalEvent = (event: Pick<CalendarEvent, 'id'>) => event.id.startsWith(LOCAL_ID_PREFIX);
+
+// No response at all, as opposed to one with an error status.
+const isNetworkError = (error: unknown) => axios.isAxiosError(error) && !error.response && error.code !== 'ERR_CANCELED';
+
+let offline = false;
+let probeTimer: ReturnType<typeof setTimeout> | undefined;
+const connectivityHandlers = new Set<(offline: boolean) => void>();
+const outboxHandlers = new Set<(entries: OutboxEntry[]) => void>();
+
+export const isOffline = () => offline;
+
+// Called when the API stops answering, and again once it is back and the outbox has been sent.
+export const onConnectivityChange = (handler: (offline: boolean) => void) => {
+  connectivityHandlers.add(handler);
+  return () => {
+    connectivityHandlers.delete(handler);
+  };
+};
+
+export const fetchOutbox = () => readOutbox<OutboxEntry>();
+
+// Called with the whole outbox whenever something is queued, sent or turned down.
+export const onOutboxChange = (handler: (entries: OutboxEntry[]) => void) => {
+  outboxHandlers.add(handler);
+  return () => {
+    outboxHandlers.delete(handler);
+  };
+};
+
+const notifyOutbox = async () => {
+  const entries = await fetchOutbox();
+  outboxHandlers.forEach(handler => handler(entries));
+};
+
+const probe = () => {
+  clearTimeout(probeTimer);
+  probeTimer = setTimeout(() => {
+    if (!getAuthToken()) return;
+    axios.get(`${AUTH_URL}/me`).catch(() => {}).finally(() => {
+      if (offline) probe();
+    });
+  }, PROBE_INTERVAL_MS);
+};
+
+const setOffline = (value: boolean) => {
+  if (value === offline) return;
+  offline = value;
+  if (offline) {
+    probe();
+    connectivityHandlers.forEach(handler => handler(true));
+  } else {
+    clearTimeout(probeTimer);
+    void syncOutbox().finally(() => connectivityHandlers.forEach(handler => handler(offline)));
+  }
+};
+
+// Every response tells whether the API can be reached.
+axios.interceptors.response.use(
+  response => {
+    setOffline(false);
+    return response;
+  },
+  error => {
+    if (isNetworkError(error)) setOffline(true);
+    else if (axios.isAxiosError(error) && error.response) setOffline(false);
+    return Promise.reject(error);
+  },
+);
+
+// The browser knows when the network comes back before the next probe does.
+window.addEventListener('online', () => {
+  if (offline) axios.get(`${AUTH_URL}/me`).catch(() => {});
+});
+
+const calendarsKey = (calendarIds?: string[]) => calendarIds?.join(',') ?? '*';
+
+const overlaps = (event: CalendarEvent, start: string, end: string) =>
+  new Date(event.startTime) < new Date(end) && new Date(event.endTime) > new Date(start);
+
+const cacheWindow = async (start: string, end: string, calendarIds: string[] | undefined, events: CalendarEvent[]) => {
+  const calendars = calendarsKey(calendarIds);
+  const key = `${EVENTS_CACHE_PREFIX}${calendars}|${start}|${end}`;
+  await writeCache(key, { key, start, end, calendars, events, fetchedAt: new Date().toISOString() } satisfies CachedWindow);
+
+  const windows = await readCacheValues<CachedWindow>(EVENTS_CACHE_PREFIX);
+  const stale = windows.sort((a, b) => b.fetchedAt.localeCompare(a.fetchedAt)).slice(MAX_CACHED_WINDOWS);
+  await Promise.all(stale.map(w => deleteCache(w.key)));
+};
+
+// The events of a window as last fetched, or cut from a larger window fetched for the same calendars.
+const cachedEvents = async (start: string, end: string, calendarIds?: string[]) => {
+  const calendars = calendarsKey(calendarIds);
+  const windows = await readCacheValues<CachedWindow>(EVENTS_CACHE_PREFIX);
+  const exact = windows.find(w => w.calendars === calendars && w.start === start && w.end === end);
+  if (exact) return exact.events;
+  const covering = windows.find(w => w.calendars === calendars && new Date(w.start) <= new Date(start) && new Date(w.end) >= new Date(end));
+  return covering?.events.filter(event => overlaps(event, start, end));
+};
+
+// A window's events with a queued change applied the way the API will apply it. Occurrences are
+// expanded by the API, so changes to a whole series only show once it has been sent.
+const applyChange = (window: CachedWindow, { action, eventId, data }: Pick<OutboxEntry, 'action' | 'eventId' | 'data'>) => {
+  const inWindow = (event: CalendarEvent) => overlaps(event, window.start, window.end);
+  if (action === 'delete') {
+    return window.events.filter(e => e.id !== eventId && e.masterId !== eventId && e.recurrenceId !== eventId);
+  }
+  if (action === 'update') {
+    return window.events.flatMap(e => (e.id === eventId ? [{ ...e, ...data }].filter(inWindow) : [e]));
+  }
+  const created = { ...data, id: eventId } as CalendarEvent;
+  // An exception takes the place of the occurrence it is for, or removes it when cancelled.
+  const replaced = data.recurrenceId && data.originalStartTime
+    ? `${data.recurrenceId}_${new Date(data.originalStartTime).getTime()}`
+    : null;
+  const kept = window.events.filter(e => e.id !== replaced && e.id !== eventId);
+  return created.isCancelled || !inWindow(created) ? kept : [...kept, created];
+};
+
+const updateCachedWindows = async (update: (window: CachedWindow) => CalendarEvent[]) => {
+  const windows = await readCacheValues<CachedWindow>(EVENTS_CACHE_PREFIX);
+  await Promise.all(windows.map(w => writeCache(w.key, { ...w, events: update(w) })));
+};
+
+/**
+ * Queues a write the API could not be reached for and shows it in the cached windows. Changes to
+ * an event created offline are folded into its queued create; deleting one drops the create, and
+ * with it any exceptions queued for it. Edits of a stored event are sent as one partial update.
+ */
+const queueChange = async (action: OutboxAction, eventId: string, data: Partial<CalendarEvent> = {}, version?: number) => {
+  const entries = await fetchOutbox();
+  const create = entries.find(e => e.action === 'create' && e.eventId === eventId);
+  // Later edits of an event join the one waiting for it, which has the version they build on.
+  const update = entries.find(e => e.action === 'update' && e.eventId === eventId && !e.error);
+  if (update && action === 'update') {
+    await writeOutboxEntry({ ...update, data: { ...update.data, ...data }, title: data.title ?? update.title } satisfies OutboxEntry);
+  } else if (create && action === 'update') {
+    // An edit is the user's answer to whatever the API objected to, so it is tried again.
+    await writeOutboxEntry({ ...create, data: { ...create.data, ...data }, title: data.title ?? create.title, error: undefined, status: undefined, conflicts: undefined });
+  } else if (update && action === 'delete') {
+    // The edit would only be thrown away, and would change the version the delete is checked against.
+    await writeOutboxEntry({ ...update, action, data } satisfies OutboxEntry);
+  } else if (create && action === 'delete') {
+    await Promise.all(entries.filter(e => e.eventId === eventId || e.data.recurrenceId === eventId).map(e => deleteOutboxEntry(e.id)));
+  } else {
+    const windows = await readCacheValues<CachedWindow>(EVENTS_CACHE_PREFIX);
+    const title = data.title ?? windows.flatMap(w => w.events).find(e => e.id === eventId || e.masterId === eventId)?.title ?? '';
+    await writeOutboxEntry({ action, eventId, data, title, version, queuedAt: new Date().toISOString() } satisfies Omit<OutboxEntry, 'id'>);
+  }
+  await updateCachedWindows(w => applyChange(w, { action, eventId, data }));
+  await notifyOutbox();
+  if (!offline) await syncOutbox();
+};
+
+// Once a queued create has been sent, everything else that refers to it by its temporary id is
+// pointed at the stored event.
+const replaceLocalId = async (localId: string, event: CalendarEvent) => {
+  const entries = await fetchOutbox();
+  await Promise.all(entries
+    .filter(e => e.eventId === localId || e.data.recurrenceId === localId)
+    .map(e => writeOutboxEntry({
+      ...e,
+      eventId: e.eventId === localId ? event.id : e.eventId,
+      data: { ...e.data, recurrenceId: e.data.recurrenceId === localId ? event.id : e.data.recurrenceId },
+    })));
+  await updateCachedWindows(w => w.events.map(e => (e.id === localId ? event : e)));
+};
+
+const sendEntry = async ({ action, eventId, data, version }: OutboxEntry) => {
+  if (action === 'create') {
+    const response = await axios.post<CalendarEvent>(API_URL, data);
+    await replaceLocalId(eventId, response.data);
+  } else if (action === 'update') {
+    await axios.patch<CalendarEvent>(`${API_URL}/${eventId}`, data, ifMatch(version));
+  } else {
+    try {
+      await axios.delete(`${API_URL}/${eventId}`, ifMatch(version));
+    } catch (error) {
+      // Deleted elsewhere in the meantime, which is what was asked for.
+      if (!(axios.isAxiosError(error) && error.response?.status === 404)) throw error;
+    }
+  }
+};
+
+const replayOutbox = async () => {
+  const attempted = new Set<number>();
+  // Entries are read again after each send: a create rewrites the ones that refer to its event.
+  for (;;) {
+    const entry = (await fetchOutbox()).find(e => !e.error && !attempted.has(e.id));
+    if (!entry) return;
+    attempted.add(entry.id);
+    try {
+      await sendEntry(entry);
+      await deleteOutboxEntry(entry.id);
+    } catch (error) {
+      if (isNetworkError(error)) return;
+      const response = axios.isAxiosError(error) ? error.response : undefined;
+      await writeOutboxEntry({
+        ...entry,
+        error: response?.data?.error || 'The change could not be saved.',
+        status: response?.status,
+        conflicts: response?.data?.conflicts,
+      } satisfies OutboxEntry);
+    } finally {
+      await notifyOutbox();
+    }
+  }
+};
+
+let replaying: Promise<void> | null = null;
+
+/**
+ * Sends the queued changes that are not waiting for the user, oldest first. Stops at the first one
+ * that cannot reach the API; ones it turns down are kept with its answer for the user to resolve.
+ */
+export const syncOutbox = () => {
+  replaying ??= replayOutbox()
+    .catch(error => console.error('Failed to send queued changes:', error))
+    .finally(() => {
+      replaying = null;
+    });
+  return replaying;
+};
+
+// Sends a change the API turned down again, optionally with some fields changed first (e.g. moved
+// to a free time). A change refused because the event was changed elsewhere (412) is sent without
+// its version, overwriting what was changed.
+export const retryOutboxEntry = async (entry: OutboxEntry, changes: Partial<CalendarEvent> = {}) => {
+  await writeOutboxEntry({
+    ...entry,
+    data: { ...entry.data, ...changes },
+    title: changes.title ?? entry.title,
+    version: entry.status === 412 ? undefined : entry.version,
+    error: undefined,
+    status: undefined,
+    conflicts: undefined,
+  } satisfies OutboxEntry);
+  if (Object.keys(changes).length > 0) {
+    await updateCachedWindows(w => applyChange(w, { action: entry.action, eventId: entry.eventId, data: changes }));
+  }
+  await syncOutbox();
+};
+
+// Turns an edit of an event that was deleted in the meantime into a new event with the same fields.
+export const saveOutboxEntryAsNew = async (entry: OutboxEntry) => {
+  await writeOutboxEntry({ ...entry, action: 'create', eventId: `${LOCAL_ID_PREFIX}${crypto.randomUUID()}`, version: undefined, error: undefined, status: undefined, conflicts: undefined } satisfies OutboxEntry);
+  await syncOutbox();
+};
+
+// Gives up on a queued change. What is shown comes from the API again on the next load.
+export const discardOutboxEntry = async (entry: OutboxEntry) => {
+  await deleteOutboxEntry(entry.id);
+  await notifyOutbox();
+};
+
+export const register = async (email: string, password: string, name?: string) => {
+  const response = await axios.post<AuthResponse>(`${AUTH_URL}/register`, { email, password, name });
+  setAuthToken(response.data.token);
+  return response.data.user;
+};
+
+export const login = async (email: string, password: string) => {
+  const response = await axios.post<AuthResponse>(`${AUTH_URL}/login`, { email, password });
+  setAuthToken(response.data.token);
+  return response.data.user;
+};
+
+// Offline data belongs to the account, so it goes too, along with changes that were never sent.
+export const logout = () => {
+  setAuthToken(null);
+  void clearOfflineData().catch(() => {});
+};
+
+// Offline, the account last seen is used, so a reload does not log the user out.
+export const fetchCurrentUser = async () => {
+  try {
+    const response = await axios.get<User>(`${AUTH_URL}/me`);
+    void writeCache(USER_CACHE_KEY, response.data).catch(() => {});
+    return response.data;
+  } catch (error) {
+    const cached = isNetworkError(error) ? await readCache<User>(USER_CACHE_KEY) : undefined;
+    if (!cached) throw error;
+    return cached;
+  }
+};
+
+export const updateCurrentUser = async (changes: Pick<User, 'shareFreeBusy'>) => {
+  const response = await axios.patch<User>(`${AUTH_URL}/me`, changes);
+  void writeCache(USER_CACHE_KEY, response.data).catch(() => {});
+  return response.data;
+};
+
+// A named, colored calendar that events belong to
+export interface CalendarInfo {
+  id: string;
+  name: string;
+  color: string;
+  description?: string | null;
+}
+
+export type RsvpStatus = 'needs-action' | 'accepted' | 'declined' | 'tentative';
+export type AttendeeRole = 'required' | 'optional';
+
+export interface Attendee {
+  id: string;
+  email: string;
+  // Set when the invitee has an account
+  userId?: string | null;
+  role: AttendeeRole;
+  status: RsvpStatus;
+}
+
+export type ReminderChannel = 'in-app' | 'email';
+
+// Set on a single event or a whole series; fires this long before each occurrence.
+export interface Reminder {
+  id: string;
+  minutesBefore: number;
+  channel: ReminderChannel;
+}
+
+// An entry in the in-app feed, currently always a reminder.
+export interface AppNotification {
+  id: string;
+  eventId?: string | null;
+  title: string;
+  // Start of the occurrence it is about
+  startTime: string;
+  readAt?: string | null;
+  createdAt: string;
+}
+
 // The 'export' here is crucial
 export interface CalendarEvent {
   id: string;
   title: string;
+  // Markdown
+  description?: string | null;
+  location?: string | null;
+  // Link to join online, e.g. a video call
+  url?: string | null;
   startTime: string; 
   endTime: string;
+  calendarId?: string;
+  // IANA zone the event was scheduled in; a series keeps its local time in this zone across DST.
+  timeZone?: string | null;
+  // All-day events are plain dates: startTime is midnight UTC of the first day, endTime of the day after the last.
+  allDay?: boolean;
+  // The organizer. Events owned by someone else are ones the user was invited to.
+  userId?: string;
+  user?: { email: string; name?: string | null };
+  attendees?: Attendee[];
   // Recurrence properties from the backend
   rrule?: string;
   isRecurringInstance?: boolean;
   masterId?: string;
   recurrenceId?: string;
   originalStartTime?: string;
+  isCancelled?: boolean;
+  // Start of the whole series, present on recurring instances
+  seriesStartTime?: string;
+  // Goes up with every change to the stored row; occurrences carry their series'. Writes pass the
+  // version they were based on and are refused if the event changed since (see storedCopyOf).
+  version?: number;
+}
+
+// A deleted event waiting in the trash. A trashed series comes back with its exceptions.
+export interface TrashedEvent extends CalendarEvent {
+  deletedAt: string;
+  // When it will be deleted for good
+  purgeAt: string;
+}
+
+export interface ImportItem {
+  uid: string;
+  title: string;
+  // Missing for events the file had but that could not be read
+  startTime?: string;
+  endTime?: string;
+  originalStartTime?: string;
+  isCancelled?: boolean;
+  reason?: string;
+  conflicts?: { eventId: string; title: string; startTime: string; endTime: string }[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  created: ImportItem[];
+  updated: ImportItem[];
+  skipped: ImportItem[];
+  conflicting: ImportItem[];
+}
+
+export interface SuggestedSlot {
+  start: string;
+  end: string;
+  // 0..1, higher means more free time around the slot
+  score: number;
 }
 
-export const fetchEvents = async (start: string, end: string) => {
-  const response = await axios.get<CalendarEvent[]>(API_URL, {
-    params: { start, end },
+export interface SlotQuery {
+  start: string;
+  end: string;
+  // Minutes
+  duration: number;
+  granularity?: number;
+  // Ids or emails of other people whose time must be free too
+  users?: string[];
+  workingHours?: { start: string; end: string; days: number[]; timeZone: string };
+  limit?: number;
+}
+
+// The free-form fields of an event. Occurrences show their series' details unless given their own.
+export type EventDetails = Pick<CalendarEvent, 'description' | 'location' | 'url'>;
+
+// Which part of a recurring series an edit applies to.
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
+// Without calendarIds, events from every calendar are returned. While the API cannot be reached,
+// the window is served from the offline cache if it (or a larger one) was fetched before.
+export const fetchEvents = async (start: string, end: string, calendarIds?: string[]) => {
+  try {
+    const response = await axios.get<CalendarEvent[]>(API_URL, {
+      params: { start, end, calendarIds: calendarIds?.join(',') },
+    });
+    void cacheWindow(start, end, calendarIds, response.data).catch(() => {});
+    return response.data;
+  } catch (error) {
+    const cached = isNetworkError(error) ? await cachedEvents(start, end, calendarIds) : undefined;
+    if (!cached) throw error;
+    return cached;
+  }
+};
+
+export interface SearchQuery {
+  q: string;
+  // Defaults to a year either side of now
+  from?: string;
+  to?: string;
+  // Without calendarIds, every calendar is searched.
+  calendarIds?: string[];
+}
+
+// Occurrences whose title or description contains every word of `q`, earliest first.
+export const searchEvents = async ({ q, from, to, calendarIds }: SearchQuery) => {
+  const response = await axios.get<CalendarEvent[]>(`${API_URL}/search`, {
+    params: { q, from, to, calendar: calendarIds?.join(',') },
   });
   return response.data;
 };
 
+// Offline, the event is queued and comes back with a temporary id (see isLocalEvent).
 export const createEvent = async (data: Partial<CalendarEvent>) => {
-  const response = await axios.post<CalendarEvent>(API_URL, {
+  const body = {
     title: data.title,
+    description: data.description,
+    location: data.location,
+    url: data.url,
     startTime: data.startTime,
     endTime: data.endTime,
+    timeZone: data.timeZone,
+    allDay: data.allDay,
     rrule: data.rrule,
+    calendarId: data.calendarId,
     // For creating exceptions
     recurrenceId: data.recurrenceId,
     originalStartTime: data.originalStartTime,
     isCancelled: data.isCancelled,
-  });
-  return response.data;
+  };
+  try {
+    const response = await axios.post<CalendarEvent>(API_URL, body);
+    return response.data;
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    const event = { ...body, id: `${LOCAL_ID_PREFIX}${crypto.randomUUID()}` } as CalendarEvent;
+    await queueChange('create', event.id, body);
+    return event;
+  }
 };
 
-export const updateEvent = async (id: string, title: string, startTime: string, endTime: string, rrule?: string) => {
-  const response = await axios.put<CalendarEvent>(`${API_URL}/${id}`, {
+// Details left out of `details` are kept as they are. With `version`, the update is refused if the
+// event changed since (see storedCopyOf). Offline, or for an event that has not been sent yet, the
+// change is queued.
+export const updateEvent = async (id: string, title: string, startTime: string, endTime: string, rrule?: string, calendarId?: string, timeZone?: string | null, allDay?: boolean, details: EventDetails = {}, version?: number) => {
+  const body = {
     title,
     startTime,
     endTime,
     rrule,
+    calendarId,
+    timeZone,
+    allDay,
+    ...details,
+  };
+  if (!isLocalEvent({ id })) {
+    try {
+      const response = await axios.put<CalendarEvent>(`${API_URL}/${id}`, body, ifMatch(version));
+      return response.data;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+  await queueChange('update', id, body, version);
+  return { id, ...body } as CalendarEvent;
+};
+
+// Changes only the given fields, e.g. just the times of a dragged event. Versions and offline
+// behave as for updateEvent.
+export const patchEvent = async (id: string, changes: Partial<CalendarEvent>, version?: number) => {
+  if (!isLocalEvent({ id })) {
+    try {
+      const response = await axios.patch<CalendarEvent>(`${API_URL}/${id}`, changes, ifMatch(version));
+      return response.data;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+  await queueChange('update', id, changes, version);
+  return { id, ...changes } as CalendarEvent;
+};
+
+// Ends the series before `occurrenceStart` and starts a new one there with the given fields.
+export const splitSeries = async (masterId: string, occurrenceStart: string, data: Partial<CalendarEvent>) => {
+  const response = await axios.post<CalendarEvent>(`${API_URL}/${masterId}/split`, {
+    occurrenceStart,
+    title: data.title,
+    description: data.description,
+    location: data.location,
+    url: data.url,
+    startTime: data.startTime,
+    endTime: data.endTime,
+    timeZone: data.timeZone,
+    allDay: data.allDay,
+    rrule: data.rrule,
+    calendarId: data.calendarId,
+  });
+  return response.data;
+};
+
+// Versions and offline behave as for updateEvent.
+export const deleteEvent = async (id: string, version?: number) => {
+  if (!isLocalEvent({ id })) {
+    try {
+      await axios.delete(`${API_URL}/${id}`, ifMatch(version));
+      return;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+  await queueChange('delete', id, {}, version);
+};
+
+// Puts an event back the way it was before a revision ('before', undo) or after it ('after', redo).
+export const revertEvent = async ({ eventId, revisionId }: RevisionRef, to: 'before' | 'after') => {
+  await axios.post(`${API_URL}/${eventId}/revert`, { revisionId, to });
+};
+
+export const fetchTrash = async () => {
+  const response = await axios.get<TrashedEvent[]>(TRASH_URL);
+  return response.data;
+};
+
+export const restoreFromTrash = async (id: string) => {
+  const response = await axios.post<CalendarEvent>(`${TRASH_URL}/${id}/restore`);
+  return response.data;
+};
+
+// Deletes a trashed event for good.
+export const purgeFromTrash = async (id: string) => {
+  await axios.delete(`${TRASH_URL}/${id}`);
+};
+
+export const emptyTrash = async () => {
+  await axios.delete(TRASH_URL);
+};
+
+export const inviteAttendee = async (eventId: string, email: string, role: AttendeeRole = 'required') => {
+  const response = await axios.post<Attendee>(`${API_URL}/${eventId}/attendees`, { email, role });
+  return response.data;
+};
+
+export const removeAttendee = async (eventId: string, attendeeId: string) => {
+  await axios.delete(`${API_URL}/${eventId}/attendees/${attendeeId}`);
+};
+
+// With occurrenceStart, the response only applies to that occurrence of a series.
+export const respondToInvitation = async (eventId: string, status: RsvpStatus, occurrenceStart?: string) => {
+  const response = await axios.post<Attendee>(`${API_URL}/${eventId}/rsvp`, { status, occurrenceStart });
+  return response.data;
+};
+
+export const fetchReminders = async (eventId: string) => {
+  const response = await axios.get<Reminder[]>(`${API_URL}/${eventId}/reminders`);
+  return response.data;
+};
+
+export const addReminder = async (eventId: string, minutesBefore: number, channel: ReminderChannel) => {
+  const response = await axios.post<Reminder>(`${API_URL}/${eventId}/reminders`, { minutesBefore, channel });
+  return response.data;
+};
+
+export const deleteReminder = async (eventId: string, reminderId: string) => {
+  await axios.delete(`${API_URL}/${eventId}/reminders/${reminderId}`);
+};
+
+export const fetchNotifications = async () => {
+  const response = await axios.get<{ notifications: AppNotification[]; unreadCount: number }>(NOTIFICATIONS_URL);
+  return response.data;
+};
+
+export const markNotificationRead = async (id: string) => {
+  await axios.post(`${NOTIFICATIONS_URL}/${id}/read`);
+};
+
+export const markAllNotificationsRead = async () => {
+  await axios.post(`${NOTIFICATIONS_URL}/read-all`);
+};
+
+export const suggestSlots = async (query: SlotQuery) => {
+  const response = await axios.post<SuggestedSlot[]>(`${API_URL}/suggest-slots`, query);
+  return response.data;
+};
+
+// Downloads the whole calendar as an iCalendar file. A plain link cannot send the auth header,
+// so the file is fetched and handed to the browser as a blob.
+export const exportCalendar = async () => {
+  const response = await axios.get<Blob>(ICS_EXPORT_URL, { responseType: 'blob' });
+  const url = URL.createObjectURL(response.data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'calendar.ics';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Uploads an .ics file. With dryRun (the default) nothing is saved; the report shows what would happen.
+export const importCalendar = async (file: File, dryRun = true) => {
+  const response = await axios.post<ImportReport>(ICS_IMPORT_URL, await file.text(), {
+    params: { dryRun },
+    headers: { 'Content-Type': 'text/calendar' },
   });
   return response.data;
 };
 
-export const deleteEvent = async (id: string) => {
-  await axios.delete(`${API_URL}/${id}`);
-};
\ No newline at end of file
+// Served from the offline cache while the API cannot be reached.
+export const fetchCalendars = async () => {
+  try {
+    const response = await axios.get<CalendarInfo[]>(CALENDARS_URL);
+    void writeCache(CALENDARS_CACHE_KEY, response.data).catch(() => {});
+    return response.data;
+  } catch (error) {
+    const cached = isNetworkError(error) ? await readCache<CalendarInfo[]>(CALENDARS_CACHE_KEY) : undefined;
+    if (!cached) throw error;
+    return cached;
+  }
+};
+
+export const createCalendar = async (data: Omit<CalendarInfo, 'id'>) => {
+  const response = await axios.post<CalendarInfo>(CALENDARS_URL, data);
+  return response.data;
+};
+
+export const updateCalendar = async (id: string, data: Omit<CalendarInfo, 'id'>) => {
+  const response = await axios.put<CalendarInfo>(`${CALENDARS_URL}/${id}`, data);
+  return response.data;
+};
+
+// Deletes a calendar. The API refuses (409) while it still has events.
+export const deleteCalendar = async (id: string) => {
+  await axios.delete(`${CALENDARS_URL}/${id}`);
+};
@@ -0,0 +1,119 @@
+import { addDays, addMonths, endOfMonth, endOfWeek, format, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+import type { CalendarEvent } from './api';
+
+export type CalendarView = 'month' | 'week' | 'day' | 'agenda';
+
+export const CALENDAR_VIEWS: { value: CalendarView; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'day', label: 'Day' },
+  { value: 'agenda', label: 'Agenda' },
+];
+
+// How far ahead the agenda lists events.
+export const AGENDA_DAYS = 30;
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const; // Monday start
+
+// The [start, end) range a view shows for the given date; events are fetched for exactly this window.
+export const viewRange = (view: CalendarView, date: Date): { start: Date; end: Date } => {
+  switch (view) {
+    case 'month': {
+      // Whole weeks, so the grid's leading and trailing days show their events too.
+      const start = startOfWeek(startOfMonth(date), WEEK_OPTIONS);
+      return { start, end: addDays(startOfDay(endOfWeek(endOfMonth(date), WEEK_OPTIONS)), 1) };
+    }
+    case 'week': {
+      const start = startOfWeek(date, WEEK_OPTIONS);
+      return { start, end: addDays(start, 7) };
+    }
+    case 'day':
+      return { start: startOfDay(date), end: addDays(startOfDay(date), 1) };
+    case 'agenda':
+      return { start: startOfDay(date), end: addDays(startOfDay(date), AGENDA_DAYS) };
+  }
+};
+
+// The date the prev/next buttons move to.
+export const stepDate = (view: CalendarView, date: Date, direction: 1 | -1): Date => {
+  switch (view) {
+    case 'month':
+      return addMonths(date, direction);
+    case 'week':
+      return addDays(date, 7 * direction);
+    case 'day':
+      return addDays(date, direction);
+    case 'agenda':
+      return addDays(date, AGENDA_DAYS * direction);
+  }
+};
+
+// Heading shown between the prev/next buttons.
+export const viewTitle = (view: CalendarView, date: Date): string => {
+  const { start, end } = viewRange(view, date);
+  switch (view) {
+    case 'month':
+      return format(date, 'MMMM yyyy');
+    case 'day':
+      return format(date, 'EEE, MMM d');
+    default:
+      return `${format(start, 'MMM d')} - ${format(addDays(end, -1), 'MMM d')}`;
+  }
+};
+
+// Every day in [start, end).
+export const daysBetween = (start: Date, end: Date): Date[] => {
+  const days: Date[] = [];
+  for (let day = start; day < end; day = addDays(day, 1)) days.push(day);
+  return days;
+};
+
+// "2026-10-19" as an all-day event stores it: midnight UTC.
+export const plainDateToIso = (date: string): string => `${date}T00:00:00.000Z`;
+
+// The stored plain date of an all-day event, as local midnight of that same date.
+const plainDateToLocal = (iso: string): Date => {
+  const date = new Date(iso);
+  return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+};
+
+// When an event starts and ends locally. All-day events show on their own dates wherever the viewer is.
+export const eventSpan = (event: CalendarEvent): { start: Date; end: Date } =>
+  event.allDay
+    ? { start: plainDateToLocal(event.startTime), end: plainDateToLocal(event.endTime) }
+    : { start: new Date(event.startTime), end: new Date(event.endTime) };
+
+// Whether any part of the event falls on `day` (a local midnight).
+export const occursOn = (event: CalendarEvent, day: Date): boolean => {
+  const { start, end } = eventSpan(event);
+  return start < addDays(day, 1) && end > day;
+};
+
+// An all-day event's bar in a row of days: the first and last column it covers, and its lane.
+export interface AllDayBar {
+  event: CalendarEvent;
+  first: number;
+  last: number;
+  lane: number;
+}
+
+// Stacks all-day events into lanes so bars in the same lane never overlap. Earlier (then longer) events get the upper lanes.
+export const layoutAllDayBars = (events: CalendarEvent[], days: Date[]): AllDayBar[] => {
+  const laneEnds: number[] = [];
+  const bars: AllDayBar[] = [];
+  const sorted = [...events].sort((a, b) =>
+    new Date(a.startTime).getTime() - new Date(b.startTime).getTime() ||
+    new Date(b.endTime).getTime() - new Date(a.endTime).getTime());
+
+  for (const event of sorted) {
+    const covered = days.flatMap((day, i) => (occursOn(event, day) ? [i] : []));
+    if (covered.length === 0) continue;
+    const first = covered[0];
+    const last = covered[covered.length - 1];
+    let lane = laneEnds.findIndex(end => end < first);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = last;
+    bars.push({ event, first, last, lane });
+  }
+  return bars;
+};
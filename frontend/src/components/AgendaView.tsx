@@ -0,0 +1,72 @@
+import React from 'react';
+import { format, isSameDay } from 'date-fns';
+import { clsx } from 'clsx';
+import type { CalendarEvent } from '../api';
+import { AGENDA_DAYS, daysBetween, occursOn, viewRange } from '../calendarView';
+
+interface AgendaViewProps {
+  date: Date;
+  events: CalendarEvent[];
+  colorOf: (event: CalendarEvent) => string;
+  isDeclined: (event: CalendarEvent) => boolean;
+  // Picked from the search results.
+  highlightedId?: string | null;
+  onSelectEvent: (event: CalendarEvent) => void;
+}
+
+// A scrolling list of the coming days that have events, each with its events in start order.
+// Events spanning several days are listed under each of them.
+export const AgendaView: React.FC<AgendaViewProps> = ({ date, events, colorOf, isDeclined, highlightedId, onSelectEvent }) => {
+  const { start, end } = viewRange('agenda', date);
+  const sorted = [...events].sort((a, b) =>
+    Number(!!b.allDay) - Number(!!a.allDay) || new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+  const groups = daysBetween(start, end)
+    .map(day => ({ day, events: sorted.filter(e => occursOn(e, day)) }))
+    .filter(group => group.events.length > 0);
+
+  if (groups.length === 0) {
+    return (
+      <div className="p-12 text-center text-foreground/60">
+        Nothing scheduled in the next {AGENDA_DAYS} days.
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto p-6 space-y-6">
+      {groups.map(({ day, events: dayEvents }) => {
+        const today = isSameDay(day, new Date());
+        return (
+          <section key={day.toISOString()}>
+            <h2 className={clsx("sticky top-0 z-10 bg-background py-2 text-sm font-bold uppercase border-b border-border", today ? "text-primary" : "text-foreground/60")}>
+              {format(day, 'EEEE, MMMM d')}{today && ' · Today'}
+            </h2>
+            <ul className="divide-y divide-border">
+              {dayEvents.map(event => {
+                const color = colorOf(event);
+                const declined = isDeclined(event);
+                return (
+                  <li key={event.id}>
+                    <button
+                      type="button"
+                      onClick={() => onSelectEvent(event)}
+                      data-highlighted={event.id === highlightedId || undefined}
+                      className={clsx("w-full flex items-center gap-4 px-2 py-3 text-left text-sm hover:bg-card transition-colors", declined && "opacity-50", event.id === highlightedId && "bg-primary/10 ring-2 ring-primary rounded-md")}
+                    >
+                      <span className="w-36 shrink-0 font-medium" style={{ color }}>
+                        {event.allDay ? 'All day' : `${format(new Date(event.startTime), 'h:mm a')} - ${format(new Date(event.endTime), 'h:mm a')}`}
+                      </span>
+                      <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ backgroundColor: color }} />
+                      <span className={clsx("font-semibold text-foreground truncate", declined && "line-through")}>{event.title}</span>
+                      {event.location && <span className="text-foreground/60 truncate">{event.location}</span>}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { X } from 'lucide-react';
+import { clsx } from 'clsx';
+import { inviteAttendee, removeAttendee, respondToInvitation, type Attendee, type AttendeeRole, type CalendarEvent, type RsvpStatus } from '../api';
+
+// Keeps its own copy of the attendees once mounted; render it with a key per event.
+interface AttendeeListProps {
+  event: CalendarEvent;
+  currentUserId: string;
+  // Called after any invitation or response was saved, so the grid can reload.
+  onChange: () => void;
+}
+
+const STATUS_LABELS: Record<RsvpStatus, string> = {
+  'needs-action': 'Awaiting reply',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  tentative: 'Maybe',
+};
+
+const STATUS_CLASSES: Record<RsvpStatus, string> = {
+  'needs-action': 'bg-border text-foreground/70',
+  accepted: 'bg-green-500/15 text-green-700 dark:text-green-400',
+  declined: 'bg-red-500/15 text-red-700 dark:text-red-400',
+  tentative: 'bg-amber-500/15 text-amber-700 dark:text-amber-400',
+};
+
+const RESPONSES: RsvpStatus[] = ['accepted', 'tentative', 'declined'];
+
+export const AttendeeList: React.FC<AttendeeListProps> = ({ event, currentUserId, onChange }) => {
+  const [attendees, setAttendees] = useState<Attendee[]>(event.attendees ?? []);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<AttendeeRole>('required');
+  // For invitations to a series: answer for this occurrence only, or for all of them.
+  const [respondToAll, setRespondToAll] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOrganizer = !event.userId || event.userId === currentUserId;
+  const self = attendees.find(a => a.userId === currentUserId);
+  // Invitations and removals on an occurrence apply to the whole series.
+  const seriesId = event.isRecurringInstance ? event.masterId! : event.id;
+
+  // This sits inside the event form, so Enter must not submit it.
+  const handleInvite = async (e: React.SyntheticEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    setError(null);
+    try {
+      const attendee = await inviteAttendee(seriesId, email.trim(), role);
+      setAttendees(prev => [...prev, attendee]);
+      setEmail('');
+      onChange();
+    } catch (err) {
+      setError(axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : "Failed to send the invitation.");
+    }
+  };
+
+  const handleRemove = async (attendee: Attendee) => {
+    setError(null);
+    try {
+      await removeAttendee(seriesId, attendee.id);
+      setAttendees(prev => prev.filter(a => a.id !== attendee.id));
+      onChange();
+    } catch {
+      setError("Failed to remove the attendee.");
+    }
+  };
+
+  const handleRespond = async (status: RsvpStatus) => {
+    setError(null);
+    try {
+      if (event.isRecurringInstance && !respondToAll) {
+        await respondToInvitation(event.masterId!, status, event.startTime);
+      } else {
+        await respondToInvitation(seriesId, status);
+      }
+      setAttendees(prev => prev.map(a => (a.userId === currentUserId ? { ...a, status } : a)));
+      onChange();
+    } catch {
+      setError("Failed to save your response.");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <span className="block text-sm font-medium text-foreground/80">Attendees</span>
+
+      {!isOrganizer && event.user && (
+        <p className="text-xs text-foreground/60">Organized by {event.user.name || event.user.email}</p>
+      )}
+
+      {attendees.length > 0 ? (
+        <ul className="space-y-1 max-h-32 overflow-y-auto">
+          {attendees.map(attendee => (
+            <li key={attendee.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate">
+                {attendee.email}
+                {attendee.role === 'optional' && <span className="text-foreground/50"> (optional)</span>}
+              </span>
+              <span className="flex items-center gap-1 shrink-0">
+                <span className={clsx('px-2 py-0.5 rounded-full text-xs font-medium', STATUS_CLASSES[attendee.status])}>
+                  {STATUS_LABELS[attendee.status]}
+                </span>
+                {isOrganizer && (
+                  <button type="button" onClick={() => handleRemove(attendee)} title="Remove" className="text-foreground/40 hover:text-red-500">
+                    <X size={14} />
+                  </button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-foreground/50">No one has been invited yet.</p>
+      )}
+
+      {isOrganizer && (
+        <div className="flex gap-2">
+          <input
+            type="email"
+            placeholder="name@example.com"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') handleInvite(e); }}
+            className="flex-1 min-w-0 bg-background border border-border rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-ring outline-none"
+          />
+          <select value={role} onChange={e => setRole(e.target.value as AttendeeRole)} className="bg-background border border-border rounded-md px-2 py-1.5 text-sm focus:ring-2 focus:ring-ring outline-none">
+            <option value="required">Required</option>
+            <option value="optional">Optional</option>
+          </select>
+          <button type="button" onClick={handleInvite} className="px-3 py-1.5 rounded-md text-sm font-medium bg-border hover:bg-border/80">
+            Invite
+          </button>
+        </div>
+      )}
+
+      {self && (
+        <div className="space-y-2 pt-1">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-foreground/80">Going?</span>
+            {RESPONSES.map(status => (
+              <button
+                key={status}
+                type="button"
+                onClick={() => handleRespond(status)}
+                className={clsx('px-3 py-1 rounded-full text-xs font-medium border border-border', self.status === status ? STATUS_CLASSES[status] : 'hover:bg-border/80')}
+              >
+                {STATUS_LABELS[status]}
+              </button>
+            ))}
+          </div>
+          {event.isRecurringInstance && (
+            <label className="flex items-center gap-2 text-xs text-foreground/70">
+              <input type="checkbox" checked={respondToAll} onChange={e => setRespondToAll(e.target.checked)} />
+              Apply to all events in the series
+            </label>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -1,53 +1,197 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { startOfWeek, addDays, format, startOfDay, addHours, isSameDay, getDay, add, roundToNearestMinutes } from 'date-fns';
-import { fetchEvents, createEvent, updateEvent, deleteEvent, type CalendarEvent } from '../api';
-import { ChevronLeft, ChevronRight, Trash2, Calendar as CalendarIcon, AlertCircle, Plus, LoaderCircle } from 'lucide-react';
+import axios from 'axios';
+import { addDays, addMinutes, clamp, format, startOfDay, addHours, isSameDay, add, roundToNearestMinutes } from 'date-fns';
+import { fetchEvents, subscribeToChanges, CLIENT_ID, createEvent, updateEvent, patchEvent, deleteEvent, storedCopyOf, splitSeries, revertEvent, onRevisions, restoreFromTrash, isOffline, onConnectivityChange, fetchOutbox, onOutboxChange, syncOutbox, importCalendar, exportCalendar, fetchCalendars, createCalendar, updateCalendar, deleteCalendar, type CalendarEvent, type CalendarInfo, type ImportReport, type User, type RecurrenceScope, type RevisionRef, type EventChange, type OutboxEntry } from '../api';
+import { ChevronLeft, ChevronRight, Trash2, Calendar as CalendarIcon, AlertCircle, Plus, LoaderCircle, Download, Upload, LogOut, Clock, MapPin, Video, RefreshCw, CloudOff } from 'lucide-react';
 import { clsx } from 'clsx';
 import { EventModal } from './EventModal';
 import { ThemeToggle } from './ThemeToggle';
-import { DndContext, DragOverlay, PointerSensor, useSensor, useSensors, useDraggable } from '@dnd-kit/core';
+import { RecurrenceScopeDialog } from './RecurrenceScopeDialog';
+import { ImportDialog } from './ImportDialog';
+import { CalendarSidebar } from './CalendarSidebar';
+import { SlotFinderDialog } from './SlotFinderDialog';
+import { TrashPanel } from './TrashPanel';
+import { OutboxDialog } from './OutboxDialog';
+import { StaleEventDialog, type StaleChoice } from './StaleEventDialog';
+import { NotificationBell } from './NotificationBell';
+import { EventSearch } from './EventSearch';
+import { EventHoverCard } from './EventHoverCard';
+import { MonthView } from './MonthView';
+import { AgendaView } from './AgendaView';
+import { layoutDay } from '../eventLayout';
+import { changedFields, type StaleWrite } from '../eventMerge';
+import { CALENDAR_VIEWS, daysBetween, eventSpan, layoutAllDayBars, stepDate, viewRange, viewTitle, type CalendarView } from '../calendarView';
+import { DndContext, DragOverlay, PointerSensor, useSensor, useSensors, useDraggable, type DragMoveEvent } from '@dnd-kit/core';
 import { CSS } from '@dnd-kit/utilities';
 
+// h-20 = 5rem = 80px per hour in the time grid.
+const HOUR_HEIGHT_PX = 80;
+// Moving, resizing and sketching all snap to this many minutes.
+const SNAP_MINUTES = 15;
+
+// How far the end of a block may be dragged: never before its start, nor past the end of its day.
+interface ResizeBounds {
+  min: Date;
+  max: Date;
+}
+
+// Where a resized event ends: its end moved by the drag, snapped, and kept within the bounds.
+const resizedEnd = (event: CalendarEvent, bounds: ResizeBounds, deltaY: number): Date => {
+  const moved = add(new Date(event.endTime), { minutes: Math.round((deltaY / HOUR_HEIGHT_PX) * 60) });
+  return clamp(roundToNearestMinutes(moved, { nearestTo: SNAP_MINUTES }), { start: bounds.min, end: bounds.max });
+};
+
+// The bottom edge of an event block. Dragging it changes only the event's end.
+const ResizeHandle = ({ id, event, bounds }: { id: string; event: CalendarEvent; bounds: ResizeBounds }) => {
+  const { attributes, listeners, setNodeRef } = useDraggable({ id: `resize:${id}`, data: { event, resize: bounds } });
+  return (
+    <div
+      ref={setNodeRef}
+      {...listeners}
+      {...attributes}
+      onClick={e => e.stopPropagation()}
+      className="absolute bottom-0 inset-x-0 h-2 cursor-ns-resize z-20"
+    />
+  );
+};
+
 interface DraggableEventProps {
+  // Unique per rendered block; an event crossing midnight is drawn once per day.
+  id: string;
   event: CalendarEvent;
   children: React.ReactNode;
   style: React.CSSProperties;
+  disabled?: boolean;
+  // Set on the block holding the event's end, which gets a resize handle.
+  resize?: ResizeBounds;
 }
 
-const DraggableEvent = ({ event, children, style: positionStyle }: DraggableEventProps) => {
-  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({ id: event.id, data: { event } });
+const DraggableEvent = ({ id, event, children, style: positionStyle, disabled, resize }: DraggableEventProps) => {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({ id, data: { event }, disabled });
   const style = {
     ...positionStyle,
     transform: CSS.Translate.toString(transform),
     opacity: isDragging ? 0.5 : 1, // Make the original item semi-transparent while dragging
   };
-  return <div ref={setNodeRef} style={style} className="absolute" {...listeners} {...attributes}>{children}</div>;
+  return (
+    <div ref={setNodeRef} style={style} className="absolute" {...listeners} {...attributes}>
+      {children}
+      {resize && !disabled && <ResizeHandle id={id} event={event} bounds={resize} />}
+    </div>
+  );
+};
+
+// Used for events whose calendar is not known (yet).
+const DEFAULT_EVENT_COLOR = '#3b82f6';
+
+// How long an event picked from the search results stays highlighted.
+const HIGHLIGHT_MS = 4000;
+
+// The hover card opens after the pointer rests on a block, and closes a moment after it leaves
+// (long enough to move onto the card).
+const HOVER_OPEN_MS = 400;
+const HOVER_CLOSE_MS = 150;
+
+// A change as the user made it. Some write several revisions (splitting a series writes two).
+interface UndoEntry {
+  label: string;
+  revisions: RevisionRef[];
+}
+
+// How many changes can be undone.
+const UNDO_LIMIT = 50;
+// How long the toast offering to undo (or redo) stays up.
+const TOAST_MS = 6000;
+// How long the note that events on screen were changed elsewhere stays up.
+const REMOTE_NOTICE_MS = 8000;
+
+// The view and the date it shows are restored on reload.
+const loadStoredView = (): CalendarView => {
+  const stored = localStorage.getItem('calendarView');
+  return CALENDAR_VIEWS.some(v => v.value === stored) ? stored as CalendarView : 'week';
+};
+
+const loadStoredDate = (): Date => {
+  const stored = new Date(localStorage.getItem('calendarDate') ?? '');
+  return isNaN(stored.getTime()) ? new Date() : stored;
 };
 
-export const Calendar = () => {
-  const [currentDate, setCurrentDate] = useState(new Date());
+interface CalendarProps {
+  user: User;
+  onUserChange: (user: User) => void;
+  onLogout: () => void;
+}
+
+export const Calendar = ({ user, onUserChange, onLogout }: CalendarProps) => {
+  const [view, setView] = useState<CalendarView>(loadStoredView);
+  const [currentDate, setCurrentDate] = useState<Date>(loadStoredDate);
   const [events, setEvents] = useState<CalendarEvent[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [modalInitialDate, setModalInitialDate] = useState<Date>(new Date());
+  const [modalInitialEndDate, setModalInitialEndDate] = useState<Date | undefined>(undefined);
+  const [isSlotFinderOpen, setIsSlotFinderOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
   const [eventToEdit, setEventToEdit] = useState<CalendarEvent | null>(null);
-  const [activeEvent, setActiveEvent] = useState<CalendarEvent | null>(null);
+  // The event being dragged, with the size of the block it was picked up from for the drag preview.
+  const [activeDrag, setActiveDrag] = useState<{ event: CalendarEvent; width: number; height: number } | null>(null);
+  const [scopePrompt, setScopePrompt] = useState<((scope: RecurrenceScope | null) => void) | null>(null);
+  const [calendars, setCalendars] = useState<CalendarInfo[]>([]);
+  // Hidden rather than visible ids are stored, so newly created calendars show up by default.
+  const [hiddenCalendarIds, setHiddenCalendarIds] = useState<string[]>(() => JSON.parse(localStorage.getItem('hiddenCalendars') ?? '[]'));
+  const [pendingImport, setPendingImport] = useState<{ file: File; report: ImportReport } | null>(null);
+  // Id of the occurrence picked from the search results, highlighted wherever it is shown.
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [hoverCard, setHoverCard] = useState<{ event: CalendarEvent; anchor: DOMRect } | null>(null);
+  // Where the end of the event being resized currently is.
+  const [resizePreview, setResizePreview] = useState<{ id: string; end: Date } | null>(null);
+  // A new event being sketched by dragging over empty cells: a day column and two slots, in minutes
+  // since midnight, where the drag started and where it is now.
+  const [sketch, setSketch] = useState<{ dayIndex: number; anchor: number; current: number } | null>(null);
+  // Changes that can be undone and undone ones that can be redone, most recent last.
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoEntry[]>([]);
+  const [toast, setToast] = useState<{ message: string; action: 'undo' | 'redo' } | null>(null);
+  // Who last changed something on screen from elsewhere, e.g. "Updated by Sam".
+  const [remoteNotice, setRemoteNotice] = useState<string | null>(null);
+  const [offline, setOffline] = useState(isOffline);
+  // Changes made offline that have not been saved yet, including ones the API turned down.
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [isOutboxOpen, setIsOutboxOpen] = useState(false);
+  const [staleWrite, setStaleWrite] = useState<StaleWrite | null>(null);
   const gridRef = useRef<HTMLDivElement>(null);
+  const gridBodyRef = useRef<HTMLDivElement>(null);
+  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const highlightTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const hoverTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const toastTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const remoteNoticeTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  // The latest handlers for the change stream, which stays open across renders.
+  const syncHandlersRef = useRef<{ onChange: (change: EventChange) => void; onResync: () => void }>(null);
+  // Revisions the API recorded since the change being tracked started; see trackChange.
+  const pendingRevisionsRef = useRef<RevisionRef[]>([]);
+  const replayingRef = useRef(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // The window the current view shows; exactly this range is fetched.
+  const range = viewRange(view, currentDate);
 
-  const startDate = startOfWeek(currentDate, { weekStartsOn: 1 }); // Monday start
+  // Only narrow queries when something is hidden, so nothing is missed before calendars load.
+  const visibleCalendarIds = hiddenCalendarIds.length > 0
+    ? calendars.filter(c => !hiddenCalendarIds.includes(c.id)).map(c => c.id)
+    : undefined;
 
   const loadEvents = async () => {
     setLoading(true);
     setError(null);
     try {
-      // Fetch a wide range to be safe (previous week to next week)
-      const startRange = addDays(startDate, -7).toISOString();
-      const endRange = addDays(startDate, 14).toISOString();
-      const data = await fetchEvents(startRange, endRange);
+      const data = await fetchEvents(range.start.toISOString(), range.end.toISOString(), visibleCalendarIds);
       setEvents(data);
-    } catch (err) {
-      setError("Failed to load events. Please check your connection.");
+    } catch {
+      setError(isOffline()
+        ? "You're offline, and this range has not been loaded on this device before."
+        : "Failed to load events. Please check your connection.");
     } finally {
       setLoading(false);
     }
@@ -55,7 +199,276 @@ export const Calendar = () => {
 
   useEffect(() => {
     loadEvents();
-  }, [currentDate]);
+  }, [view, currentDate, calendars, hiddenCalendarIds]);
+
+  useEffect(() => {
+    localStorage.setItem('calendarView', view);
+    localStorage.setItem('calendarDate', currentDate.toISOString());
+  }, [view, currentDate]);
+
+  const showDay = (date: Date) => {
+    setView('day');
+    setCurrentDate(date);
+  };
+
+  // Jumps to a search hit and highlights it for a moment.
+  const showSearchResult = (event: CalendarEvent) => {
+    setCurrentDate(eventSpan(event).start);
+    setHighlightedId(event.id);
+    clearTimeout(highlightTimerRef.current);
+    highlightTimerRef.current = setTimeout(() => setHighlightedId(null), HIGHLIGHT_MS);
+  };
+
+  const showHoverCard = (event: CalendarEvent, element: HTMLElement) => {
+    clearTimeout(hoverTimerRef.current);
+    hoverTimerRef.current = setTimeout(() => setHoverCard({ event, anchor: element.getBoundingClientRect() }), HOVER_OPEN_MS);
+  };
+
+  const hideHoverCard = () => {
+    clearTimeout(hoverTimerRef.current);
+    hoverTimerRef.current = setTimeout(() => setHoverCard(null), HOVER_CLOSE_MS);
+  };
+
+  // Brings the highlighted event into view once the events around it have loaded.
+  useEffect(() => {
+    scrollAreaRef.current?.querySelector('[data-highlighted]')?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [highlightedId, events]);
+
+  useEffect(() => onRevisions(revisions => {
+    pendingRevisionsRef.current.push(...revisions);
+  }), []);
+
+  const showToast = (message: string, action: 'undo' | 'redo') => {
+    setToast({ message, action });
+    clearTimeout(toastTimerRef.current);
+    toastTimerRef.current = setTimeout(() => setToast(null), TOAST_MS);
+  };
+
+  // Runs a change to events and, if it wrote anything, puts it on the undo stack.
+  const trackChange = async (label: string, change: () => Promise<unknown>) => {
+    pendingRevisionsRef.current = [];
+    await change();
+    const revisions = pendingRevisionsRef.current;
+    if (revisions.length === 0) return;
+    setUndoStack(prev => [...prev, { label, revisions }].slice(-UNDO_LIMIT));
+    setRedoStack([]);
+    showToast(label, 'undo');
+  };
+
+  // Undo reverts the latest change's revisions to their `before` side, last written first; redo
+  // applies their `after` side again in the order they were written.
+  const replay = async (action: 'undo' | 'redo') => {
+    const entry = (action === 'undo' ? undoStack : redoStack).at(-1);
+    if (!entry || replayingRef.current) return;
+    replayingRef.current = true;
+    setToast(null);
+    try {
+      const revisions = action === 'undo' ? [...entry.revisions].reverse() : entry.revisions;
+      for (const revision of revisions) {
+        await revertEvent(revision, action === 'undo' ? 'before' : 'after');
+      }
+      const [from, to] = action === 'undo' ? [setUndoStack, setRedoStack] : [setRedoStack, setUndoStack];
+      from(prev => prev.slice(0, -1));
+      to(prev => [...prev, entry]);
+      showToast(`${action === 'undo' ? 'Undone' : 'Redone'}: ${entry.label}`, action === 'undo' ? 'redo' : 'undo');
+    } catch (err) {
+      setError((axios.isAxiosError(err) && err.response?.data?.error) || `Could not ${action} "${entry.label}".`);
+    } finally {
+      replayingRef.current = false;
+    }
+    await loadEvents();
+  };
+
+  /**
+   * Applies a change made in another tab or by someone else who can see the event. Single events are
+   * patched in place; occurrences of a series are expanded by the API, so a change to a series that
+   * touches the shown range reloads it.
+   */
+  const applyRemoteChange = (change: EventChange) => {
+    if (change.origin === CLIENT_ID) return;
+    const { event } = change;
+    const removed = change.type === 'event.deleted' || !!event.deletedAt;
+    let affected: boolean;
+
+    if (!event.rrule && !event.recurrenceId) {
+      const { start, end } = eventSpan(event);
+      // Hidden calendars only filter the user's own events.
+      const visible = event.userId !== user.id || !event.calendarId || !hiddenCalendarIds.includes(event.calendarId);
+      const shows = !removed && visible && start < range.end && end > range.start;
+      affected = shows || events.some(e => e.id === event.id);
+      if (affected) setEvents(prev => [...prev.filter(e => e.id !== event.id), ...(shows ? [event] : [])]);
+    } else {
+      const seriesId = event.recurrenceId ?? event.id;
+      affected = events.some(e => e.id === event.id || (e.masterId ?? e.recurrenceId) === seriesId) ||
+        (event.rrule ? new Date(event.startTime) < range.end : !!event.originalStartTime && new Date(event.originalStartTime) < range.end && new Date(event.originalStartTime) >= range.start);
+      if (affected) loadEvents();
+    }
+    if (!affected) return;
+
+    setRemoteNotice(change.actor && change.actor.id !== user.id ? `Updated by ${change.actor.name || change.actor.email}` : 'Updated in another window');
+    clearTimeout(remoteNoticeTimerRef.current);
+    remoteNoticeTimerRef.current = setTimeout(() => setRemoteNotice(null), REMOTE_NOTICE_MS);
+  };
+
+  useEffect(() => {
+    syncHandlersRef.current = { onChange: applyRemoteChange, onResync: loadEvents };
+  });
+
+  useEffect(() => subscribeToChanges({
+    onChange: change => syncHandlersRef.current?.onChange(change),
+    onResync: () => syncHandlersRef.current?.onResync(),
+  }), []);
+
+  // Sends whatever is left from an earlier session.
+  useEffect(() => {
+    fetchOutbox().then(setOutbox).catch(() => {});
+    syncOutbox();
+    return onOutboxChange(setOutbox);
+  }, []);
+
+  // Once the API is back and the outbox has been sent, everything shown is reloaded.
+  useEffect(() => onConnectivityChange(nowOffline => {
+    setOffline(nowOffline);
+    if (!nowOffline) loadCalendars();
+  }), []);
+
+  // Ctrl+Z undoes and Ctrl+Shift+Z redoes, except while typing (text fields keep their own undo)
+  // or while a dialog is open.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' || e.altKey) return;
+      if (isModalOpen || isTrashOpen || scopePrompt || (e.target instanceof Element && e.target.closest('input, textarea, select, [contenteditable]'))) return;
+      e.preventDefault();
+      replay(e.shiftKey ? 'redo' : 'undo');
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const loadCalendars = async () => {
+    try {
+      setCalendars(await fetchCalendars());
+    } catch {
+      setError("Failed to load calendars. Please check your connection.");
+    }
+  };
+
+  useEffect(() => {
+    loadCalendars();
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem('hiddenCalendars', JSON.stringify(hiddenCalendarIds));
+  }, [hiddenCalendarIds]);
+
+  const toggleCalendar = (id: string) => {
+    setHiddenCalendarIds(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+  };
+
+  const handleCreateCalendar = async (data: Omit<CalendarInfo, 'id'>) => {
+    try {
+      await createCalendar(data);
+      await loadCalendars();
+    } catch {
+      setError("Failed to create the calendar.");
+    }
+  };
+
+  const handleUpdateCalendar = async ({ id, ...data }: CalendarInfo) => {
+    // Recolor immediately; the color picker fires on every change.
+    setCalendars(prev => prev.map(c => c.id === id ? { id, ...data } : c));
+    try {
+      await updateCalendar(id, data);
+    } catch {
+      setError("Failed to update the calendar.");
+      await loadCalendars();
+    }
+  };
+
+  const handleDeleteCalendar = async (calendar: CalendarInfo) => {
+    if (!confirm(`Delete "${calendar.name}"?`)) return;
+    try {
+      await deleteCalendar(calendar.id);
+      setHiddenCalendarIds(prev => prev.filter(c => c !== calendar.id));
+      await loadCalendars();
+    } catch (err) {
+      setError((axios.isAxiosError(err) && err.response?.data?.error) || "Failed to delete the calendar.");
+    }
+  };
+
+  const calendarColor = (event: CalendarEvent) =>
+    calendars.find(c => c.id === event.calendarId)?.color ?? DEFAULT_EVENT_COLOR;
+
+  // Events organized by someone else, which the user can answer but not edit.
+  const isInvitation = (event: CalendarEvent) => !!event.userId && event.userId !== user.id;
+  const hasDeclined = (event: CalendarEvent) =>
+    event.attendees?.some(a => a.userId === user.id && a.status === 'declined') ?? false;
+
+  // Asks which part of a series an edit applies to. Resolves to null if the user cancels.
+  const askScope = () => new Promise<RecurrenceScope | null>(resolve => {
+    setScopePrompt(() => (scope: RecurrenceScope | null) => {
+      setScopePrompt(null);
+      resolve(scope);
+    });
+  });
+
+  // Runs a write based on the copy of an event that was loaded. If someone changed the event since,
+  // the API refuses it and the user is asked what to keep instead of the write failing.
+  const writeUnlessStale = async (stale: Omit<StaleWrite, 'theirs'>, write: () => Promise<unknown>) => {
+    try {
+      await write();
+    } catch (err) {
+      const theirs = storedCopyOf(err);
+      if (!theirs) throw err;
+      setStaleWrite({ ...stale, theirs });
+    }
+  };
+
+  const resolveStaleWrite = async (choice: StaleChoice) => {
+    const stale = staleWrite!;
+    setStaleWrite(null);
+    if (choice !== 'theirs') {
+      const { id, base, mine, theirs } = stale;
+      try {
+        await trackChange(stale.label, () => writeUnlessStale(stale, () => mine
+          ? patchEvent(id, choice === 'merge' ? changedFields(base, mine) : mine, theirs.version)
+          : deleteEvent(id, theirs.version)));
+      } catch (err) {
+        setError((axios.isAxiosError(err) && err.response?.data?.error) || "Failed to save the event.");
+      }
+    }
+    await loadEvents();
+  };
+
+  // Applies an edit of a recurring instance to this occurrence, this and following, or the whole series.
+  const saveRecurringInstance = async (instance: CalendarEvent, scope: RecurrenceScope, changes: Partial<CalendarEvent>, label: string) => {
+    if (scope === 'this') {
+      // Details left out (e.g. when dragging) are inherited from the series.
+      await createEvent({
+        title: changes.title ?? instance.title,
+        description: changes.description,
+        location: changes.location,
+        url: changes.url,
+        startTime: changes.startTime,
+        endTime: changes.endTime,
+        recurrenceId: instance.masterId,
+        originalStartTime: instance.startTime, // The original time of the instance being edited
+      });
+    } else if (scope === 'following') {
+      await splitSeries(instance.masterId!, instance.startTime, { title: instance.title, ...changes });
+    } else {
+      // Shift the master by however far this instance moved, keeping the new duration.
+      const shift = new Date(changes.startTime!).getTime() - new Date(instance.startTime).getTime();
+      const duration = new Date(changes.endTime!).getTime() - new Date(changes.startTime!).getTime();
+      const masterStart = new Date(new Date(instance.seriesStartTime!).getTime() + shift);
+      const masterEnd = new Date(masterStart.getTime() + duration);
+      const mine = { ...changes, startTime: masterStart.toISOString(), endTime: masterEnd.toISOString() };
+      // Occurrences carry their series' fields and version, but their own times.
+      const seriesEnd = new Date(instance.seriesStartTime!).getTime() + new Date(instance.endTime).getTime() - new Date(instance.startTime).getTime();
+      const base = { ...instance, id: instance.masterId!, startTime: instance.seriesStartTime!, endTime: new Date(seriesEnd).toISOString() };
+      await writeUnlessStale({ label, id: instance.masterId!, base, mine }, () => patchEvent(instance.masterId!, mine, instance.version));
+    }
+  };
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -64,85 +477,140 @@ export const Calendar = () => {
   );
 
   const handleDragStart = (event: any) => {
-    setActiveEvent(event.active.data.current?.event ?? null);
+    clearTimeout(hoverTimerRef.current);
+    setHoverCard(null);
+    // A resize is previewed on the block itself rather than in the overlay.
+    if (event.active.data.current?.resize) return;
+    const draggedEvent = event.active.data.current?.event;
+    const rect = event.active.rect.current.initial;
+    setActiveDrag(draggedEvent && rect ? { event: draggedEvent, width: rect.width, height: rect.height } : null);
+  };
+
+  const handleDragMove = ({ active, delta }: DragMoveEvent) => {
+    const bounds = active.data.current?.resize as ResizeBounds | undefined;
+    if (!bounds) return;
+    const resizedEvent = active.data.current!.event as CalendarEvent;
+    const end = resizedEnd(resizedEvent, bounds, delta.y);
+    if (end.getTime() !== resizePreview?.end.getTime()) setResizePreview({ id: resizedEvent.id, end });
   };
 
   const handleDragEnd = async (event: any) => {
     const { active, delta } = event;
-    setActiveEvent(null);
+    setActiveDrag(null);
+    setResizePreview(null);
 
     const draggedEvent = active.data.current?.event as CalendarEvent;
     if (!draggedEvent || (delta.x === 0 && delta.y === 0) || !gridRef.current) {
       return;
     }
 
+    // Resizing keeps the start where it is.
+    const bounds = active.data.current?.resize as ResizeBounds | undefined;
+    if (bounds) {
+      const newEnd = resizedEnd(draggedEvent, bounds, delta.y);
+      if (newEnd.getTime() === new Date(draggedEvent.endTime).getTime()) return;
+      await rescheduleEvent(draggedEvent, new Date(draggedEvent.startTime), newEnd, 'Event resized');
+      return;
+    }
+
     // --- Calculate new times from drag delta ---
-    const dayWidth = gridRef.current.offsetWidth / 8; // 8 columns
-    const hourHeight = 80; // h-20 = 5rem = 80px
+    const dayWidth = gridRef.current.offsetWidth * dayColumnWidth / 100;
 
     const daysDragged = Math.round(delta.x / dayWidth);
-    const minutesDragged = Math.round((delta.y / hourHeight) * 60);
+    const minutesDragged = Math.round((delta.y / HOUR_HEIGHT_PX) * 60);
 
     const originalStart = new Date(draggedEvent.startTime);
     const duration = new Date(draggedEvent.endTime).getTime() - originalStart.getTime();
 
     let newStart = add(originalStart, { days: daysDragged, minutes: minutesDragged });
-    newStart = roundToNearestMinutes(newStart, { nearestTo: 15 }); // Snap to 15-min intervals
+    newStart = roundToNearestMinutes(newStart, { nearestTo: SNAP_MINUTES });
     const newEnd = new Date(newStart.getTime() + duration);
 
+    await rescheduleEvent(draggedEvent, newStart, newEnd, 'Event moved');
+  };
+
+  // Saves a moved or resized event. A recurring instance asks how much of its series to change;
+  // "this occurrence" makes an exception.
+  const rescheduleEvent = async (draggedEvent: CalendarEvent, newStart: Date, newEnd: Date, label: string) => {
+    // Recurring instances need to know how much of the series to move before anything changes.
+    const scope = draggedEvent.isRecurringInstance ? await askScope() : null;
+    if (draggedEvent.isRecurringInstance && !scope) return;
+
     // --- Optimistic Update ---
     const originalEvents = [...events];
     setEvents(prev => prev.map(e => e.id === draggedEvent.id ? { ...e, startTime: newStart.toISOString(), endTime: newEnd.toISOString() } : e));
 
     // --- API Call ---
     try {
-      // If it's a recurring instance, we create a new "exception" event.
-      if (draggedEvent.isRecurringInstance) {
-        await createEvent({
-          title: draggedEvent.title,
-          startTime: newStart.toISOString(),
-          endTime: newEnd.toISOString(),
-          recurrenceId: draggedEvent.masterId,
-          originalStartTime: draggedEvent.startTime, // The original time of the instance we're moving
-        });
-      } else {
-        // Otherwise, it's a simple update.
-        await updateEvent(draggedEvent.id, draggedEvent.title, newStart.toISOString(), newEnd.toISOString());
-      }
+      await trackChange(label, async () => {
+        if (draggedEvent.isRecurringInstance) {
+          await saveRecurringInstance(draggedEvent, scope!, {
+            startTime: newStart.toISOString(),
+            endTime: newEnd.toISOString(),
+          }, label);
+        } else {
+          // Otherwise, it's a simple update of the times only, so a concurrent edit of anything
+          // else survives it.
+          const mine = { startTime: newStart.toISOString(), endTime: newEnd.toISOString() };
+          await writeUnlessStale({ label, id: draggedEvent.id, base: draggedEvent, mine }, () => patchEvent(draggedEvent.id, mine, draggedEvent.version));
+        }
+      });
       await loadEvents(); // Reload to get official data and new IDs
-    } catch (err) {
-      setError("Failed to move event. It might conflict with another.");
+    } catch {
+      setError("Failed to reschedule the event. It might conflict with another.");
       setEvents(originalEvents); // Revert on failure
     }
   };
 
-  const handleSaveEvent = async (data: Partial<CalendarEvent> & { id?: string }) => {
-    const isEditingRecurringInstance = eventToEdit?.isRecurringInstance;
+  const handleSaveEvent = async ({ scope, ...data }: Partial<CalendarEvent> & { id?: string; scope?: RecurrenceScope }) => {
+    const label = eventToEdit ? 'Event updated' : 'Event created';
+    await trackChange(label, async () => {
+      // If we are editing a recurring instance, the chosen scope decides what gets written.
+      if (eventToEdit?.isRecurringInstance) {
+        await saveRecurringInstance(eventToEdit, scope ?? 'this', data, label);
+      }
+      // If we are editing a master or single event
+      else if (data.id && eventToEdit) {
+        const { id, ...mine } = data;
+        await writeUnlessStale({ label, id, base: eventToEdit, mine }, () => updateEvent(id, data.title!, data.startTime!, data.endTime!, data.rrule, data.calendarId, data.timeZone, data.allDay, {
+          description: data.description,
+          location: data.location,
+          url: data.url,
+        }, eventToEdit.version));
+      }
+      // If we are creating a new event (could be single or recurring)
+      else {
+        await createEvent(data);
+      }
+    });
+    await loadEvents(); // Reload all events to show changes
+  };
 
-    // If we are "editing" a recurring instance, we must create an exception event.
-    if (isEditingRecurringInstance) {
-      await createEvent({
-        title: data.title,
-        startTime: data.startTime,
-        endTime: data.endTime,
-        recurrenceId: eventToEdit.masterId,
-        originalStartTime: eventToEdit.startTime, // The original time of the instance we're editing
-      });
-    } 
-    // If we are editing a master or single event
-    else if (data.id) {
-      await updateEvent(data.id, data.title!, data.startTime!, data.endTime!, data.rrule);
-    } 
-    // If we are creating a new event (could be single or recurring)
-    else {
-      await createEvent(data);
+  // Imports always start as a dry run; the dialog shows the report and commits on confirmation.
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    try {
+      const report = await importCalendar(file);
+      setPendingImport({ file, report });
+    } catch {
+      setError("Could not read that file. Is it a valid .ics calendar?");
     }
-    await loadEvents(); // Reload all events to show changes
   };
 
-  const openAddModal = (date: Date) => {
+  const handleExport = async () => {
+    try {
+      await exportCalendar();
+    } catch {
+      setError("Failed to export the calendar.");
+    }
+  };
+
+  const openAddModal = (date: Date, endDate?: Date) => {
     setEventToEdit(null);
     setModalInitialDate(date);
+    setModalInitialEndDate(endDate);
     setIsModalOpen(true);
   };
 
@@ -151,12 +619,45 @@ export const Calendar = () => {
     setIsModalOpen(true);
   };
 
+  // Minutes since midnight of the slot under the pointer in the time grid.
+  const slotAtPointer = (clientY: number) => {
+    const minutes = ((clientY - gridBodyRef.current!.getBoundingClientRect().top) / HOUR_HEIGHT_PX) * 60;
+    return Math.min(Math.max(Math.floor(minutes / SNAP_MINUTES) * SNAP_MINUTES, 0), 24 * 60 - SNAP_MINUTES);
+  };
+
+  // Pressing on an empty cell starts sketching a new event in that day.
+  const handleSketchStart = (e: React.PointerEvent, dayIndex: number) => {
+    if (e.button !== 0 || !gridBodyRef.current) return;
+    // The grid keeps receiving the pointer even when it leaves the cell.
+    gridBodyRef.current.setPointerCapture(e.pointerId);
+    const slot = slotAtPointer(e.clientY);
+    setSketch({ dayIndex, anchor: slot, current: slot });
+  };
+
+  const handleSketchMove = (e: React.PointerEvent) => {
+    if (!sketch) return;
+    const slot = slotAtPointer(e.clientY);
+    if (slot !== sketch.current) setSketch({ ...sketch, current: slot });
+  };
+
+  // A plain click makes an hour-long event; a drag covers every slot it passed over.
+  const handleSketchEnd = () => {
+    if (!sketch) return;
+    setSketch(null);
+    const day = days[sketch.dayIndex];
+    const start = addMinutes(day, Math.min(sketch.anchor, sketch.current));
+    const end = sketch.anchor === sketch.current
+      ? addMinutes(start, 60)
+      : addMinutes(day, Math.max(sketch.anchor, sketch.current) + SNAP_MINUTES);
+    openAddModal(start, end);
+  };
+
   const handleDelete = async (eventToDelete: CalendarEvent) => {
     try {
       // For a recurring instance, create a cancellation exception
       if (eventToDelete.isRecurringInstance) {
         if (!confirm("This is part of a series. Do you want to delete only this occurrence?")) return;
-        await createEvent({
+        await trackChange('Occurrence deleted', () => createEvent({
           recurrenceId: eventToDelete.masterId,
           originalStartTime: eventToDelete.startTime,
           isCancelled: true,
@@ -164,19 +665,25 @@ export const Calendar = () => {
           title: eventToDelete.title || "Cancelled",
           startTime: eventToDelete.startTime,
           endTime: eventToDelete.endTime,
-        });
+        }));
         await loadEvents();
       } 
       // For a master recurring event
       else if (eventToDelete.rrule) {
         if (!confirm("This is a recurring event. Deleting it will remove all future occurrences. Are you sure?")) return;
-        await deleteEvent(eventToDelete.id);
+        await trackChange('Series deleted', () => writeUnlessStale(
+          { label: 'Series deleted', id: eventToDelete.id, base: eventToDelete, mine: null },
+          () => deleteEvent(eventToDelete.id, eventToDelete.version),
+        ));
         await loadEvents();
       }
       // For a simple, non-recurring event or an exception
       else {
         if (!confirm("Are you sure you want to delete this event?")) return;
-        await deleteEvent(eventToDelete.id);
+        await trackChange('Event deleted', () => writeUnlessStale(
+          { label: 'Event deleted', id: eventToDelete.id, base: eventToDelete, mine: null },
+          () => deleteEvent(eventToDelete.id, eventToDelete.version),
+        ));
         setEvents(prev => prev.filter(e => e.id !== eventToDelete.id));
       }
     } catch (err) {
@@ -185,8 +692,32 @@ export const Calendar = () => {
     }
   };
 
-  const days = Array.from({ length: 7 }).map((_, i) => addDays(startDate, i));
+  // Week and day views share the hourly grid; the time column takes an eighth of it.
+  const days = daysBetween(range.start, range.end);
   const hours = Array.from({ length: 24 }).map((_, i) => i);
+  const dayColumnWidth = 87.5 / days.length; // Percent of the grid
+  const dayColumnSpan = days.length === 1 ? "col-span-7" : undefined;
+  // Timed events are cut into one segment per day they touch, then laid out side by side within each day.
+  const segments = days.flatMap((day, dayIndex) => {
+    const daySegments = events.filter(e => !e.allDay).flatMap(event => {
+      const start = new Date(event.startTime) > day ? new Date(event.startTime) : day;
+      const end = new Date(event.endTime) < addDays(day, 1) ? new Date(event.endTime) : addDays(day, 1);
+      return start < end ? [{ event, dayIndex, start, end }] : [];
+    });
+    const placements = layoutDay(daySegments);
+    return daySegments.map((segment, i) => ({ ...segment, ...placements[i] }));
+  });
+  const failedChanges = outbox.filter(entry => entry.error);
+  const waitingChanges = outbox.length - failedChanges.length;
+  const allDayBars = layoutAllDayBars(events.filter(e => e.allDay), days);
+  const allDayLanes = Math.max(0, ...allDayBars.map(bar => bar.lane + 1));
+  const gridColumnsPerDay = 7 / days.length;
+  // The sketched range in minutes since midnight, covering both the first and the last slot.
+  const sketchRange = sketch && {
+    dayIndex: sketch.dayIndex,
+    start: Math.min(sketch.anchor, sketch.current),
+    end: Math.max(sketch.anchor, sketch.current) + SNAP_MINUTES,
+  };
 
   return (
     <>
@@ -195,10 +726,55 @@ export const Calendar = () => {
         onClose={() => { setIsModalOpen(false); setEventToEdit(null); }} 
         onSubmit={handleSaveEvent}
         initialDate={modalInitialDate}
+        initialEndDate={modalInitialEndDate}
         eventToEdit={eventToEdit}
+        calendars={calendars}
+        defaultCalendarId={calendars.find(c => !hiddenCalendarIds.includes(c.id))?.id ?? calendars[0]?.id}
+        currentUserId={user.id}
+        onAttendeesChange={loadEvents}
       />
+      {isSlotFinderOpen && (
+        <SlotFinderDialog
+          from={range.start}
+          user={user}
+          onUserChange={onUserChange}
+          onClose={() => setIsSlotFinderOpen(false)}
+          onPick={slot => { setIsSlotFinderOpen(false); openAddModal(new Date(slot.start), new Date(slot.end)); }}
+        />
+      )}
+      {isTrashOpen && (
+        <TrashPanel
+          colorOf={calendarColor}
+          onRestore={async event => {
+            await trackChange('Event restored', () => restoreFromTrash(event.id));
+            await loadEvents();
+          }}
+          onClose={() => setIsTrashOpen(false)}
+        />
+      )}
+      {staleWrite && (
+        <StaleEventDialog stale={staleWrite} calendars={calendars} onResolve={resolveStaleWrite} />
+      )}
+      {isOutboxOpen && (
+        <OutboxDialog
+          entries={failedChanges}
+          onChange={loadEvents}
+          onClose={() => setIsOutboxOpen(false)}
+        />
+      )}
+      {pendingImport && (
+        <ImportDialog
+          file={pendingImport.file}
+          report={pendingImport.report}
+          onClose={() => setPendingImport(null)}
+          onImported={() => { setPendingImport(null); loadEvents(); }}
+        />
+      )}
+      {scopePrompt && (
+        <RecurrenceScopeDialog onSelect={scope => scopePrompt(scope)} onCancel={() => scopePrompt(null)} />
+      )}
       <div className="flex flex-col h-screen bg-background text-foreground font-sans">
-      <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+      <DndContext sensors={sensors} onDragStart={handleDragStart} onDragMove={handleDragMove} onDragEnd={handleDragEnd} onDragCancel={() => { setActiveDrag(null); setResizePreview(null); }}>
       {/* --- Top Navigation Bar --- */}
       <header className="flex items-center justify-between px-6 py-3 border-b border-border bg-card shadow-sm z-30">
         <div className="flex items-center gap-4">
@@ -207,20 +783,76 @@ export const Calendar = () => {
           </div>
           <h1 className="text-2xl font-bold tracking-tight text-foreground">Calendar</h1>
           <div className="flex items-center bg-background rounded-lg p-1 ml-6 border border-border">
-            <button onClick={() => setCurrentDate(addDays(currentDate, -7))} className="p-1.5 hover:bg-card rounded transition-colors"><ChevronLeft size={20}/></button>
-            <span className="px-4 font-semibold text-sm w-32 text-center">
-              {format(startDate, 'MMM d')} - {format(addDays(startDate, 6), 'MMM d')}
+            <button onClick={() => setCurrentDate(stepDate(view, currentDate, -1))} className="p-1.5 hover:bg-card rounded transition-colors"><ChevronLeft size={20}/></button>
+            <span className="px-4 font-semibold text-sm w-36 text-center">
+              {viewTitle(view, currentDate)}
             </span>
-            <button onClick={() => setCurrentDate(addDays(currentDate, 7))} className="p-1.5 hover:bg-card rounded transition-colors"><ChevronRight size={20}/></button>
+            <button onClick={() => setCurrentDate(stepDate(view, currentDate, 1))} className="p-1.5 hover:bg-card rounded transition-colors"><ChevronRight size={20}/></button>
           </div>
+          <button onClick={() => setCurrentDate(new Date())} className="bg-background hover:bg-border/80 border border-border px-3 py-1.5 rounded-md text-sm font-medium transition-colors">
+            Today
+          </button>
+          <div className="flex items-center bg-background rounded-lg p-1 border border-border">
+            {CALENDAR_VIEWS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setView(option.value)}
+                className={clsx("px-3 py-1 rounded text-sm font-medium transition-colors", view === option.value ? "bg-card shadow-sm text-foreground" : "text-foreground/60 hover:text-foreground")}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <EventSearch calendarIds={visibleCalendarIds} colorOf={calendarColor} onSelect={showSearchResult} />
+          {remoteNotice && (
+            <span className="flex items-center gap-1.5 text-xs text-foreground/60 animate-fade-in" role="status">
+              <RefreshCw size={12} />
+              {remoteNotice}
+            </span>
+          )}
+          {offline && (
+            <span className="flex items-center gap-1.5 text-xs text-amber-700 dark:text-amber-400" role="status" title="Changes are kept on this device and saved once the connection is back.">
+              <CloudOff size={12} />
+              Offline{waitingChanges > 0 && ` · ${waitingChanges} ${waitingChanges === 1 ? 'change' : 'changes'} waiting`}
+            </span>
+          )}
+          {failedChanges.length > 0 && (
+            <button onClick={() => setIsOutboxOpen(true)} className="flex items-center gap-1.5 text-xs font-medium text-red-600 dark:text-red-400 hover:underline">
+              <AlertCircle size={12} />
+              {failedChanges.length} {failedChanges.length === 1 ? 'change' : 'changes'} could not be saved
+            </button>
+          )}
         </div>
         
         <div className="flex items-center gap-4">
+          <input ref={importInputRef} type="file" accept=".ics,text/calendar" onChange={handleImportFile} className="hidden" />
+          <button onClick={() => importInputRef.current?.click()} className="flex items-center gap-2 bg-background hover:bg-border/80 border border-border px-4 py-2 rounded-md text-sm font-medium transition-colors">
+            <Upload size={16} />
+            Import
+          </button>
+          <button onClick={handleExport} className="flex items-center gap-2 bg-background hover:bg-border/80 border border-border px-4 py-2 rounded-md text-sm font-medium transition-colors">
+            <Download size={16} />
+            Export
+          </button>
+          <button onClick={() => setIsSlotFinderOpen(true)} className="flex items-center gap-2 bg-background hover:bg-border/80 border border-border px-4 py-2 rounded-md text-sm font-medium transition-colors">
+            <Clock size={16} />
+            Find a time
+          </button>
           <button onClick={() => openAddModal(new Date())} className="flex items-center gap-2 bg-primary hover:bg-primary/90 text-primary-foreground px-4 py-2 rounded-md text-sm font-medium shadow-sm transition-colors">
             <Plus size={16} />
             Add Event
           </button>
+          <NotificationBell />
+          <button onClick={() => setIsTrashOpen(true)} title="Trash" className="p-2 rounded-md hover:bg-border/80 transition-colors">
+            <Trash2 size={18} />
+          </button>
           <ThemeToggle />
+          <div className="flex items-center gap-2 pl-4 border-l border-border">
+            <span className="text-sm text-foreground/70 max-w-40 truncate" title={user.email}>{user.name || user.email}</span>
+            <button onClick={onLogout} title="Log out" className="p-2 rounded-md hover:bg-border/80 transition-colors">
+              <LogOut size={18} />
+            </button>
+          </div>
         </div>
       </header>
 
@@ -233,21 +865,69 @@ export const Calendar = () => {
         </div>
       )}
 
+      {/* --- Undo Toast --- */}
+      {toast && (
+        <div className="fixed inset-x-0 bottom-6 z-50 flex justify-center pointer-events-none">
+          <div className="pointer-events-auto flex items-center gap-4 bg-card border border-border rounded-lg shadow-2xl px-4 py-3 text-sm animate-scale-in">
+            <span>{toast.message}</span>
+            <button onClick={() => replay(toast.action)} className="font-semibold text-primary hover:underline">
+              {toast.action === 'undo' ? 'Undo' : 'Redo'}
+            </button>
+            <button onClick={() => setToast(null)} className="text-foreground/50 hover:text-foreground">✕</button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-1 overflow-hidden">
+      {/* --- Calendar List --- */}
+      <CalendarSidebar
+        calendars={calendars}
+        hiddenCalendarIds={hiddenCalendarIds}
+        onToggle={toggleCalendar}
+        onCreate={handleCreateCalendar}
+        onUpdate={handleUpdateCalendar}
+        onDelete={handleDeleteCalendar}
+      />
+
       {/* --- Main Calendar Area --- */}
-      <div className="flex-1 overflow-y-auto relative">
+      <div ref={scrollAreaRef} className="flex-1 overflow-y-auto relative">
         {loading && (
           <div className="absolute inset-0 bg-background/50 z-40 flex items-center justify-center">
             <LoaderCircle size={48} className="text-primary animate-spin" />
           </div>
         )}
+        {view === 'month' && (
+          <MonthView
+            date={currentDate}
+            events={events}
+            colorOf={calendarColor}
+            isDeclined={hasDeclined}
+            highlightedId={highlightedId}
+            onSelectEvent={openEditModal}
+            onAddEvent={date => openAddModal(date)}
+            onShowDay={showDay}
+          />
+        )}
+        {view === 'agenda' && (
+          <AgendaView
+            date={currentDate}
+            events={events}
+            colorOf={calendarColor}
+            isDeclined={hasDeclined}
+            highlightedId={highlightedId}
+            onSelectEvent={openEditModal}
+          />
+        )}
+        {(view === 'week' || view === 'day') && (
         <div ref={gridRef} className="grid grid-cols-8 min-w-[1000px]">
-          
+
           {/* Header Row (Sticky) */}
           <div className="col-span-8 grid grid-cols-8 sticky top-0 z-20 bg-card border-b border-border shadow-sm">
             <div className="p-4 text-xs font-semibold text-foreground/50 uppercase text-center pt-8">Time</div>
             {days.map((day, i) => (
               <div key={i} className={clsx(
                 "p-4 text-center border-l border-border flex flex-col items-center justify-center py-6",
+                dayColumnSpan,
                 isSameDay(day, new Date()) && "bg-primary/10"
               )}>
                 <span className={clsx("text-xs font-bold uppercase mb-1", isSameDay(day, new Date()) ? "text-primary" : "text-foreground/60")}>
@@ -261,10 +941,37 @@ export const Calendar = () => {
                 </span>
               </div>
             ))}
+
+            {/* All-day banner; bars of multi-day events span several columns. */}
+            {allDayLanes > 0 && (
+              <div className="col-span-8 grid grid-cols-8 gap-y-1 py-1 border-t border-border" style={{ gridTemplateRows: `repeat(${allDayLanes}, 1.5rem)` }}>
+                <div className="text-xs text-foreground/50 text-right pr-2 self-center" style={{ gridRow: `1 / span ${allDayLanes}` }}>All day</div>
+                {allDayBars.map(({ event, first, last, lane }) => (
+                  <button
+                    key={event.id}
+                    type="button"
+                    onClick={() => openEditModal(event)}
+                    onMouseEnter={e => showHoverCard(event, e.currentTarget)}
+                    onMouseLeave={hideHoverCard}
+                    data-highlighted={event.id === highlightedId || undefined}
+                    className={clsx("mx-1 px-2 rounded text-xs font-semibold text-white text-left truncate shadow-sm hover:shadow-md transition-shadow", hasDeclined(event) && "opacity-50 line-through", event.id === highlightedId && "ring-2 ring-primary ring-offset-2 ring-offset-card")}
+                    style={{ gridColumn: `${2 + first * gridColumnsPerDay} / span ${(last - first + 1) * gridColumnsPerDay}`, gridRow: lane + 1, backgroundColor: calendarColor(event) }}
+                  >
+                    {event.title}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Grid Body */}
-          <div className="col-span-8 grid grid-cols-8 relative bg-card">
+          <div
+            ref={gridBodyRef}
+            onPointerMove={handleSketchMove}
+            onPointerUp={handleSketchEnd}
+            onPointerCancel={() => setSketch(null)}
+            className="col-span-8 grid grid-cols-8 relative bg-card select-none"
+          >
             
             {/* Background Grid Lines & Time Labels */}
             {hours.map((hour) => (
@@ -275,49 +982,96 @@ export const Calendar = () => {
                 </div>
                 {/* Day Columns (Empty Cells) */}
                 {days.map((_, i) => (
-                  <div key={`${hour}-${i}`} className="border-b border-r border-border h-20 hover:bg-background transition-colors" />
+                  <div key={`${hour}-${i}`} onPointerDown={e => handleSketchStart(e, i)} className={clsx("border-b border-r border-border h-20 hover:bg-background transition-colors", dayColumnSpan)} />
                 ))}
               </React.Fragment>
             ))}
 
             {/* Events Overlay */}
-            {events.map((event) => {
+            {/* Outline of the event being sketched */}
+            {sketchRange && (
+              <div
+                className="absolute z-10 rounded-lg border-2 border-dashed border-primary bg-primary/20 p-2 text-xs font-medium text-primary pointer-events-none"
+                style={{
+                  top: `${(sketchRange.start / 60) * 5}rem`,
+                  height: `${((sketchRange.end - sketchRange.start) / 60) * 5}rem`,
+                  left: `${12.5 + sketchRange.dayIndex * dayColumnWidth}%`,
+                  width: `${dayColumnWidth}%`,
+                }}
+              >
+                {format(addMinutes(days[sketchRange.dayIndex], sketchRange.start), 'h:mm')} - {format(addMinutes(days[sketchRange.dayIndex], sketchRange.end), 'h:mm a')}
+              </div>
+            )}
+
+            {segments.map(({ event, dayIndex, start: segmentStart, end: storedSegmentEnd, left, width }) => {
               const start = new Date(event.startTime);
-              const end = new Date(event.endTime);
-              
-              // Only render if event is in current week view
-              if (start < startDate || start > addDays(startDate, 7)) return null;
+              // The block holding the event's end can be resized, within its own day.
+              const holdsEnd = storedSegmentEnd.getTime() === new Date(event.endTime).getTime();
+              const resizing = holdsEnd && resizePreview?.id === event.id;
+              const segmentEnd = resizing ? resizePreview.end : storedSegmentEnd;
+              const end = resizing ? resizePreview.end : new Date(event.endTime);
+              const color = calendarColor(event);
+              const invitation = isInvitation(event);
+              const declined = hasDeclined(event);
 
-              const dayIndex = getDay(start) === 0 ? 7 : getDay(start); // Monday=1, Sunday=7
-              const startHour = start.getHours() + start.getMinutes() / 60;
-              const duration = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
+              const startHour = segmentStart.getHours() + segmentStart.getMinutes() / 60;
+              const duration = (segmentEnd.getTime() - segmentStart.getTime()) / (1000 * 60 * 60);
 
               const eventStyle = {
                 top: `${startHour * 5}rem`,
                 height: `${duration * 5}rem`,
-                left: `${(dayIndex) * 12.5}%`,
-                width: '12.5%',
+                left: `${12.5 + (dayIndex + left) * dayColumnWidth}%`,
+                width: `${width * dayColumnWidth}%`,
               };
 
               const eventContent = (
-                <div onClick={() => openEditModal(event)} className="p-2 rounded-lg border-l-4 text-xs shadow-md hover:shadow-lg transition-all cursor-grab group z-10 overflow-hidden bg-primary/10 border-primary h-full w-full">
+                <div onClick={() => openEditModal(event)} onMouseEnter={e => showHoverCard(event, e.currentTarget)} onMouseLeave={hideHoverCard} data-highlighted={event.id === highlightedId || undefined} className={clsx("p-2 rounded-lg border-l-4 text-xs shadow-md hover:shadow-lg transition-all group z-10 overflow-hidden h-full w-full", invitation ? "cursor-pointer" : "cursor-grab", declined && "opacity-50 border-dashed", event.id === highlightedId && "ring-2 ring-primary ring-offset-2 ring-offset-card")} style={{ backgroundColor: `${color}1f`, borderColor: color }}>
                     <div className="flex justify-between items-start">
-                      <span className="font-bold text-primary-dark dark:text-primary-light truncate">{event.title}</span>
-                      <button 
-                        onClick={(e) => { e.stopPropagation(); handleDelete(event); }}
-                        className="opacity-0 group-hover:opacity-100 text-red-500 hover:text-red-700 p-1 bg-card/80 rounded-full shadow-sm"
-                      >
-                        <Trash2 size={12} />
-                      </button>
+                      <span className={clsx("font-bold text-foreground truncate", declined && "line-through")} title={declined ? "You declined this event" : undefined}>{event.title}</span>
+                      {event.url && (
+                        <a
+                          href={event.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          title="Join"
+                          onClick={e => e.stopPropagation()}
+                          className="shrink-0 p-1 rounded-full hover:bg-card/80"
+                          style={{ color }}
+                        >
+                          <Video size={12} />
+                        </a>
+                      )}
+                      {!invitation && (
+                        <button 
+                          onClick={(e) => { e.stopPropagation(); handleDelete(event); }}
+                          className="opacity-0 group-hover:opacity-100 text-red-500 hover:text-red-700 p-1 bg-card/80 rounded-full shadow-sm"
+                        >
+                          <Trash2 size={12} />
+                        </button>
+                      )}
                     </div>
-                    <div className="text-primary/80 mt-1 font-medium">
+                    <div className="mt-1 font-medium" style={{ color }}>
                       {format(start, 'h:mm')} - {format(end, 'h:mm a')}
                     </div>
+                    {event.location && (
+                      <div className="mt-0.5 flex items-center gap-1 text-foreground/70 truncate">
+                        <MapPin size={10} className="shrink-0" />
+                        <span className="truncate">{event.location}</span>
+                      </div>
+                    )}
                 </div>
               );
 
+              const blockId = `${event.id}:${dayIndex}`;
               return (
-                <DraggableEvent key={event.id} event={event} style={eventStyle}>
+                <DraggableEvent
+                  key={blockId}
+                  id={blockId}
+                  event={event}
+                  style={eventStyle}
+                  disabled={invitation}
+                  resize={holdsEnd ? { min: addMinutes(segmentStart, SNAP_MINUTES), max: addDays(days[dayIndex], 1) } : undefined}
+                >
                   {eventContent}
                 </DraggableEvent>
               );
@@ -338,17 +1092,28 @@ export const Calendar = () => {
 
           </div>
         </div>
+        )}
+        {hoverCard && !activeDrag && !isModalOpen && (
+          <EventHoverCard
+            event={hoverCard.event}
+            anchor={hoverCard.anchor}
+            color={calendarColor(hoverCard.event)}
+            onMouseEnter={() => clearTimeout(hoverTimerRef.current)}
+            onMouseLeave={hideHoverCard}
+          />
+        )}
         <DragOverlay>
-            {activeEvent ? (
-              <div className="p-2 rounded-lg border-l-4 text-xs shadow-lg z-50 overflow-hidden bg-primary/20 border-primary" style={{ height: `${(new Date(activeEvent.endTime).getTime() - new Date(activeEvent.startTime).getTime()) / (1000 * 60 * 60) * 5}rem`, width: `${gridRef.current ? gridRef.current.offsetWidth / 8 : 150}px`}}>
-                <div className="font-bold text-primary-dark dark:text-primary-light truncate">{activeEvent.title}</div>
-                <div className="text-primary/80 mt-1 font-medium">
-                  {format(new Date(activeEvent.startTime), 'h:mm')} - {format(new Date(activeEvent.endTime), 'h:mm a')}
+            {activeDrag ? (
+              <div className="p-2 rounded-lg border-l-4 text-xs shadow-lg z-50 overflow-hidden bg-card" style={{ backgroundColor: `${calendarColor(activeDrag.event)}33`, borderColor: calendarColor(activeDrag.event), height: `${activeDrag.height}px`, width: `${activeDrag.width}px`}}>
+                <div className="font-bold text-foreground truncate">{activeDrag.event.title}</div>
+                <div className="mt-1 font-medium" style={{ color: calendarColor(activeDrag.event) }}>
+                  {format(new Date(activeDrag.event.startTime), 'h:mm')} - {format(new Date(activeDrag.event.endTime), 'h:mm a')}
                 </div>
               </div>
             ) : null}
           </DragOverlay>
       </div>
+      </div>
       </DndContext>
     </div>
     </>
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import type { CalendarInfo } from '../api';
+
+interface CalendarSidebarProps {
+  calendars: CalendarInfo[];
+  hiddenCalendarIds: string[];
+  onToggle: (id: string) => void;
+  onCreate: (data: Omit<CalendarInfo, 'id'>) => Promise<void>;
+  onUpdate: (calendar: CalendarInfo) => Promise<void>;
+  onDelete: (calendar: CalendarInfo) => Promise<void>;
+}
+
+export const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ calendars, hiddenCalendarIds, onToggle, onCreate, onUpdate, onDelete }) => {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState('#10b981');
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    await onCreate({ name: name.trim(), color });
+    setName('');
+  };
+
+  return (
+    <aside className="w-60 shrink-0 border-r border-border bg-card p-4 overflow-y-auto">
+      <h2 className="text-xs font-semibold text-foreground/50 uppercase mb-3">My Calendars</h2>
+      <ul className="space-y-1">
+        {calendars.map(calendar => (
+          <li key={calendar.id} className="flex items-center gap-2 group rounded-md px-1 py-1 hover:bg-background">
+            <input
+              type="checkbox"
+              checked={!hiddenCalendarIds.includes(calendar.id)}
+              onChange={() => onToggle(calendar.id)}
+              className="h-4 w-4 rounded"
+              style={{ accentColor: calendar.color }}
+              aria-label={`Show ${calendar.name}`}
+            />
+            <span className="flex-1 text-sm truncate" title={calendar.description ?? calendar.name}>{calendar.name}</span>
+            <input
+              type="color"
+              value={calendar.color}
+              onChange={e => onUpdate({ ...calendar, color: e.target.value })}
+              className="h-5 w-5 cursor-pointer rounded border-0 bg-transparent p-0"
+              aria-label={`Color of ${calendar.name}`}
+            />
+            {calendars.length > 1 && (
+              <button
+                onClick={() => onDelete(calendar)}
+                className="opacity-0 group-hover:opacity-100 text-red-500 hover:text-red-700 p-1"
+                aria-label={`Delete ${calendar.name}`}
+              >
+                <Trash2 size={12} />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={handleCreate} className="flex items-center gap-2 mt-4">
+        <input type="color" value={color} onChange={e => setColor(e.target.value)} className="h-7 w-7 shrink-0 cursor-pointer rounded border-0 bg-transparent p-0" aria-label="New calendar color" />
+        <input value={name} onChange={e => setName(e.target.value)} placeholder="New calendar" className="min-w-0 flex-1 bg-background border border-border rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-ring outline-none" />
+        <button type="submit" disabled={!name.trim()} className="p-1.5 rounded-md bg-primary text-primary-foreground disabled:opacity-50" aria-label="Add calendar">
+          <Plus size={14} />
+        </button>
+      </form>
+    </aside>
+  );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { MapPin, Video } from 'lucide-react';
+import type { CalendarEvent } from '../api';
+import { eventSpan } from '../calendarView';
+import { Markdown } from './Markdown';
+
+interface EventHoverCardProps {
+  event: CalendarEvent;
+  // The hovered block; the card opens beside it.
+  anchor: DOMRect;
+  color: string;
+  // The card can be hovered itself, so its link stays reachable.
+  onMouseEnter: () => void;
+  onMouseLeave: () => void;
+}
+
+const CARD_WIDTH = 320;
+const GAP = 8;
+
+export const EventHoverCard: React.FC<EventHoverCardProps> = ({ event, anchor, color, onMouseEnter, onMouseLeave }) => {
+  const { start, end } = eventSpan(event);
+  // To the right of the block, or to its left when there is no room.
+  const left = anchor.right + GAP + CARD_WIDTH <= window.innerWidth ? anchor.right + GAP : Math.max(GAP, anchor.left - GAP - CARD_WIDTH);
+  const top = Math.min(Math.max(GAP, anchor.top), window.innerHeight - 240);
+
+  return (
+    <div
+      onMouseEnter={onMouseEnter}
+      onMouseLeave={onMouseLeave}
+      className="fixed z-40 bg-card border border-border rounded-lg shadow-2xl p-4 space-y-2 animate-scale-in"
+      style={{ left, top, width: CARD_WIDTH }}
+    >
+      <div className="flex items-start gap-2">
+        <span className="h-3 w-3 rounded-sm shrink-0 mt-1" style={{ backgroundColor: color }} />
+        <div className="min-w-0">
+          <p className="font-semibold text-foreground break-words">{event.title}</p>
+          <p className="text-xs text-foreground/60">
+            {event.allDay
+              ? format(start, 'EEE, MMM d')
+              : `${format(start, 'EEE, MMM d · h:mm a')} - ${format(end, 'h:mm a')}`}
+          </p>
+        </div>
+      </div>
+      {event.location && (
+        <p className="flex items-start gap-2 text-sm text-foreground/80">
+          <MapPin size={14} className="shrink-0 mt-0.5" />
+          <span className="break-words">{event.location}</span>
+        </p>
+      )}
+      {event.url && (
+        <a href={event.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-sm text-primary hover:underline">
+          <Video size={14} className="shrink-0" />
+          <span className="truncate">{event.url}</span>
+        </a>
+      )}
+      {event.description && (
+        <Markdown text={event.description} className="max-h-40 overflow-hidden text-foreground/80 border-t border-border pt-2" />
+      )}
+    </div>
+  );
+};
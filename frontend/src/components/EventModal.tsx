@@ -1,62 +1,144 @@
-import React, { useState, useEffect } from 'react';
-import { X, AlertCircle } from 'lucide-react';
-import { format } from 'date-fns';
-import { RRule, RRuleSet, rrulestr } from 'rrule';
-import type { CalendarEvent as EventType } from '../api';
+import React, { useState, useEffect, useMemo } from 'react';
+import axios from 'axios';
+import { X, AlertCircle, MapPin, Video } from 'lucide-react';
+import { addDays, format } from 'date-fns';
+import { RRule } from 'rrule';
+import { isLocalEvent, type CalendarEvent as EventType, type CalendarInfo, type RecurrenceScope } from '../api';
+import { ScopeOptions } from './RecurrenceScopeDialog';
+import { AttendeeList } from './AttendeeList';
+import { ReminderList } from './ReminderList';
+import { Markdown } from './Markdown';
+import { browserTimeZone, fromZonedInputs, timeZoneOptions, toZonedInputs } from '../timeZone';
+import { plainDateToIso } from '../calendarView';
+import {
+  buildRecurrence, defaultRecurrence, describeRecurrence, FREQUENCIES, parseRecurrence, upcomingOccurrences,
+  type MonthlyMode, type RecurrenceEnd, type RecurrenceForm, type SeriesStart,
+} from '../recurrence';
+
+// "yyyy-MM-dd" of a UTC instant, which is how all-day events store their dates.
+const utcDateInput = (instant: Date) => instant.toISOString().slice(0, 10);
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ORDINALS = [{ value: 1, label: '1st' }, { value: 2, label: '2nd' }, { value: 3, label: '3rd' }, { value: 4, label: '4th' }, { value: -1, label: 'last' }];
 
 interface EventModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (data: Partial<EventType> & { id?: string }) => Promise<void>;
+  onSubmit: (data: Partial<EventType> & { id?: string; scope?: RecurrenceScope }) => Promise<void>;
   initialDate?: Date;
+  // End of a new event, e.g. from a suggested slot. Defaults to 10:00.
+  initialEndDate?: Date;
   eventToEdit?: EventType | null;
+  calendars: CalendarInfo[];
+  // Preselected calendar for new events
+  defaultCalendarId?: string;
+  currentUserId: string;
+  // Invitations and responses are saved right away rather than on submit.
+  onAttendeesChange: () => void;
 }
 
-export const EventModal: React.FC<EventModalProps> = ({ isOpen, onClose, onSubmit, initialDate, eventToEdit }) => {
+export const EventModal: React.FC<EventModalProps> = ({ isOpen, onClose, onSubmit, initialDate, initialEndDate, eventToEdit, calendars, defaultCalendarId, currentUserId, onAttendeesChange }) => {
   const [title, setTitle] = useState('');
-  const [selectedDate, setSelectedDate] = useState(format(initialDate || new Date(), 'yyyy-MM-dd'));
+  const [description, setDescription] = useState('');
+  const [location, setLocation] = useState('');
+  const [url, setUrl] = useState('');
+  const [previewDescription, setPreviewDescription] = useState(false);
+  const [calendarId, setCalendarId] = useState<string | undefined>(defaultCalendarId);
+  const [selectedStartDate, setSelectedStartDate] = useState(format(initialDate || new Date(), 'yyyy-MM-dd'));
+  const [selectedEndDate, setSelectedEndDate] = useState(format(initialDate || new Date(), 'yyyy-MM-dd'));
   const [selectedStartHour, setSelectedStartHour] = useState('09:00');
   const [selectedEndHour, setSelectedEndHour] = useState('10:00');
+  // All-day events only have dates; the end date is the last day, inclusive.
+  const [allDay, setAllDay] = useState(false);
+  // Date and times are entered in this zone, and a series keeps its local time in it.
+  const [timeZone, setTimeZone] = useState(browserTimeZone());
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const isEditMode = !!eventToEdit && !eventToEdit.isRecurringInstance;
+  const [scope, setScope] = useState<RecurrenceScope>('this');
+  // Events organized by someone else can only be answered, not edited.
+  const isInvitation = !!eventToEdit?.userId && eventToEdit.userId !== currentUserId;
 
   // --- Recurrence State ---
   const [repeats, setRepeats] = useState(false);
-  const [freq, setFreq] = useState(RRule.WEEKLY);
-  const [interval, setInterval] = useState(1);
-  const [byday, setByday] = useState<number[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceForm>(() => defaultRecurrence({ date: selectedStartDate, time: selectedStartHour, timeZone }));
+  // EXDATE lines of the stored rule, which are kept when it is edited.
+  const [exclusions, setExclusions] = useState<string[]>([]);
+  // A stored rule the form cannot show. It is saved as it is unless the user replaces it.
+  const [customRule, setCustomRule] = useState<string | null>(null);
+  // The rule as the form had it on opening, to tell whether it was changed.
+  const [openedRule, setOpenedRule] = useState<string | null>(null);
 
   useEffect(() => {
     if (isOpen) {
       // Reset form state on open
       setError(null);
+      setScope('this');
       const initial = eventToEdit || { startTime: initialDate || new Date() };
       const startDate = new Date(initial.startTime);
+      // Events from before zones were recorded are shown in the browser's zone.
+      const zone = eventToEdit?.timeZone || browserTimeZone();
+      const start = toZonedInputs(startDate, zone);
 
       setTitle(eventToEdit?.title || '');
-      setSelectedDate(format(startDate, 'yyyy-MM-dd'));
-      setSelectedStartHour(format(startDate, 'HH:mm'));
-      setSelectedEndHour(eventToEdit ? format(new Date(eventToEdit.endTime), 'HH:mm') : '10:00');
-
-      // Set recurrence form state
-      if (eventToEdit?.rrule) {
-        const rule = rrulestr(eventToEdit.rrule);
-        setRepeats(true);
-        setFreq(rule.options.freq);
-        setInterval(rule.options.interval);
-        setByday(rule.options.byday || []);
+      setDescription(eventToEdit?.description || '');
+      setLocation(eventToEdit?.location || '');
+      setUrl(eventToEdit?.url || '');
+      setPreviewDescription(false);
+      setCalendarId(eventToEdit?.calendarId ?? defaultCalendarId);
+      setTimeZone(zone);
+      setAllDay(!!eventToEdit?.allDay);
+      if (eventToEdit?.allDay) {
+        setSelectedStartDate(utcDateInput(startDate));
+        setSelectedEndDate(utcDateInput(addDays(new Date(eventToEdit.endTime), -1)));
+        setSelectedStartHour('09:00');
+        setSelectedEndHour('10:00');
       } else {
-        setRepeats(false);
-        setFreq(RRule.WEEKLY);
-        setInterval(1);
-        setByday([startDate.getDay()]);
+        const initialEnd = eventToEdit ? new Date(eventToEdit.endTime) : initialEndDate;
+        const end = initialEnd ? toZonedInputs(initialEnd, zone) : { date: start.date, time: '10:00' };
+        setSelectedStartDate(start.date);
+        setSelectedStartHour(start.time);
+        setSelectedEndDate(end.date);
+        setSelectedEndHour(end.time);
       }
+
+      // Set recurrence form state
+      const ruleStart: SeriesStart = eventToEdit?.allDay
+        ? { date: utcDateInput(startDate), time: '00:00', timeZone: null }
+        : { ...start, timeZone: zone };
+      const parsed = eventToEdit?.rrule ? parseRecurrence(eventToEdit.rrule, ruleStart) : null;
+      const form = parsed?.form ?? defaultRecurrence(ruleStart);
+      setRepeats(!!eventToEdit?.rrule);
+      setRecurrence(form);
+      setExclusions(parsed?.exclusions ?? []);
+      setCustomRule(eventToEdit?.rrule && !parsed ? eventToEdit.rrule : null);
+      setOpenedRule(eventToEdit?.rrule && parsed ? buildRecurrence(form, ruleStart, parsed.exclusions) : null);
     }
-  }, [eventToEdit, initialDate, isOpen]);
+  }, [eventToEdit, initialDate, initialEndDate, isOpen, defaultCalendarId]);
+
+  const seriesStart: SeriesStart = allDay
+    ? { date: selectedStartDate, time: '00:00', timeZone: null }
+    : { date: selectedStartDate, time: selectedStartHour, timeZone };
+  const editedRule = customRule ?? buildRecurrence(recurrence, seriesStart, exclusions);
+  // A rule left as it was opened is saved exactly as stored, whatever the form would write for it.
+  const storedRule = eventToEdit?.rrule && (customRule || editedRule === openedRule) ? eventToEdit.rrule : null;
+  const previewRule = repeats ? storedRule ?? editedRule : null;
+  const preview = useMemo(
+    () => (previewRule ? upcomingOccurrences(previewRule, { date: selectedStartDate, time: allDay ? '00:00' : selectedStartHour, timeZone: allDay ? null : timeZone }) : null),
+    [previewRule, selectedStartDate, selectedStartHour, allDay, timeZone],
+  );
+
+  const updateRecurrence = (changes: Partial<RecurrenceForm>) => setRecurrence(prev => ({ ...prev, ...changes }));
 
   const handleWeekdayChange = (day: number) => {
-    setByday(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+    updateRecurrence({ weekdays: recurrence.weekdays.includes(day) ? recurrence.weekdays.filter(d => d !== day) : [...recurrence.weekdays, day] });
+  };
+
+  // Swaps a rule the form cannot show for an editable one starting from the event's start.
+  const replaceCustomRule = () => {
+    setCustomRule(null);
+    setExclusions([]);
+    setRecurrence(defaultRecurrence(seriesStart));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -64,47 +146,48 @@ export const EventModal: React.FC<EventModalProps> = ({ isOpen, onClose, onSubmi
     setError(null);
     setIsSubmitting(true);
     try {
-      const startDateTime = new Date(`${selectedDate}T${selectedStartHour}:00`);
-      const endDateTime = new Date(`${selectedDate}T${selectedEndHour}:00`);
+      // All-day events end at the start of the day after the last one.
+      const startDateTime = allDay
+        ? new Date(plainDateToIso(selectedStartDate))
+        : fromZonedInputs(selectedStartDate, selectedStartHour, timeZone);
+      const endDateTime = allDay
+        ? addDays(new Date(plainDateToIso(selectedEndDate)), 1)
+        : fromZonedInputs(selectedEndDate, selectedEndHour, timeZone);
       
       if (startDateTime >= endDateTime) {
-        setError('End time must be after start time.');
+        setError(allDay ? 'End date cannot be before start date.' : 'End time must be after start time.');
         setIsSubmitting(false);
         return;
       }
 
+      // An occurrence sends an unchanged rule as nothing, so its series keeps it, or continues it
+      // from the split when "this and following" is chosen.
       let rruleString: string | undefined = undefined;
       if (repeats) {
-        const ruleOptions: Partial<RRule.Options> = {
-          freq,
-          interval,
-          dtstart: startDateTime,
-        };
-
-        // The 'byday' property is only valid for weekly recurrences in our UI.
-        // Applying it to other frequencies was causing an error.
-        if (freq === RRule.WEEKLY) {
-          // For weekly repeats, rrule requires a day to repeat on.
-          // If the user hasn't selected any, default to the day of the start date.
-          // An empty byday array is not valid for weekly frequency.
-          ruleOptions.byday = byday.length > 0 ? byday : [startDateTime.getDay()];
-        }
-
-        const rule = new RRule(ruleOptions);
-        rruleString = rule.toString();
+        rruleString = storedRule ? (eventToEdit?.isRecurringInstance ? undefined : storedRule) : editedRule;
       }
 
       await onSubmit({ 
         id: isEditMode ? eventToEdit.id : undefined,
         title, 
+        // Blank fields are sent as null, which clears them.
+        description: description.trim() || null,
+        location: location.trim() || null,
+        url: url.trim() || null,
         startTime: startDateTime.toISOString(), 
         endTime: endDateTime.toISOString(),
+        timeZone: allDay ? null : timeZone,
+        allDay,
         rrule: rruleString,
+        calendarId,
+        scope: eventToEdit?.isRecurringInstance ? scope : undefined,
       });
       onClose();
-    } catch (err: any) {
-      if (err.response && err.response.status === 409) {
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 409) {
         setError("Conflict detected! This slot is already booked.");
+      } else if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error);
       } else {
         setError("Could not save event. Please try again.");
       }
@@ -115,42 +198,132 @@ export const EventModal: React.FC<EventModalProps> = ({ isOpen, onClose, onSubmi
 
   if (!isOpen) return null;
 
-  // Cannot edit a single instance of a recurring event, only the master.
-  // The logic in Calendar.tsx will create an exception instead.
-  const modalTitle = eventToEdit?.isRecurringInstance 
-    ? 'Editing an Instance' 
-    : isEditMode ? 'Edit Event' : 'Add New Event';
+  // Instances are never updated directly. Depending on the chosen scope, Calendar.tsx creates an
+  // exception, splits the series, or updates the master.
+  const modalTitle = isInvitation
+    ? 'Invitation'
+    : eventToEdit?.isRecurringInstance 
+      ? 'Editing an Instance' 
+      : isEditMode ? 'Edit Event' : 'Add New Event';
 
   return (
     <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in">
-      <div className="bg-card rounded-lg shadow-2xl w-full max-w-md p-6 relative animate-scale-in" role="dialog" aria-modal="true">
+      <div className="bg-card rounded-lg shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6 relative animate-scale-in" role="dialog" aria-modal="true">
         <button onClick={onClose} className="absolute top-3 right-3 text-foreground/50 hover:text-foreground">
           <X size={24} />
         </button>
         <h2 className="text-xl font-bold mb-4 text-foreground">{modalTitle}</h2>
         
         <form onSubmit={handleSubmit} className="space-y-4">
+          <fieldset disabled={isInvitation} className="space-y-4 min-w-0">
           <div>
             <label htmlFor="title" className="block text-sm font-medium text-foreground/80 mb-1">Event Name</label>
             <input id="title" required placeholder="Team Meeting" value={title} onChange={e => setTitle(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none" />
           </div>
+
+          {/* Invitees cannot edit the details, so they get them rendered, with a working link. */}
+          {isInvitation ? (
+            (location || url) && (
+              <div className="space-y-1 text-sm">
+                {location && <p className="flex items-center gap-2"><MapPin size={14} className="shrink-0" />{location}</p>}
+                {url && (
+                  <a href={url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-primary hover:underline">
+                    <Video size={14} className="shrink-0" /><span className="truncate">{url}</span>
+                  </a>
+                )}
+              </div>
+            )
+          ) : (
+            <>
+              <div>
+                <label htmlFor="location" className="block text-sm font-medium text-foreground/80 mb-1">Location</label>
+                <input id="location" placeholder="Room 4.01" value={location} onChange={e => setLocation(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none" />
+              </div>
+              <div>
+                <label htmlFor="url" className="block text-sm font-medium text-foreground/80 mb-1">Meeting Link</label>
+                <input id="url" type="url" placeholder="https://meet.example.com/team" value={url} onChange={e => setUrl(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none" />
+              </div>
+            </>
+          )}
           
-          <div>
-            <label htmlFor="date" className="block text-sm font-medium text-foreground/80 mb-1">Date</label>
-            <input id="date" required type="date" value={selectedDate} onChange={e => setSelectedDate(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none" />
+          {/* A single occurrence always stays in its series' calendar. */}
+          {calendars.length > 0 && !(eventToEdit?.isRecurringInstance && scope === 'this') && (
+            <div>
+              <label htmlFor="calendar" className="block text-sm font-medium text-foreground/80 mb-1">Calendar</label>
+              <select id="calendar" value={calendarId} onChange={e => setCalendarId(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none">
+                {calendars.map(calendar => (
+                  <option key={calendar.id} value={calendar.id}>{calendar.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* A single occurrence stays all-day (or timed) like the rest of its series. */}
+          <div className="flex items-center gap-2">
+            <input type="checkbox" id="all-day" checked={allDay} disabled={eventToEdit?.isRecurringInstance && scope === 'this'} onChange={e => setAllDay(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary" />
+            <label htmlFor="all-day" className="text-sm font-medium">All day</label>
           </div>
 
           <div className="flex items-center gap-4">
             <div className="flex-1">
-              <label htmlFor="start-time" className="block text-sm font-medium text-foreground/80 mb-1">Start Time</label>
-              <input id="start-time" required type="time" value={selectedStartHour} onChange={e => setSelectedStartHour(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none" />
+              <label htmlFor="start-date" className="block text-sm font-medium text-foreground/80 mb-1">Start Date</label>
+              <input id="start-date" required type="date" value={selectedStartDate} onChange={e => setSelectedStartDate(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none" />
             </div>
+            {!allDay && (
+              <div className="flex-1">
+                <label htmlFor="start-time" className="block text-sm font-medium text-foreground/80 mb-1">Start Time</label>
+                <input id="start-time" required type="time" value={selectedStartHour} onChange={e => setSelectedStartHour(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none" />
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-4">
             <div className="flex-1">
-              <label htmlFor="end-time" className="block text-sm font-medium text-foreground/80 mb-1">End Time</label>
-              <input id="end-time" required type="time" value={selectedEndHour} onChange={e => setSelectedEndHour(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none" />
+              <label htmlFor="end-date" className="block text-sm font-medium text-foreground/80 mb-1">End Date</label>
+              <input id="end-date" required type="date" value={selectedEndDate} onChange={e => setSelectedEndDate(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none" />
             </div>
+            {!allDay && (
+              <div className="flex-1">
+                <label htmlFor="end-time" className="block text-sm font-medium text-foreground/80 mb-1">End Time</label>
+                <input id="end-time" required type="time" value={selectedEndHour} onChange={e => setSelectedEndHour(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none" />
+              </div>
+            )}
           </div>
 
+          {/* A single occurrence always keeps its series' zone. All-day events have none. */}
+          {allDay ? null : eventToEdit?.isRecurringInstance && scope === 'this' ? (
+            <p className="text-xs text-foreground/60">Times are in {timeZone}.</p>
+          ) : (
+            <div>
+              <label htmlFor="time-zone" className="block text-sm font-medium text-foreground/80 mb-1">Time Zone</label>
+              <select id="time-zone" value={timeZone} onChange={e => setTimeZone(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none">
+                {timeZoneOptions().map(zone => (
+                  <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {isInvitation ? (
+            description && <Markdown text={description} className="text-foreground/80" />
+          ) : (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label htmlFor="description" className="block text-sm font-medium text-foreground/80">Description</label>
+                <button type="button" onClick={() => setPreviewDescription(p => !p)} className="text-xs font-medium text-primary hover:underline">
+                  {previewDescription ? 'Edit' : 'Preview'}
+                </button>
+              </div>
+              {previewDescription ? (
+                <div className="min-h-24 bg-background border border-border rounded-md px-3 py-2">
+                  {description.trim() ? <Markdown text={description} /> : <p className="text-sm text-foreground/50">Nothing to preview.</p>}
+                </div>
+              ) : (
+                <textarea id="description" rows={4} placeholder="Agenda, notes... **Markdown** works." value={description} onChange={e => setDescription(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none resize-y" />
+              )}
+            </div>
+          )}
+
           {/* --- Recurrence Section --- */}
           <div className="space-y-3 pt-2">
             <div className="flex items-center gap-2">
@@ -160,29 +333,113 @@ export const EventModal: React.FC<EventModalProps> = ({ isOpen, onClose, onSubmi
 
             {repeats && (
               <div className="pl-6 space-y-4 border-l-2 border-border ml-2 py-2">
-                <div className="flex items-center gap-2">
-                  <span className="text-sm">Every</span>
-                  <input type="number" value={interval} onChange={e => setInterval(parseInt(e.target.value, 10) || 1)} min="1" className="w-16 bg-background border border-border rounded-md px-2 py-1 text-sm" />
-                  <select value={freq} onChange={e => setFreq(Number(e.target.value))} className="bg-background border border-border rounded-md px-2 py-1 text-sm">
-                    <option value={RRule.DAILY}>Day(s)</option>
-                    <option value={RRule.WEEKLY}>Week(s)</option>
-                    <option value={RRule.MONTHLY}>Month(s)</option>
-                    <option value={RRule.YEARLY}>Year(s)</option>
-                  </select>
-                </div>
-                {freq === RRule.WEEKLY && (
-                  <div className="flex gap-1">
-                    {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((day, i) => (
-                      <button key={i} type="button" onClick={() => handleWeekdayChange(i)} className={`w-8 h-8 rounded-full text-xs font-bold ${byday.includes(i) ? 'bg-primary text-primary-foreground' : 'bg-border hover:bg-border/80'}`}>
-                        {day}
-                      </button>
-                    ))}
+                {customRule ? (
+                  <div className="space-y-2 text-sm">
+                    <p>{describeRecurrence(customRule) ?? customRule}</p>
+                    <p className="text-xs text-foreground/60">This rule was set up elsewhere and can't be edited here. It is kept as it is.</p>
+                    <button type="button" onClick={replaceCustomRule} className="text-xs font-medium text-primary hover:underline">
+                      Replace with a new rule
+                    </button>
                   </div>
+                ) : (
+                  <>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm">Every</span>
+                      <input type="number" value={recurrence.interval} onChange={e => updateRecurrence({ interval: parseInt(e.target.value, 10) || 1 })} min="1" className="w-16 bg-background border border-border rounded-md px-2 py-1 text-sm" />
+                      <select value={recurrence.freq} onChange={e => updateRecurrence({ freq: Number(e.target.value) })} className="bg-background border border-border rounded-md px-2 py-1 text-sm">
+                        {FREQUENCIES.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                      </select>
+                    </div>
+                    {recurrence.freq === RRule.WEEKLY && (
+                      <div className="flex gap-1">
+                        {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((day, i) => (
+                          <button key={i} type="button" title={WEEKDAY_NAMES[i]} onClick={() => handleWeekdayChange(i)} className={`w-8 h-8 rounded-full text-xs font-bold ${recurrence.weekdays.includes(i) ? 'bg-primary text-primary-foreground' : 'bg-border hover:bg-border/80'}`}>
+                            {day}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {recurrence.freq === RRule.MONTHLY && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <select value={recurrence.monthlyMode} onChange={e => updateRecurrence({ monthlyMode: e.target.value as MonthlyMode })} className="bg-background border border-border rounded-md px-2 py-1 text-sm">
+                          <option value="monthDay">On day</option>
+                          <option value="nthWeekday">On the</option>
+                          <option value="lastWeekday">On the last weekday</option>
+                        </select>
+                        {recurrence.monthlyMode === 'monthDay' && (
+                          <input type="number" value={recurrence.monthDay} onChange={e => updateRecurrence({ monthDay: Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), 31) })} min="1" max="31" className="w-16 bg-background border border-border rounded-md px-2 py-1 text-sm" />
+                        )}
+                        {recurrence.monthlyMode === 'nthWeekday' && (
+                          <>
+                            <select value={recurrence.nth} onChange={e => updateRecurrence({ nth: Number(e.target.value) })} className="bg-background border border-border rounded-md px-2 py-1 text-sm">
+                              {ORDINALS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                            </select>
+                            <select value={recurrence.nthWeekday} onChange={e => updateRecurrence({ nthWeekday: Number(e.target.value) })} className="bg-background border border-border rounded-md px-2 py-1 text-sm">
+                              {WEEKDAY_NAMES.map((name, i) => <option key={name} value={i}>{name}</option>)}
+                            </select>
+                          </>
+                        )}
+                      </div>
+                    )}
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm">Ends</span>
+                      <select value={recurrence.end} onChange={e => updateRecurrence({ end: e.target.value as RecurrenceEnd })} className="bg-background border border-border rounded-md px-2 py-1 text-sm">
+                        <option value="never">Never</option>
+                        <option value="until">On</option>
+                        <option value="count">After</option>
+                      </select>
+                      {recurrence.end === 'until' && (
+                        <input type="date" required value={recurrence.until} min={selectedStartDate} onChange={e => updateRecurrence({ until: e.target.value })} className="bg-background border border-border rounded-md px-2 py-1 text-sm" />
+                      )}
+                      {recurrence.end === 'count' && (
+                        <>
+                          <input type="number" value={recurrence.count} onChange={e => updateRecurrence({ count: parseInt(e.target.value, 10) || 1 })} min="1" className="w-16 bg-background border border-border rounded-md px-2 py-1 text-sm" />
+                          <span className="text-sm">occurrences</span>
+                        </>
+                      )}
+                    </div>
+                  </>
                 )}
+
+                <div>
+                  <span className="block text-xs font-medium text-foreground/60 mb-1">
+                    Next occurrences{allDay ? '' : ` (${timeZone.replace(/_/g, ' ')})`}
+                  </span>
+                  {preview === null ? (
+                    <p className="text-xs text-foreground/60">This rule can't be previewed.</p>
+                  ) : preview.length === 0 ? (
+                    <p className="text-xs text-foreground/60">No more occurrences.</p>
+                  ) : (
+                    <ul className="text-xs text-foreground/80 space-y-0.5">
+                      {preview.map(date => <li key={date.getTime()}>{format(date, allDay ? 'EEE, MMM d, yyyy' : 'EEE, MMM d, yyyy, h:mm a')}</li>)}
+                    </ul>
+                  )}
+                  {exclusions.length > 0 && (
+                    <p className="text-xs text-foreground/60 mt-1">Dates excluded from the rule are skipped and kept.</p>
+                  )}
+                </div>
               </div>
             )}
           </div>
 
+          </fieldset>
+
+          {eventToEdit?.isRecurringInstance && !isInvitation && (
+            <div className="space-y-2 pt-2">
+              <span className="block text-sm font-medium text-foreground/80">Apply changes to</span>
+              <ScopeOptions value={scope} onChange={setScope} />
+            </div>
+          )}
+
+          {/* Reminders and invitations need the event saved first, which an event created offline is not yet. */}
+          {eventToEdit && !isInvitation && !isLocalEvent(eventToEdit) && (
+            <ReminderList key={eventToEdit.id} event={eventToEdit} />
+          )}
+
+          {eventToEdit && !isLocalEvent(eventToEdit) && (
+            <AttendeeList key={eventToEdit.id} event={eventToEdit} currentUserId={currentUserId} onChange={onAttendeesChange} />
+          )}
+
           {error && (
             <div className="bg-red-500/10 border border-red-500/20 text-red-600 dark:text-red-400 text-sm rounded-md p-3 flex items-center gap-2">
               <AlertCircle size={16} />
@@ -192,11 +449,11 @@ export const EventModal: React.FC<EventModalProps> = ({ isOpen, onClose, onSubmi
 
           <div className="flex justify-end gap-2 pt-4">
             <button type="button" onClick={onClose} className="px-4 py-2 rounded-md text-sm font-medium bg-border hover:bg-border/80">
-              Cancel
+              {isInvitation ? 'Close' : 'Cancel'}
             </button>
-            <button type="submit" disabled={isSubmitting} className="bg-primary hover:bg-primary/90 text-primary-foreground px-4 py-2 rounded-md text-sm font-medium shadow-sm transition disabled:opacity-50 disabled:cursor-not-allowed">
+            {!isInvitation && <button type="submit" disabled={isSubmitting} className="bg-primary hover:bg-primary/90 text-primary-foreground px-4 py-2 rounded-md text-sm font-medium shadow-sm transition disabled:opacity-50 disabled:cursor-not-allowed">
               {isSubmitting ? 'Saving...' : (isEditMode ? 'Save Changes' : 'Save Event')}
-            </button>
+            </button>}
           </div>
         </form>
       </div>
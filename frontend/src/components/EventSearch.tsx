@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { LoaderCircle, Search } from 'lucide-react';
+import { format } from 'date-fns';
+import { searchEvents, type CalendarEvent } from '../api';
+import { eventSpan } from '../calendarView';
+
+interface EventSearchProps {
+  // Only these calendars are searched; all of them when omitted.
+  calendarIds?: string[];
+  colorOf: (event: CalendarEvent) => string;
+  onSelect: (event: CalendarEvent) => void;
+}
+
+// Waits for a pause in typing before asking the server.
+const DEBOUNCE_MS = 300;
+
+export const EventSearch: React.FC<EventSearchProps> = ({ calendarIds, colorOf, onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<CalendarEvent[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const calendarKey = calendarIds?.join(',');
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) return;
+    // A slower, older request must not overwrite the results of a newer one.
+    let stale = false;
+    const timer = setTimeout(() => {
+      setSearching(true);
+      searchEvents({ q, calendarIds: calendarKey?.split(',') })
+        .then(found => {
+          if (stale) return;
+          setResults(found);
+          setError(null);
+        })
+        .catch(() => { if (!stale) setError("Search failed."); })
+        .finally(() => { if (!stale) setSearching(false); });
+    }, DEBOUNCE_MS);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [query, calendarKey]);
+
+  const handleChange = (value: string) => {
+    setQuery(value);
+    setIsOpen(true);
+    if (!value.trim()) {
+      setResults([]);
+      setError(null);
+      setSearching(false);
+    }
+  };
+
+  const select = (event: CalendarEvent) => {
+    setIsOpen(false);
+    onSelect(event);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') setIsOpen(false);
+    if (e.key === 'Enter' && results.length > 0) select(results[0]);
+  };
+
+  const showDropdown = isOpen && query.trim() !== '';
+
+  return (
+    <div className="relative">
+      <div className="flex items-center gap-2 bg-background border border-border rounded-md px-3 py-1.5 focus-within:ring-2 focus-within:ring-ring">
+        {searching ? <LoaderCircle size={16} className="text-foreground/50 animate-spin" /> : <Search size={16} className="text-foreground/50" />}
+        <input
+          type="search"
+          value={query}
+          onChange={e => handleChange(e.target.value)}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search events"
+          className="w-48 bg-transparent text-sm outline-none"
+        />
+      </div>
+
+      {showDropdown && (
+        <div className="absolute left-0 mt-2 w-96 bg-card border border-border rounded-lg shadow-2xl z-50 animate-scale-in">
+          {error ? (
+            <p className="px-4 py-6 text-sm text-center text-red-600 dark:text-red-400">{error}</p>
+          ) : results.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-foreground/60">{searching ? 'Searching…' : 'No matching events.'}</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-border">
+              {results.map(event => {
+                const { start } = eventSpan(event);
+                return (
+                  <li key={event.id}>
+                    <button
+                      type="button"
+                      // Keeps the input from blurring, which would close the list before the click lands.
+                      onMouseDown={e => e.preventDefault()}
+                      onClick={() => select(event)}
+                      className="w-full flex items-center gap-3 px-4 py-2.5 text-left text-sm hover:bg-background transition-colors"
+                    >
+                      <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ backgroundColor: colorOf(event) }} />
+                      <span className="flex-1 min-w-0">
+                        <span className="block font-semibold truncate">{event.title}</span>
+                        <span className="block text-xs text-foreground/60">
+                          {format(start, event.allDay ? 'EEE, MMM d, yyyy' : 'EEE, MMM d, yyyy · h:mm a')}
+                          {event.allDay && ' · All day'}
+                        </span>
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
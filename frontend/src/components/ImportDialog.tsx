@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { X, AlertCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { importCalendar, type ImportItem, type ImportReport } from '../api';
+
+interface ImportDialogProps {
+  file: File;
+  // The dry-run report for `file`.
+  report: ImportReport;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const SECTIONS: { key: keyof Omit<ImportReport, 'dryRun'>; label: string; className: string }[] = [
+  { key: 'created', label: 'New', className: 'text-green-600 dark:text-green-400' },
+  { key: 'updated', label: 'Updated', className: 'text-primary' },
+  { key: 'conflicting', label: 'Conflicting (will not be imported)', className: 'text-red-600 dark:text-red-400' },
+  { key: 'skipped', label: 'Skipped', className: 'text-foreground/60' },
+];
+
+const describeItem = (item: ImportItem) => {
+  if (!item.startTime) return item.title;
+  const when = format(new Date(item.startTime), 'MMM d, yyyy h:mm a');
+  if (item.isCancelled) return `${item.title} — occurrence on ${when} cancelled`;
+  return item.originalStartTime ? `${item.title} — occurrence moved to ${when}` : `${item.title} — ${when}`;
+};
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ file, report, onClose, onImported }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const changes = report.created.length + report.updated.length;
+
+  const handleImport = async () => {
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await importCalendar(file, false);
+      onImported();
+    } catch {
+      setError("Import failed. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-card rounded-lg shadow-2xl w-full max-w-lg p-6 relative animate-scale-in" role="dialog" aria-modal="true">
+        <button onClick={onClose} className="absolute top-3 right-3 text-foreground/50 hover:text-foreground">
+          <X size={24} />
+        </button>
+        <h2 className="text-xl font-bold mb-1 text-foreground">Import {file.name}</h2>
+        <p className="text-sm text-foreground/60 mb-4">Review what will change before importing.</p>
+
+        <div className="space-y-4 max-h-[50vh] overflow-y-auto">
+          {SECTIONS.filter(section => report[section.key].length > 0).map(section => (
+            <div key={section.key}>
+              <h3 className={`text-sm font-semibold mb-1 ${section.className}`}>
+                {section.label} ({report[section.key].length})
+              </h3>
+              <ul className="text-xs space-y-1">
+                {report[section.key].map((item, i) => (
+                  <li key={i} className="text-foreground/80">
+                    {describeItem(item)}
+                    {item.reason && <span className="text-foreground/50"> · {item.reason}</span>}
+                    {item.conflicts?.map(conflict => (
+                      <div key={`${conflict.eventId}-${conflict.startTime}`} className="pl-3 text-red-600 dark:text-red-400">
+                        overlaps "{conflict.title}" at {format(new Date(conflict.startTime), 'MMM d, h:mm a')}
+                      </div>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          {changes === 0 && report.conflicting.length === 0 && report.skipped.length === 0 && (
+            <p className="text-sm text-foreground/60">The file does not contain any events.</p>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 text-red-600 dark:text-red-400 text-sm rounded-md p-3 mt-4 flex items-center gap-2">
+            <AlertCircle size={16} />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-6">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-md text-sm font-medium bg-border hover:bg-border/80">
+            Cancel
+          </button>
+          <button type="button" onClick={handleImport} disabled={isSubmitting || changes === 0} className="bg-primary hover:bg-primary/90 text-primary-foreground px-4 py-2 rounded-md text-sm font-medium shadow-sm transition disabled:opacity-50 disabled:cursor-not-allowed">
+            {isSubmitting ? 'Importing...' : `Import ${changes} item${changes === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { AlertCircle, Calendar as CalendarIcon } from 'lucide-react';
+import { login, register, type User } from '../api';
+import { ThemeToggle } from './ThemeToggle';
+
+interface LoginScreenProps {
+  onLogin: (user: User) => void;
+}
+
+export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const isRegister = mode === 'register';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const user = isRegister ? await register(email, password, name) : await login(email, password);
+      onLogin(user);
+    } catch (err) {
+      // The backend explains what was wrong (taken email, short password, bad credentials).
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error);
+      } else {
+        setError("Could not reach the server. Please try again.");
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const switchMode = () => {
+    setMode(isRegister ? 'login' : 'register');
+    setError(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground font-sans flex items-center justify-center p-4">
+      <div className="absolute top-4 right-4">
+        <ThemeToggle />
+      </div>
+      <div className="bg-card rounded-lg shadow-2xl w-full max-w-sm p-6 animate-scale-in">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="bg-primary p-2 rounded-lg text-primary-foreground">
+            <CalendarIcon size={24} />
+          </div>
+          <h1 className="text-2xl font-bold tracking-tight">{isRegister ? 'Create account' : 'Sign in'}</h1>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {isRegister && (
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-foreground/80 mb-1">Name</label>
+              <input id="name" placeholder="Optional" value={name} onChange={e => setName(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none" />
+            </div>
+          )}
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-foreground/80 mb-1">Email</label>
+            <input id="email" required type="email" autoComplete="email" value={email} onChange={e => setEmail(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none" />
+          </div>
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-foreground/80 mb-1">Password</label>
+            <input id="password" required type="password" minLength={isRegister ? 8 : undefined} autoComplete={isRegister ? 'new-password' : 'current-password'} value={password} onChange={e => setPassword(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none" />
+          </div>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 text-red-600 dark:text-red-400 text-sm rounded-md p-3 flex items-center gap-2">
+              <AlertCircle size={16} />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <button type="submit" disabled={isSubmitting} className="w-full bg-primary hover:bg-primary/90 text-primary-foreground px-4 py-2 rounded-md text-sm font-medium shadow-sm transition disabled:opacity-50 disabled:cursor-not-allowed">
+            {isSubmitting ? 'Please wait...' : (isRegister ? 'Create account' : 'Sign in')}
+          </button>
+        </form>
+
+        <p className="text-sm text-foreground/60 text-center mt-4">
+          {isRegister ? 'Already have an account?' : "Don't have an account?"}{' '}
+          <button type="button" onClick={switchMode} className="text-primary font-medium hover:underline">
+            {isRegister ? 'Sign in' : 'Create one'}
+          </button>
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { clsx } from 'clsx';
+
+// `code`, **bold**, *italic* or _italic_ (not inside snake_case words), [text](https://...) and bare
+// http(s) links, in that order.
+const INLINE = /`([^`]+)`|\*\*(.+?)\*\*|\*(.+?)\*|(?<!\w)_(.+?)_(?!\w)|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)|(https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"])/g;
+
+const linkClass = "text-primary underline underline-offset-2 break-all";
+
+const renderInline = (text: string): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    const [whole, code, bold, star, underscore, label, href, bare] = match;
+    if (match.index > last) nodes.push(text.slice(last, match.index));
+    const key = nodes.length;
+    if (code !== undefined) nodes.push(<code key={key} className="px-1 rounded bg-border/60 font-mono text-[0.9em]">{code}</code>);
+    else if (bold !== undefined) nodes.push(<strong key={key}>{renderInline(bold)}</strong>);
+    else if (star !== undefined || underscore !== undefined) nodes.push(<em key={key}>{renderInline(star ?? underscore)}</em>);
+    else nodes.push(
+      <a key={key} href={href ?? bare} target="_blank" rel="noopener noreferrer" className={linkClass} onClick={e => e.stopPropagation()}>
+        {label !== undefined ? renderInline(label) : bare}
+      </a>,
+    );
+    last = match.index + whole.length;
+  }
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+};
+
+// Lines of a paragraph keep their breaks.
+const withBreaks = (lines: string[]): React.ReactNode[] =>
+  lines.flatMap((line, i) => [...(i > 0 ? [<br key={`br-${i}`} />] : []), <React.Fragment key={i}>{renderInline(line)}</React.Fragment>]);
+
+const renderBlock = (block: string, key: number): React.ReactNode => {
+  const lines = block.split('\n');
+  const heading = /^(#{1,3})\s+(.*)$/.exec(block);
+  if (heading && lines.length === 1) {
+    return <p key={key} className={clsx("font-semibold", heading[1].length === 1 && "text-base")}>{renderInline(heading[2])}</p>;
+  }
+  if (lines.every(line => /^\s*[-*]\s+/.test(line))) {
+    return (
+      <ul key={key} className="list-disc pl-5 space-y-0.5">
+        {lines.map((line, i) => <li key={i}>{renderInline(line.replace(/^\s*[-*]\s+/, ''))}</li>)}
+      </ul>
+    );
+  }
+  if (lines.every(line => /^\s*\d+[.)]\s+/.test(line))) {
+    return (
+      <ol key={key} className="list-decimal pl-5 space-y-0.5">
+        {lines.map((line, i) => <li key={i}>{renderInline(line.replace(/^\s*\d+[.)]\s+/, ''))}</li>)}
+      </ol>
+    );
+  }
+  return <p key={key}>{withBreaks(lines)}</p>;
+};
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+}
+
+/**
+ * Renders the small subset of Markdown used in event descriptions: paragraphs, headings, lists,
+ * emphasis, inline code and links. Everything is built as React elements, never as HTML, so a
+ * description cannot inject markup, and only http(s) links are made clickable.
+ */
+export const Markdown: React.FC<MarkdownProps> = ({ text, className }) => (
+  <div className={clsx("space-y-2 text-sm break-words", className)}>
+    {text.replace(/\r\n/g, '\n').trim().split(/\n\s*\n/).map(renderBlock)}
+  </div>
+);
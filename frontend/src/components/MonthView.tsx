@@ -0,0 +1,101 @@
+import React from 'react';
+import { format, isSameDay, isSameMonth, setHours } from 'date-fns';
+import { clsx } from 'clsx';
+import type { CalendarEvent } from '../api';
+import { daysBetween, occursOn, viewRange } from '../calendarView';
+
+// Events listed in a day cell before the rest collapse into "+N more".
+const MAX_VISIBLE_EVENTS = 3;
+
+interface MonthViewProps {
+  date: Date;
+  events: CalendarEvent[];
+  colorOf: (event: CalendarEvent) => string;
+  isDeclined: (event: CalendarEvent) => boolean;
+  // Picked from the search results; shown even when the cell overflows.
+  highlightedId?: string | null;
+  onSelectEvent: (event: CalendarEvent) => void;
+  onAddEvent: (date: Date) => void;
+  // Opens the day view, used by "+N more".
+  onShowDay: (date: Date) => void;
+}
+
+export const MonthView: React.FC<MonthViewProps> = ({ date, events, colorOf, isDeclined, highlightedId, onSelectEvent, onAddEvent, onShowDay }) => {
+  const { start, end } = viewRange('month', date);
+  const days = daysBetween(start, end);
+  // All-day events come first in each cell, like the banner above the week grid.
+  const sorted = [...events].sort((a, b) =>
+    Number(!!b.allDay) - Number(!!a.allDay) || new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+
+  return (
+    <div className="flex flex-col h-full min-w-[800px] bg-card">
+      <div className="grid grid-cols-7 sticky top-0 z-20 bg-card border-b border-border shadow-sm">
+        {days.slice(0, 7).map(day => (
+          <div key={day.toISOString()} className="py-3 text-center text-xs font-bold uppercase text-foreground/60 border-l border-border first:border-l-0">
+            {format(day, 'EEE')}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7 flex-1 auto-rows-fr">
+        {days.map(day => {
+          const dayEvents = sorted.filter(e => occursOn(e, day));
+          // When some don't fit, the last line is taken by the "+N more" link.
+          const overflowing = dayEvents.length > MAX_VISIBLE_EVENTS;
+          const visible = overflowing ? dayEvents.slice(0, MAX_VISIBLE_EVENTS - 1) : dayEvents;
+          const hiddenHighlight = dayEvents.find(e => e.id === highlightedId && !visible.includes(e));
+          if (hiddenHighlight) visible[visible.length - 1] = hiddenHighlight;
+          const today = isSameDay(day, new Date());
+
+          return (
+            <div
+              key={day.toISOString()}
+              onClick={() => onAddEvent(setHours(day, 9))}
+              className={clsx("min-h-28 border-b border-l border-border p-1.5 flex flex-col gap-1 cursor-pointer hover:bg-background transition-colors", !isSameMonth(day, date) && "bg-background/50 text-foreground/40")}
+            >
+              <span className={clsx(
+                "text-xs font-medium h-6 w-6 flex items-center justify-center rounded-full self-end",
+                today && "bg-primary text-primary-foreground shadow-md"
+              )}>
+                {format(day, 'd')}
+              </span>
+
+              {visible.map(event => {
+                const color = colorOf(event);
+                const declined = isDeclined(event);
+                return (
+                  <button
+                    key={event.id}
+                    type="button"
+                    onClick={e => { e.stopPropagation(); onSelectEvent(event); }}
+                    data-highlighted={event.id === highlightedId || undefined}
+                    className={clsx("flex items-center gap-1.5 rounded px-1.5 py-0.5 text-xs text-left truncate hover:shadow-md transition-shadow", event.allDay ? "text-white font-semibold" : "text-foreground", declined && "opacity-50", event.id === highlightedId && "ring-2 ring-primary")}
+                    style={{ backgroundColor: event.allDay ? color : `${color}1f` }}
+                  >
+                    {!event.allDay && (
+                      <>
+                        <span className="h-2 w-2 rounded-full shrink-0" style={{ backgroundColor: color }} />
+                        <span className="font-medium" style={{ color }}>{format(new Date(event.startTime), 'h:mm')}</span>
+                      </>
+                    )}
+                    <span className={clsx("truncate", declined && "line-through")}>{event.title}</span>
+                  </button>
+                );
+              })}
+
+              {overflowing && (
+                <button
+                  type="button"
+                  onClick={e => { e.stopPropagation(); onShowDay(day); }}
+                  className="text-xs font-semibold text-foreground/60 hover:text-primary text-left px-1.5"
+                >
+                  +{dayEvents.length - visible.length} more
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
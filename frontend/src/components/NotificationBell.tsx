@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { Bell } from 'lucide-react';
+import { clsx } from 'clsx';
+import { format, formatDistanceToNow } from 'date-fns';
+import { fetchNotifications, markAllNotificationsRead, markNotificationRead, type AppNotification } from '../api';
+
+// Reminders are written by the scheduler in the background, so the feed is polled.
+const POLL_MS = 60_000;
+
+export const NotificationBell: React.FC = () => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const load = () =>
+    fetchNotifications()
+      .then(feed => {
+        setNotifications(feed.notifications);
+        setUnreadCount(feed.unreadCount);
+      })
+      // A missed poll is not worth an error toast; the next one will catch up.
+      .catch(() => {});
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleRead = async (notification: AppNotification) => {
+    if (notification.readAt) return;
+    await markNotificationRead(notification.id);
+    setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, readAt: new Date().toISOString() } : n));
+    setUnreadCount(count => Math.max(0, count - 1));
+  };
+
+  const handleReadAll = async () => {
+    await markAllNotificationsRead();
+    setNotifications(prev => prev.map(n => ({ ...n, readAt: n.readAt ?? new Date().toISOString() })));
+    setUnreadCount(0);
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(open => !open)} title="Notifications" className="relative p-2 rounded-md hover:bg-border/80 transition-colors">
+        <Bell size={18} />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-card border border-border rounded-lg shadow-2xl z-50 animate-scale-in">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+            <span className="text-sm font-semibold">Notifications</span>
+            {unreadCount > 0 && (
+              <button onClick={handleReadAll} className="text-xs font-medium text-primary hover:underline">
+                Mark all as read
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-foreground/60">You're all caught up.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-border">
+              {notifications.map(notification => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleRead(notification)}
+                    className={clsx("w-full text-left px-4 py-3 text-sm hover:bg-background transition-colors", !notification.readAt && "bg-primary/5")}
+                  >
+                    <div className="flex items-center gap-2">
+                      {!notification.readAt && <span className="h-2 w-2 rounded-full bg-primary shrink-0" />}
+                      <span className="font-semibold truncate">{notification.title}</span>
+                    </div>
+                    <div className="text-xs text-foreground/60 mt-0.5">
+                      Starts {format(new Date(notification.startTime), 'EEE, MMM d · h:mm a')}
+                      {' · '}
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
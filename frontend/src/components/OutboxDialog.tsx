@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { addMilliseconds, format } from 'date-fns';
+import { X, AlertCircle, RotateCcw, Trash2, CopyPlus } from 'lucide-react';
+import { discardOutboxEntry, retryOutboxEntry, saveOutboxEntryAsNew, type OutboxEntry } from '../api';
+
+// Lists the changes made offline that the API turned down once they were sent.
+interface OutboxDialogProps {
+  entries: OutboxEntry[];
+  // After a change was sent again or discarded, so the calendar can show what is saved now.
+  onChange: () => void;
+  onClose: () => void;
+}
+
+const DATETIME_INPUT = "yyyy-MM-dd'T'HH:mm";
+
+const describeChange = ({ action, data }: OutboxEntry) => {
+  if (action === 'delete') return 'Delete';
+  if (action === 'update') return 'Edit';
+  if (data.isCancelled) return 'Delete one occurrence';
+  return data.recurrenceId ? 'Edit one occurrence' : 'New event';
+};
+
+const formatTime = (value: string) => format(new Date(value), 'EEE, MMM d, h:mm a');
+
+const OutboxItem = ({ entry, onChange }: { entry: OutboxEntry; onChange: () => void }) => {
+  const { data, status } = entry;
+  // Timed creates and edits that overlap something can be moved to another start, keeping their length.
+  const movable = status === 409 && entry.action !== 'delete' && !data.allDay && !!data.startTime && !!data.endTime;
+  const [start, setStart] = useState(() => (data.startTime ? format(new Date(data.startTime), DATETIME_INPUT) : ''));
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+    onChange();
+  };
+
+  const handleRetry = () => run(async () => {
+    const moved = movable && start && format(new Date(data.startTime!), DATETIME_INPUT) !== start;
+    if (!moved) return retryOutboxEntry(entry);
+    const duration = new Date(data.endTime!).getTime() - new Date(data.startTime!).getTime();
+    const startTime = new Date(start);
+    await retryOutboxEntry(entry, { startTime: startTime.toISOString(), endTime: addMilliseconds(startTime, duration).toISOString() });
+  });
+
+  const handleDiscard = () => {
+    if (!confirm(`Discard this change to "${entry.title || '(No title)'}"? It will not be saved.`)) return;
+    run(() => discardOutboxEntry(entry));
+  };
+
+  return (
+    <li className="border border-border rounded-md px-3 py-2 space-y-2">
+      <div className="flex items-start gap-3">
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium text-foreground truncate">
+            <span className="text-foreground/60 font-normal">{describeChange(entry)}: </span>
+            {entry.title || '(No title)'}
+          </p>
+          {data.startTime && <p className="text-xs text-foreground/60">{formatTime(data.startTime)}</p>}
+          <p className="text-xs text-red-600 dark:text-red-400 flex items-center gap-1 mt-0.5">
+            <AlertCircle size={12} className="shrink-0" />
+            {entry.error}
+          </p>
+        </div>
+        <button onClick={handleRetry} disabled={busy} title={status === 412 ? 'Save yours anyway, over their changes' : 'Try again'} className="p-2 rounded-md hover:bg-border/80 text-primary disabled:opacity-50">
+          <RotateCcw size={16} />
+        </button>
+        {entry.action === 'update' && status === 404 && (
+          <button onClick={() => run(() => saveOutboxEntryAsNew(entry))} disabled={busy} title="Save as a new event" className="p-2 rounded-md hover:bg-border/80 text-primary disabled:opacity-50">
+            <CopyPlus size={16} />
+          </button>
+        )}
+        <button onClick={handleDiscard} disabled={busy} title="Discard" className="p-2 rounded-md hover:bg-red-500/10 text-red-600 dark:text-red-400 disabled:opacity-50">
+          <Trash2 size={16} />
+        </button>
+      </div>
+
+      {entry.conflicts && entry.conflicts.length > 0 && (
+        <ul className="text-xs text-foreground/70 space-y-0.5 pl-4 list-disc">
+          {entry.conflicts.map(conflict => (
+            <li key={conflict.eventId}>
+              Overlaps "{conflict.title}", {formatTime(conflict.startTime)} – {format(new Date(conflict.endTime), 'h:mm a')}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {movable && (
+        <label className="flex items-center gap-2 text-xs text-foreground/70">
+          Move to
+          <input
+            type="datetime-local"
+            value={start}
+            onChange={e => setStart(e.target.value)}
+            className="px-2 py-1 border border-border rounded-md bg-background text-foreground text-xs"
+          />
+          and try again
+        </label>
+      )}
+    </li>
+  );
+};
+
+export const OutboxDialog: React.FC<OutboxDialogProps> = ({ entries, onChange, onClose }) => (
+  <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in">
+    <div className="bg-card rounded-lg shadow-2xl w-full max-w-lg p-6 relative animate-scale-in" role="dialog" aria-modal="true">
+      <button onClick={onClose} className="absolute top-3 right-3 text-foreground/50 hover:text-foreground">
+        <X size={24} />
+      </button>
+      <h2 className="text-xl font-bold mb-1 text-foreground">Changes that could not be saved</h2>
+      <p className="text-sm text-foreground/60 mb-4">
+        These were made offline and turned down once the connection was back. Try them again, or discard them.
+      </p>
+
+      <ul className="space-y-2 max-h-[50vh] overflow-y-auto">
+        {entries.map(entry => <OutboxItem key={entry.id} entry={entry} onChange={onChange} />)}
+        {entries.length === 0 && <li className="text-sm text-foreground/60">Everything has been saved.</li>}
+      </ul>
+
+      <div className="flex justify-end pt-6">
+        <button type="button" onClick={onClose} className="px-4 py-2 rounded-md text-sm font-medium bg-border hover:bg-border/80">
+          Close
+        </button>
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import type { RecurrenceScope } from '../api';
+
+const SCOPE_OPTIONS: { value: RecurrenceScope; label: string }[] = [
+  { value: 'this', label: 'This event' },
+  { value: 'following', label: 'This and following events' },
+  { value: 'all', label: 'All events' },
+];
+
+interface ScopeOptionsProps {
+  value: RecurrenceScope;
+  onChange: (scope: RecurrenceScope) => void;
+}
+
+// The "this / this and following / all" radio group, shared by the dialog and the event modal.
+export const ScopeOptions: React.FC<ScopeOptionsProps> = ({ value, onChange }) => (
+  <div className="space-y-2">
+    {SCOPE_OPTIONS.map(option => (
+      <label key={option.value} className="flex items-center gap-2 text-sm cursor-pointer">
+        <input type="radio" name="recurrence-scope" value={option.value} checked={value === option.value} onChange={() => onChange(option.value)} className="h-4 w-4 text-primary focus:ring-primary" />
+        {option.label}
+      </label>
+    ))}
+  </div>
+);
+
+interface RecurrenceScopeDialogProps {
+  title?: string;
+  onSelect: (scope: RecurrenceScope) => void;
+  onCancel: () => void;
+}
+
+export const RecurrenceScopeDialog: React.FC<RecurrenceScopeDialogProps> = ({ title = 'Edit recurring event', onSelect, onCancel }) => {
+  const [scope, setScope] = useState<RecurrenceScope>('this');
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-[60] flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-card rounded-lg shadow-2xl w-full max-w-sm p-6 relative animate-scale-in" role="dialog" aria-modal="true">
+        <button onClick={onCancel} className="absolute top-3 right-3 text-foreground/50 hover:text-foreground">
+          <X size={24} />
+        </button>
+        <h2 className="text-xl font-bold mb-4 text-foreground">{title}</h2>
+
+        <ScopeOptions value={scope} onChange={setScope} />
+
+        <div className="flex justify-end gap-2 pt-6">
+          <button type="button" onClick={onCancel} className="px-4 py-2 rounded-md text-sm font-medium bg-border hover:bg-border/80">
+            Cancel
+          </button>
+          <button type="button" onClick={() => onSelect(scope)} className="bg-primary hover:bg-primary/90 text-primary-foreground px-4 py-2 rounded-md text-sm font-medium shadow-sm transition">
+            OK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
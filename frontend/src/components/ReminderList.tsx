@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import axios from 'axios';
+import { Bell, Mail, X } from 'lucide-react';
+import { addReminder, deleteReminder, fetchReminders, type CalendarEvent, type Reminder, type ReminderChannel } from '../api';
+
+// Loads the reminders of its event once mounted; render it with a key per event.
+interface ReminderListProps {
+  event: CalendarEvent;
+}
+
+const OFFSETS = [
+  { minutes: 0, label: 'At start time' },
+  { minutes: 5, label: '5 minutes before' },
+  { minutes: 10, label: '10 minutes before' },
+  { minutes: 15, label: '15 minutes before' },
+  { minutes: 30, label: '30 minutes before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 120, label: '2 hours before' },
+  { minutes: 24 * 60, label: '1 day before' },
+  { minutes: 7 * 24 * 60, label: '1 week before' },
+];
+
+const describeOffset = (minutes: number) =>
+  OFFSETS.find(o => o.minutes === minutes)?.label ?? `${minutes} minutes before`;
+
+export const ReminderList: React.FC<ReminderListProps> = ({ event }) => {
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [minutesBefore, setMinutesBefore] = useState(10);
+  const [channel, setChannel] = useState<ReminderChannel>('in-app');
+  const [error, setError] = useState<string | null>(null);
+  // Reminders belong to the whole series, even when opened from one occurrence.
+  const seriesId = event.recurrenceId ?? event.masterId ?? event.id;
+
+  useEffect(() => {
+    fetchReminders(seriesId)
+      .then(setReminders)
+      .catch(() => setError("Failed to load reminders."));
+  }, [seriesId]);
+
+  const handleAdd = async () => {
+    setError(null);
+    try {
+      const reminder = await addReminder(seriesId, minutesBefore, channel);
+      setReminders(prev => [...prev, reminder].sort((a, b) => a.minutesBefore - b.minutesBefore));
+    } catch (err) {
+      setError(axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : "Failed to add the reminder.");
+    }
+  };
+
+  const handleRemove = async (reminder: Reminder) => {
+    setError(null);
+    try {
+      await deleteReminder(seriesId, reminder.id);
+      setReminders(prev => prev.filter(r => r.id !== reminder.id));
+    } catch {
+      setError("Failed to remove the reminder.");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <span className="block text-sm font-medium text-foreground/80">Reminders</span>
+
+      {reminders.length > 0 ? (
+        <ul className="space-y-1">
+          {reminders.map(reminder => (
+            <li key={reminder.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="flex items-center gap-2">
+                {reminder.channel === 'email' ? <Mail size={14} /> : <Bell size={14} />}
+                {describeOffset(reminder.minutesBefore)}
+              </span>
+              <button type="button" onClick={() => handleRemove(reminder)} title="Remove" className="text-foreground/40 hover:text-red-500">
+                <X size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-foreground/50">No reminders.</p>
+      )}
+
+      <div className="flex gap-2">
+        <select value={minutesBefore} onChange={e => setMinutesBefore(Number(e.target.value))} className="flex-1 min-w-0 bg-background border border-border rounded-md px-2 py-1.5 text-sm focus:ring-2 focus:ring-ring outline-none">
+          {OFFSETS.map(offset => (
+            <option key={offset.minutes} value={offset.minutes}>{offset.label}</option>
+          ))}
+        </select>
+        <select value={channel} onChange={e => setChannel(e.target.value as ReminderChannel)} className="bg-background border border-border rounded-md px-2 py-1.5 text-sm focus:ring-2 focus:ring-ring outline-none">
+          <option value="in-app">Notification</option>
+          <option value="email">Email</option>
+        </select>
+        <button type="button" onClick={handleAdd} className="px-3 py-1.5 rounded-md text-sm font-medium bg-border hover:bg-border/80">
+          Add
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
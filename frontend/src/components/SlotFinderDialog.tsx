@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { X, AlertCircle } from 'lucide-react';
+import { addDays, format } from 'date-fns';
+import { suggestSlots, updateCurrentUser, type SuggestedSlot, type User } from '../api';
+
+interface SlotFinderDialogProps {
+  // First day searched; the search covers the following week.
+  from: Date;
+  user: User;
+  onUserChange: (user: User) => void;
+  onClose: () => void;
+  onPick: (slot: SuggestedSlot) => void;
+}
+
+const DURATIONS = [15, 30, 45, 60, 90, 120];
+const SEARCH_DAYS = 7;
+
+export const SlotFinderDialog: React.FC<SlotFinderDialogProps> = ({ from, user, onUserChange, onClose, onPick }) => {
+  const [duration, setDuration] = useState(30);
+  const [people, setPeople] = useState('');
+  const [dayStart, setDayStart] = useState('09:00');
+  const [dayEnd, setDayEnd] = useState('17:00');
+  const [includeWeekends, setIncludeWeekends] = useState(false);
+  const [slots, setSlots] = useState<SuggestedSlot[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const handleShareChange = async (shareFreeBusy: boolean) => {
+    setError(null);
+    try {
+      onUserChange(await updateCurrentUser({ shareFreeBusy }));
+    } catch (err) {
+      setError(axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : "Failed to update your sharing setting.");
+    }
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSearching(true);
+    try {
+      // Never suggest times that have already passed.
+      const start = from > new Date() ? from : new Date();
+      setSlots(await suggestSlots({
+        start: start.toISOString(),
+        end: addDays(start, SEARCH_DAYS).toISOString(),
+        duration,
+        users: people.split(',').map(p => p.trim()).filter(Boolean),
+        workingHours: {
+          start: dayStart,
+          end: dayEnd,
+          days: includeWeekends ? [0, 1, 2, 3, 4, 5, 6] : [1, 2, 3, 4, 5],
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        },
+      }));
+    } catch (err) {
+      setError(axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : "Failed to find free times.");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-card rounded-lg shadow-2xl w-full max-w-md p-6 relative animate-scale-in" role="dialog" aria-modal="true">
+        <button onClick={onClose} className="absolute top-3 right-3 text-foreground/50 hover:text-foreground">
+          <X size={24} />
+        </button>
+        <h2 className="text-xl font-bold mb-4 text-foreground">Find a time</h2>
+
+        <form onSubmit={handleSearch} className="space-y-4">
+          <div>
+            <label htmlFor="people" className="block text-sm font-medium text-foreground/80 mb-1">With</label>
+            <input id="people" placeholder="Emails, separated by commas" value={people} onChange={e => setPeople(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none" />
+            <p className="mt-1 text-xs text-foreground/60">Only people you share an event with, or who share their free/busy with everyone, are taken into account.</p>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="duration" className="block text-sm font-medium text-foreground/80 mb-1">Length</label>
+              <select id="duration" value={duration} onChange={e => setDuration(Number(e.target.value))} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none">
+                {DURATIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} min</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="day-start" className="block text-sm font-medium text-foreground/80 mb-1">From</label>
+              <input id="day-start" required type="time" value={dayStart} onChange={e => setDayStart(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none" />
+            </div>
+            <div>
+              <label htmlFor="day-end" className="block text-sm font-medium text-foreground/80 mb-1">Until</label>
+              <input id="day-end" required type="time" value={dayEnd} onChange={e => setDayEnd(e.target.value)} className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-ring outline-none" />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-foreground/80">
+            <input type="checkbox" checked={includeWeekends} onChange={e => setIncludeWeekends(e.target.checked)} />
+            Include weekends
+          </label>
+          <label className="flex items-center gap-2 text-sm text-foreground/80">
+            <input type="checkbox" checked={!!user.shareFreeBusy} onChange={e => handleShareChange(e.target.checked)} />
+            Let anyone with an account see when I'm busy
+          </label>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 text-red-600 dark:text-red-400 text-sm rounded-md p-3 flex items-center gap-2">
+              <AlertCircle size={16} />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button type="submit" disabled={isSearching} className="bg-primary hover:bg-primary/90 text-primary-foreground px-4 py-2 rounded-md text-sm font-medium shadow-sm transition disabled:opacity-50 disabled:cursor-not-allowed">
+              {isSearching ? 'Searching...' : 'Find times'}
+            </button>
+          </div>
+        </form>
+
+        {slots && (
+          <div className="mt-4 border-t border-border pt-4">
+            {slots.length === 0 ? (
+              <p className="text-sm text-foreground/60">No free time found in the next {SEARCH_DAYS} days.</p>
+            ) : (
+              <ul className="space-y-1 max-h-60 overflow-y-auto">
+                {slots.map(slot => (
+                  <li key={slot.start}>
+                    <button type="button" onClick={() => onPick(slot)} className="w-full text-left px-3 py-2 rounded-md text-sm hover:bg-border/80 transition-colors">
+                      {format(new Date(slot.start), 'EEE, MMM d · h:mm a')} - {format(new Date(slot.end), 'h:mm a')}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
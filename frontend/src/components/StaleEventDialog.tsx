@@ -0,0 +1,109 @@
+import React from 'react';
+import { clsx } from 'clsx';
+import { format } from 'date-fns';
+import { X } from 'lucide-react';
+import type { CalendarEvent, CalendarInfo } from '../api';
+import { changedFields, EDITABLE_FIELDS, sameValue, type EditableField, type StaleWrite } from '../eventMerge';
+
+export type StaleChoice = 'theirs' | 'merge' | 'mine';
+
+interface StaleEventDialogProps {
+  stale: StaleWrite;
+  calendars: CalendarInfo[];
+  onResolve: (choice: StaleChoice) => void;
+}
+
+const FIELD_LABELS: Record<EditableField, string> = {
+  title: 'Title',
+  startTime: 'Starts',
+  endTime: 'Ends',
+  allDay: 'All day',
+  timeZone: 'Time zone',
+  rrule: 'Repeats',
+  calendarId: 'Calendar',
+  description: 'Description',
+  location: 'Location',
+  url: 'Meeting link',
+};
+
+// Shows what the user and whoever else changed the event did differently, and lets the user keep
+// the stored copy, apply only the fields they changed on top of it, or overwrite it with theirs.
+export const StaleEventDialog: React.FC<StaleEventDialogProps> = ({ stale, calendars, onResolve }) => {
+  const { base, mine, theirs } = stale;
+  const mineChanged = mine ? changedFields(base, mine) : {};
+
+  const display = (field: EditableField, event: Partial<CalendarEvent>) => {
+    const value = event[field];
+    if (value === undefined || value === null || value === '') return '—';
+    if (field === 'startTime' || field === 'endTime') return format(new Date(value as string), event.allDay ? 'PP' : 'PPp');
+    if (field === 'allDay') return value ? 'Yes' : 'No';
+    if (field === 'calendarId') return calendars.find(c => c.id === value)?.name ?? '—';
+    return String(value);
+  };
+
+  // Fields either side changed; the user's side shows the stored value where they left it alone.
+  const rows = EDITABLE_FIELDS.filter(field => field in mineChanged || !sameValue(field, base[field], theirs[field]));
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-[60] flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-card rounded-lg shadow-2xl w-full max-w-lg p-6 relative animate-scale-in" role="dialog" aria-modal="true">
+        <button onClick={() => onResolve('theirs')} className="absolute top-3 right-3 text-foreground/50 hover:text-foreground">
+          <X size={24} />
+        </button>
+        <h2 className="text-xl font-bold mb-1 text-foreground">This event was changed elsewhere</h2>
+        <p className="text-sm text-foreground/60 mb-4">
+          "{theirs.title}" was changed in another window or by someone else after you opened it.
+          {mine ? ' Choose which changes to keep.' : ' Delete it anyway?'}
+        </p>
+
+        {rows.length > 0 && (
+          <table className="w-full text-sm mb-2">
+            <thead>
+              <tr className="text-left text-xs text-foreground/60">
+                <th className="font-medium py-1 pr-2" />
+                <th className="font-medium py-1 pr-2">Now</th>
+                {mine && <th className="font-medium py-1">Yours</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(field => {
+                const bothChanged = field in mineChanged && !sameValue(field, base[field], theirs[field]) && !sameValue(field, mine![field], theirs[field]);
+                return (
+                  <tr key={field} className="border-t border-border align-top">
+                    <td className="py-1.5 pr-2 text-foreground/60 whitespace-nowrap">{FIELD_LABELS[field]}</td>
+                    <td className="py-1.5 pr-2 break-words max-w-40">{display(field, theirs)}</td>
+                    {mine && (
+                      <td className={clsx("py-1.5 break-words max-w-40", field in mineChanged && "font-medium", bothChanged && "text-red-600 dark:text-red-400")}>
+                        {display(field, field in mineChanged ? mine : theirs)}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        <div className="flex justify-end gap-2 pt-4">
+          <button type="button" onClick={() => onResolve('theirs')} className="px-4 py-2 rounded-md text-sm font-medium bg-border hover:bg-border/80">
+            {mine ? 'Keep theirs' : 'Keep the event'}
+          </button>
+          {mine && (
+            <button
+              type="button"
+              onClick={() => onResolve('merge')}
+              disabled={Object.keys(mineChanged).length === 0}
+              title="Apply only the fields you changed. Where you both changed a field, yours wins."
+              className="px-4 py-2 rounded-md text-sm font-medium bg-border hover:bg-border/80 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Merge
+            </button>
+          )}
+          <button type="button" onClick={() => onResolve('mine')} className="bg-primary hover:bg-primary/90 text-primary-foreground px-4 py-2 rounded-md text-sm font-medium shadow-sm transition">
+            {mine ? 'Use mine' : 'Delete anyway'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
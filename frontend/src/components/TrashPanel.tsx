@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import axios from 'axios';
+import { format, formatDistanceToNow } from 'date-fns';
+import { X, AlertCircle, Repeat, RotateCcw, Trash2 } from 'lucide-react';
+import { emptyTrash, fetchTrash, purgeFromTrash, type TrashedEvent } from '../api';
+import { eventSpan } from '../calendarView';
+
+// Loads the trash once mounted.
+interface TrashPanelProps {
+  colorOf: (event: TrashedEvent) => string;
+  // Restores through the calendar, so the restore can be undone like any other change.
+  onRestore: (event: TrashedEvent) => Promise<void>;
+  onClose: () => void;
+}
+
+const describeTime = (event: TrashedEvent) => {
+  const { start } = eventSpan(event);
+  if (event.rrule) return `Series from ${format(start, 'MMM d, yyyy')}`;
+  if (event.recurrenceId) return `Occurrence on ${format(start, 'MMM d, yyyy')}`;
+  return event.allDay ? format(start, 'EEE, MMM d, yyyy') : format(start, 'EEE, MMM d, yyyy h:mm a');
+};
+
+export const TrashPanel: React.FC<TrashPanelProps> = ({ colorOf, onRestore, onClose }) => {
+  const [items, setItems] = useState<TrashedEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The item a request is running for, or 'all' while the trash is being emptied.
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTrash()
+      .then(setItems)
+      .catch(() => setError("Failed to load the trash."));
+  }, []);
+
+  const handleRestore = async (event: TrashedEvent) => {
+    setError(null);
+    setBusyId(event.id);
+    try {
+      await onRestore(event);
+      setItems(prev => prev?.filter(e => e.id !== event.id) ?? null);
+    } catch (err) {
+      setError(axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : "Failed to restore the event.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (event: TrashedEvent) => {
+    if (!confirm(`Delete "${event.title}" for good? This cannot be undone.`)) return;
+    setError(null);
+    setBusyId(event.id);
+    try {
+      await purgeFromTrash(event.id);
+      setItems(prev => prev?.filter(e => e.id !== event.id) ?? null);
+    } catch {
+      setError("Failed to delete the event.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (!confirm("Delete everything in the trash for good? This cannot be undone.")) return;
+    setError(null);
+    setBusyId('all');
+    try {
+      await emptyTrash();
+      setItems([]);
+    } catch {
+      setError("Failed to empty the trash.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-card rounded-lg shadow-2xl w-full max-w-lg p-6 relative animate-scale-in" role="dialog" aria-modal="true">
+        <button onClick={onClose} className="absolute top-3 right-3 text-foreground/50 hover:text-foreground">
+          <X size={24} />
+        </button>
+        <h2 className="text-xl font-bold mb-1 text-foreground">Trash</h2>
+        <p className="text-sm text-foreground/60 mb-4">Deleted events can be restored until they are purged.</p>
+
+        <ul className="space-y-2 max-h-[50vh] overflow-y-auto">
+          {items?.map(event => (
+            <li key={event.id} className="flex items-center gap-3 border border-border rounded-md px-3 py-2">
+              <span className="h-3 w-3 rounded-sm shrink-0" style={{ backgroundColor: colorOf(event) }} />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium text-foreground truncate flex items-center gap-1">
+                  {event.rrule && <Repeat size={12} className="shrink-0" />}
+                  {event.title || '(No title)'}
+                </p>
+                <p className="text-xs text-foreground/60">{describeTime(event)}</p>
+                <p className="text-xs text-foreground/50" title={format(new Date(event.purgeAt), 'PPpp')}>
+                  Deleted {formatDistanceToNow(new Date(event.deletedAt), { addSuffix: true })} · purged {formatDistanceToNow(new Date(event.purgeAt), { addSuffix: true })}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRestore(event)}
+                disabled={busyId !== null}
+                title="Restore"
+                className="p-2 rounded-md hover:bg-border/80 text-primary disabled:opacity-50"
+              >
+                <RotateCcw size={16} />
+              </button>
+              <button
+                onClick={() => handlePurge(event)}
+                disabled={busyId !== null}
+                title="Delete for good"
+                className="p-2 rounded-md hover:bg-red-500/10 text-red-600 dark:text-red-400 disabled:opacity-50"
+              >
+                <Trash2 size={16} />
+              </button>
+            </li>
+          ))}
+          {items?.length === 0 && <li className="text-sm text-foreground/60">The trash is empty.</li>}
+          {!items && !error && <li className="text-sm text-foreground/60">Loading...</li>}
+        </ul>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 text-red-600 dark:text-red-400 text-sm rounded-md p-3 mt-4 flex items-center gap-2">
+            <AlertCircle size={16} />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-6">
+          <button
+            type="button"
+            onClick={handleEmpty}
+            disabled={busyId !== null || !items?.length}
+            className="px-4 py-2 rounded-md text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-500/10 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Empty trash
+          </button>
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-md text-sm font-medium bg-border hover:bg-border/80">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
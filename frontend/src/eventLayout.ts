@@ -0,0 +1,66 @@
+// Side-by-side placement of overlapping events within one day column of the time grid.
+
+export interface TimedBlock {
+  start: Date;
+  end: Date;
+}
+
+export interface BlockPlacement {
+  // Offset and width as fractions (0..1) of the day column.
+  left: number;
+  width: number;
+}
+
+const overlaps = (a: TimedBlock, b: TimedBlock) => a.start < b.end && b.start < a.end;
+
+/**
+ * Groups blocks into clusters of (transitively) overlapping ones and gives each block the first
+ * column of its cluster that is free at its start; a cluster's columns are equally wide. A block
+ * then stretches over the columns to its right that nothing overlapping it uses, so short clashes
+ * do not leave every block narrow. Placements are returned in the order of `blocks`.
+ */
+export const layoutDay = (blocks: TimedBlock[]): BlockPlacement[] => {
+  const order = blocks
+    .map((_, i) => i)
+    .sort((a, b) =>
+      blocks[a].start.getTime() - blocks[b].start.getTime() || blocks[b].end.getTime() - blocks[a].end.getTime());
+  const columns: number[] = [];
+  const placements: BlockPlacement[] = [];
+
+  let cluster: number[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = -Infinity;
+
+  const placeCluster = () => {
+    const count = columnEnds.length;
+    for (const i of cluster) {
+      let span = 1;
+      while (
+        columns[i] + span < count &&
+        !cluster.some(j => columns[j] === columns[i] + span && overlaps(blocks[i], blocks[j]))
+      ) {
+        span++;
+      }
+      placements[i] = { left: columns[i] / count, width: span / count };
+    }
+    cluster = [];
+    columnEnds = [];
+    clusterEnd = -Infinity;
+  };
+
+  for (const i of order) {
+    const { start, end } = blocks[i];
+    // Nothing placed so far reaches this block, so the cluster is complete.
+    if (start.getTime() >= clusterEnd) placeCluster();
+
+    let column = columnEnds.findIndex(columnEnd => columnEnd <= start.getTime());
+    if (column === -1) column = columnEnds.length;
+    columnEnds[column] = end.getTime();
+    columns[i] = column;
+    cluster.push(i);
+    clusterEnd = Math.max(clusterEnd, end.getTime());
+  }
+  placeCluster();
+
+  return placements;
+};
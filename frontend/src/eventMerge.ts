@@ -0,0 +1,38 @@
+import type { CalendarEvent } from './api';
+
+// The fields of an event that edits change, in the order they are compared and shown.
+export const EDITABLE_FIELDS = ['title', 'startTime', 'endTime', 'allDay', 'timeZone', 'rrule', 'calendarId', 'description', 'location', 'url'] as const;
+
+export type EditableField = (typeof EDITABLE_FIELDS)[number];
+
+/**
+ * A write the API refused because the event changed after the copy it was based on was loaded.
+ * The user decides what to keep; see StaleEventDialog.
+ */
+export interface StaleWrite {
+  // Shown on the undo stack once the write goes through
+  label: string;
+  // The stored event written to; for a change to a whole series, its master
+  id: string;
+  // The copy the change was made to
+  base: CalendarEvent;
+  // The fields the user set, or null for a delete
+  mine: Partial<CalendarEvent> | null;
+  // The stored copy now
+  theirs: CalendarEvent;
+}
+
+// Missing, null and empty all mean "not set"; times are compared as instants.
+const normalize = (field: EditableField, value: unknown) => {
+  if (value === undefined || value === null || value === '' || (field === 'allDay' && value === false)) return null;
+  return field === 'startTime' || field === 'endTime' ? new Date(value as string).getTime() : value;
+};
+
+export const sameValue = (field: EditableField, a: unknown, b: unknown) => normalize(field, a) === normalize(field, b);
+
+// The fields `mine` sets to something other than they were in `base`. Fields it leaves undefined
+// are not part of the change.
+export const changedFields = (base: CalendarEvent, mine: Partial<CalendarEvent>): Partial<CalendarEvent> =>
+  Object.fromEntries(EDITABLE_FIELDS
+    .filter(field => mine[field] !== undefined && !sameValue(field, base[field], mine[field]))
+    .map(field => [field, mine[field]]));
@@ -0,0 +1,59 @@
+// IndexedDB storage for offline mode: what was last fetched from the API, to show while it cannot
+// be reached, and the outbox of changes waiting to be sent to it.
+const DB_NAME = 'calendar-offline';
+const DB_VERSION = 1;
+const CACHE_STORE = 'cache';
+// Keys are assigned in increasing order, so reading the store back gives the changes in queue order.
+const OUTBOX_STORE = 'outbox';
+
+type StoreName = typeof CACHE_STORE | typeof OUTBOX_STORE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(CACHE_STORE);
+      request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+};
+
+const run = async <T>(store: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const readCache = <T>(key: string) => run<T | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+
+export const writeCache = (key: string, value: unknown) => run<IDBValidKey>(CACHE_STORE, 'readwrite', store => store.put(value, key));
+
+export const deleteCache = (key: string) => run<undefined>(CACHE_STORE, 'readwrite', store => store.delete(key));
+
+// Every cached value whose key starts with `prefix`.
+export const readCacheValues = <T>(prefix: string) =>
+  run<T[]>(CACHE_STORE, 'readonly', store => store.getAll(IDBKeyRange.bound(prefix, `${prefix}\uffff`)));
+
+export const readOutbox = <T>() => run<T[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+
+// Adds an entry to the end of the outbox, or replaces the one with the same id. Resolves to its id.
+export const writeOutboxEntry = async (entry: object) =>
+  Number(await run<IDBValidKey>(OUTBOX_STORE, 'readwrite', store => store.put(entry)));
+
+export const deleteOutboxEntry = (id: number) => run<undefined>(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+
+// Forgets everything, e.g. on logout, so the next account does not see it.
+export const clearOfflineData = async () => {
+  await Promise.all([
+    run<undefined>(CACHE_STORE, 'readwrite', store => store.clear()),
+    run<undefined>(OUTBOX_STORE, 'readwrite', store => store.clear()),
+  ]);
+};
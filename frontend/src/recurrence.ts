@@ -0,0 +1,248 @@
+import { addMonths, format } from 'date-fns';
+import { RRule, type Frequency, type Options } from 'rrule';
+import { fromZonedInputs, toZonedInputs } from './timeZone';
+
+// Reading and writing the recurrence rules the event form edits. Rules are evaluated the way the
+// API does (see recurrenceService): on wall-clock time in the event's zone, with UNTIL an instant.
+
+export type MonthlyMode = 'monthDay' | 'nthWeekday' | 'lastWeekday';
+export type RecurrenceEnd = 'never' | 'until' | 'count';
+
+// What the form shows. Weekdays count from Sunday, like Date.getDay().
+export interface RecurrenceForm {
+  freq: Frequency;
+  interval: number;
+  // Weekly: the days it repeats on
+  weekdays: number[];
+  // Monthly: on a day of the month, on the nth (-1 for last) of a weekday, or on the last weekday
+  monthlyMode: MonthlyMode;
+  monthDay: number;
+  nth: number;
+  nthWeekday: number;
+  end: RecurrenceEnd;
+  // "yyyy-MM-dd", the last day it may occur on
+  until: string;
+  count: number;
+}
+
+// The first occurrence as the form has it. All-day events have no zone and use UTC dates.
+export interface SeriesStart {
+  date: string;
+  time: string;
+  timeZone: string | null;
+}
+
+export const FREQUENCIES: { value: Frequency; label: string }[] = [
+  { value: RRule.DAILY, label: 'Day(s)' },
+  { value: RRule.WEEKLY, label: 'Week(s)' },
+  { value: RRule.MONTHLY, label: 'Month(s)' },
+  { value: RRule.YEARLY, label: 'Year(s)' },
+];
+
+const FREQUENCY_NAMES: Record<string, Frequency> = { DAILY: RRule.DAILY, WEEKLY: RRule.WEEKLY, MONTHLY: RRule.MONTHLY, YEARLY: RRule.YEARLY };
+// Indexed like Date.getDay()
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const RRULE_WEEKDAYS = [RRule.SU, RRule.MO, RRule.TU, RRule.WE, RRule.TH, RRule.FR, RRule.SA];
+const WORKDAYS = [1, 2, 3, 4, 5];
+
+const startWeekday = (start: SeriesStart) => new Date(`${start.date}T00:00:00Z`).getUTCDay();
+
+// A date or date-time value ("20261019", "20261019T090000Z"); the UTC fields hold what it says.
+const parseIcsDate = (value: string) => {
+  const [, y, m, d, hh, mm = '00', ss = '00', utc] = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value) ?? [];
+  return y ? { fields: new Date(Date.UTC(+y, +m - 1, +d, +(hh ?? 0), +mm, +ss)), utc: !!utc, dateOnly: hh === undefined } : null;
+};
+
+// The same instant as a "floating" date whose UTC fields show the time in the zone.
+const toFloating = (instant: Date, timeZone: string | null) => {
+  if (!timeZone) return instant;
+  const { date, time } = toZonedInputs(instant, timeZone);
+  return new Date(`${date}T${time}:${String(instant.getUTCSeconds()).padStart(2, '0')}Z`);
+};
+
+// Stored rules are a bare "FREQ=..." value or lines like "DTSTART:...\nRRULE:...\nEXDATE:...".
+// DTSTART is the event's start, so it is left out.
+const splitRule = (rrule: string) => {
+  const lines = rrule.split(/\r?\n/).map(line => line.trim()).filter(line => line && !/^DTSTART[:;]/i.test(line));
+  const exclusions = lines.filter(line => /^EXDATE[:;]/i.test(line));
+  const others = lines.filter(line => !/^EXDATE[:;]/i.test(line));
+  const main = others.length === 1 ? others[0].replace(/^RRULE:/i, '') : null;
+  return { main: main && !/^[A-Z-]+[:;]/i.test(main) ? main : null, exclusions };
+};
+
+export const defaultRecurrence = (start: SeriesStart): RecurrenceForm => {
+  const day = Number(start.date.slice(8, 10));
+  return {
+    freq: RRule.WEEKLY,
+    interval: 1,
+    weekdays: [startWeekday(start)],
+    monthlyMode: 'monthDay',
+    monthDay: day,
+    // The 5th of a weekday is always its last.
+    nth: day > 28 ? -1 : Math.ceil(day / 7),
+    nthWeekday: startWeekday(start),
+    end: 'never',
+    until: format(addMonths(new Date(`${start.date}T00:00`), 3), 'yyyy-MM-dd'),
+    count: 10,
+  };
+};
+
+/**
+ * Reads a stored rule into the form, along with the EXDATE lines it carries, which are kept as
+ * they are. Returns null for a rule the form cannot show, e.g. one written by another client
+ * with BYMONTH or BYHOUR parts; such rules are saved untouched unless replaced.
+ */
+export const parseRecurrence = (rrule: string, start: SeriesStart): { form: RecurrenceForm; exclusions: string[] } | null => {
+  const { main, exclusions } = splitRule(rrule);
+  if (!main) return null;
+  const parts = new Map(main.split(';').map(part => {
+    const [key, value = ''] = part.split('=');
+    return [key.toUpperCase(), value.toUpperCase()];
+  }));
+  const take = (key: string) => {
+    const value = parts.get(key);
+    parts.delete(key);
+    return value;
+  };
+
+  const form = defaultRecurrence(start);
+  const freq = FREQUENCY_NAMES[take('FREQ') ?? ''];
+  if (freq === undefined) return null;
+  form.freq = freq;
+
+  const interval = take('INTERVAL');
+  if (interval !== undefined) {
+    form.interval = Number(interval);
+    if (!Number.isInteger(form.interval) || form.interval < 1) return null;
+  }
+  // Monday is the default week start and the only one the form writes.
+  if ((take('WKST') ?? 'MO') !== 'MO') return null;
+
+  const count = take('COUNT');
+  const until = take('UNTIL');
+  if (count !== undefined && until !== undefined) return null;
+  if (count !== undefined) {
+    form.end = 'count';
+    form.count = Number(count);
+    if (!Number.isInteger(form.count) || form.count < 1) return null;
+  }
+  if (until !== undefined) {
+    const parsed = parseIcsDate(until);
+    if (!parsed) return null;
+    form.end = 'until';
+    form.until = parsed.utc && start.timeZone
+      ? toZonedInputs(parsed.fields, start.timeZone).date
+      : parsed.fields.toISOString().slice(0, 10);
+  }
+
+  const byday = take('BYDAY')?.split(',');
+  const bymonthday = take('BYMONTHDAY');
+  const bysetpos = take('BYSETPOS');
+  if (freq === RRule.WEEKLY && !bymonthday && !bysetpos) {
+    if (byday) form.weekdays = byday.map(code => DAY_CODES.indexOf(code));
+    if (form.weekdays.includes(-1)) return null;
+  } else if (freq === RRule.MONTHLY && !byday && !bysetpos) {
+    // Without a day, rrule repeats on the start's, which is the default.
+    if (bymonthday) form.monthDay = Number(bymonthday);
+    if (!Number.isInteger(form.monthDay) || form.monthDay < 1 || form.monthDay > 31) return null;
+  } else if (freq === RRule.MONTHLY && byday?.length === 1 && !bymonthday && !bysetpos) {
+    const [, nth, code] = /^([+-]?\d)([A-Z]{2})$/.exec(byday[0]) ?? [];
+    form.monthlyMode = 'nthWeekday';
+    form.nth = Number(nth);
+    form.nthWeekday = DAY_CODES.indexOf(code);
+    if (![1, 2, 3, 4, -1].includes(form.nth) || form.nthWeekday === -1) return null;
+  } else if (freq === RRule.MONTHLY && byday && !bymonthday && bysetpos === '-1') {
+    form.monthlyMode = 'lastWeekday';
+    if (byday.map(code => DAY_CODES.indexOf(code)).sort().join() !== WORKDAYS.join()) return null;
+  } else if (byday || bymonthday || bysetpos) {
+    return null;
+  }
+
+  // Anything left is a part the form would drop.
+  return parts.size === 0 ? { form, exclusions } : null;
+};
+
+// The rule to store for the form, followed by the EXDATE lines it keeps.
+export const buildRecurrence = (form: RecurrenceForm, start: SeriesStart, exclusions: string[] = []): string => {
+  const options: Partial<Options> = { freq: form.freq, interval: form.interval };
+  if (form.freq === RRule.WEEKLY) {
+    // A weekly rule needs a day; without one it repeats on the start's.
+    const days = form.weekdays.length > 0 ? [...form.weekdays].sort() : [startWeekday(start)];
+    options.byweekday = days.map(day => RRULE_WEEKDAYS[day]);
+  } else if (form.freq === RRule.MONTHLY) {
+    if (form.monthlyMode === 'monthDay') {
+      options.bymonthday = form.monthDay;
+    } else if (form.monthlyMode === 'nthWeekday') {
+      options.byweekday = RRULE_WEEKDAYS[form.nthWeekday].nth(form.nth);
+    } else {
+      options.byweekday = WORKDAYS.map(day => RRULE_WEEKDAYS[day]);
+      options.bysetpos = -1;
+    }
+  }
+  if (form.end === 'count') {
+    options.count = form.count;
+  } else if (form.end === 'until') {
+    // The end of that day where the event takes place.
+    options.until = start.timeZone
+      ? new Date(fromZonedInputs(form.until, '23:59', start.timeZone).getTime() + 59 * 1000)
+      : new Date(`${form.until}T23:59:59.000Z`);
+  }
+  return [RRule.optionsToString(options), ...exclusions].join('\n');
+};
+
+// "every week on Monday" and the like, or null if rrule cannot read the rule.
+export const describeRecurrence = (rrule: string): string | null => {
+  const { main } = splitRule(rrule);
+  try {
+    return main ? RRule.fromString(main).toText() : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The dates of EXDATE lines as floating dates in the event's zone, read the way the API reads
+ * them: UTC values and values in another TZID are converted, plain dates take the start's time.
+ */
+const excludedDates = (exclusions: string[], start: SeriesStart): Date[] => exclusions.flatMap(line => {
+  const colon = line.indexOf(':');
+  const tzid = /;TZID=([^;:]+)/i.exec(line.slice(0, colon))?.[1];
+  return line.slice(colon + 1).split(',').flatMap(value => {
+    const date = parseIcsDate(value.trim());
+    if (!date) return [];
+    const day = date.fields.toISOString().slice(0, 10);
+    if (date.dateOnly) return [new Date(`${day}T${start.time}:00Z`)];
+    if (date.utc) return [toFloating(date.fields, start.timeZone)];
+    if (tzid && tzid !== start.timeZone) {
+      return [toFloating(fromZonedInputs(day, date.fields.toISOString().slice(11, 16), tzid), start.timeZone)];
+    }
+    return [date.fields];
+  });
+});
+
+/**
+ * Up to `limit` occurrences from now on (or from the start, if later), skipping EXDATEs. The
+ * dates' local fields show the wall-clock time in the event's zone, ready for formatting.
+ * Null if the rule cannot be evaluated.
+ */
+export const upcomingOccurrences = (rrule: string, start: SeriesStart, limit = 10): Date[] | null => {
+  const { main, exclusions } = splitRule(rrule);
+  if (!main) return null;
+  try {
+    const options = RRule.parseString(main);
+    if (options.until) options.until = toFloating(options.until, start.timeZone);
+    const rule = new RRule({ ...options, dtstart: new Date(`${start.date}T${start.time}:00Z`), tzid: null });
+
+    const skipped = new Set(excludedDates(exclusions, start).map(date => date.getTime()));
+
+    const occurrences: Date[] = [];
+    let next = rule.after(toFloating(new Date(), start.timeZone), true);
+    while (next && occurrences.length < limit) {
+      if (!skipped.has(next.getTime())) occurrences.push(next);
+      next = rule.after(next);
+    }
+    return occurrences.map(date => new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes()));
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,43 @@
+// Helpers for entering times in a zone other than the browser's, built on Intl.
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Every zone the browser knows, with the browser's own zone guaranteed to be present.
+export const timeZoneOptions = (): string[] => {
+  const zones = Intl.supportedValuesOf('timeZone');
+  return zones.includes(browserTimeZone()) ? zones : [browserTimeZone(), ...zones];
+};
+
+// Wall-clock fields of an instant in `timeZone`.
+const zonedFields = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)!.value;
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+// The date ("yyyy-MM-dd") and time ("HH:mm") an instant shows in `timeZone`, as form inputs use them.
+export const toZonedInputs = (instant: Date, timeZone: string) => {
+  const f = zonedFields(instant, timeZone);
+  return { date: `${f.year}-${f.month}-${f.day}`, time: `${f.hour}:${f.minute}` };
+};
+
+// The instant at which the clocks in `timeZone` show the given date ("yyyy-MM-dd") and time ("HH:mm").
+export const fromZonedInputs = (date: string, time: string, timeZone: string): Date => {
+  const wallClock = Date.parse(`${date}T${time}:00Z`);
+  const offsetAt = (instant: number) => {
+    const f = zonedFields(new Date(instant), timeZone);
+    return Date.UTC(+f.year, +f.month - 1, +f.day, +f.hour, +f.minute, +f.second) - Math.floor(instant / 1000) * 1000;
+  };
+  // The offset at the first guess is right except right around a DST change, so check twice.
+  const firstGuess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(firstGuess));
+};